@@ -0,0 +1,49 @@
+// Offline verifier for Veritas proof receipts.
+//
+// Checks a receipt downloaded from the block explorer (or the
+// get-proof-receipt function) without any access to Supabase:
+//
+//   deno run --allow-read scripts/verify-receipt.ts receipt.json
+//   node scripts/verify-receipt.ts receipt.json      (Node 22.18+)
+//
+// Exits with status 1 when any check fails. The hashing, Merkle and
+// signature code is the same code the edge functions use to write blocks.
+
+import { readFile } from 'node:fs/promises'
+import process from 'node:process'
+import { type ProofReceipt, verifyReceipt } from '../supabase/functions/_shared/receipt.ts'
+
+const symbols = { pass: '✔', fail: '✘', skipped: '–' }
+
+async function main() {
+  const path = process.argv[2]
+  if (!path) {
+    console.error('Usage: verify-receipt <receipt.json>')
+    process.exit(2)
+  }
+
+  const receipt: ProofReceipt = JSON.parse(await readFile(path, 'utf8'))
+  const checks = await verifyReceipt(receipt)
+
+  console.log(`Block #${receipt.block?.block_number} ${receipt.block?.block_hash}`)
+  console.log(`"${receipt.block?.statement}" — ${receipt.block?.speaker}\n`)
+  for (const check of checks) {
+    console.log(`${symbols[check.status]} ${check.name}: ${check.detail}`)
+  }
+
+  const failed = checks.filter(check => check.status === 'fail')
+  if (failed.length > 0) {
+    console.log(`\n${failed.length} check(s) failed. This receipt does not match the recorded statement.`)
+    process.exit(1)
+  }
+
+  console.log('\nReceipt is internally consistent.')
+  if (receipt.checkpoint) {
+    console.log(`Compare Merkle root ${receipt.checkpoint.merkle_root} with the published checkpoint #${receipt.checkpoint.checkpoint_number}.`)
+  }
+  if (receipt.signing_key) {
+    console.log(`Compare public key ${receipt.signing_key.public_key} with the published key ${receipt.signing_key.key_id}.`)
+  }
+}
+
+main()
@@ -6,6 +6,8 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Admin from "./pages/Admin";
 import Chatbot from "./pages/Chatbot";
+import ChainExplorer from "./pages/ChainExplorer";
+import BlockDetail from "./pages/BlockDetail";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -20,6 +22,8 @@ const App = () => (
           <Route path="/" element={<Index />} />
           <Route path="/admin" element={<Admin />} />
           <Route path="/chatbot" element={<Chatbot />} />
+          <Route path="/chain" element={<ChainExplorer />} />
+          <Route path="/chain/:blockHash" element={<BlockDetail />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,161 @@
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { supabase } from '@/integrations/supabase/client'
+import { useMutation } from '@tanstack/react-query'
+import { Link2, ShieldCheck, ShieldAlert } from 'lucide-react'
+import { problemLabels } from '@/lib/chain-audit'
+
+interface ChainAuditReport {
+  valid: boolean
+  totalBlocks: number
+  unverifiableBlocks: number
+  unsignedBlocks: number
+  firstBrokenLink: {
+    index: number
+    id: string
+    block_number: number
+    block_hash: string
+    expected_previous_hash: string
+    actual_previous_hash: string | null
+  } | null
+  mismatches: Array<{
+    index: number
+    id: string
+    block_number: number
+    block_hash: string
+    problems: string[]
+  }>
+  forks: Array<{
+    previous_hash: string | null
+    child_count: number
+    child_block_hashes: string[]
+    child_block_numbers: number[]
+  }>
+  checkedAt: string
+}
+
+export default function ChainAuditPanel() {
+  const auditMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke('verify-chain')
+
+      if (error) throw error
+      return data as ChainAuditReport
+    },
+    onSuccess: (report) => {
+      if (report.valid) {
+        toast.success('Chain audit passed')
+      } else {
+        toast.error(`Chain audit found ${report.mismatches.length} mismatched blocks and ${report.forks.length} forks`)
+      }
+    },
+    onError: (error) => {
+      console.error('Chain audit error:', error)
+      toast.error('Failed to audit the chain')
+    }
+  })
+
+  const report = auditMutation.data
+
+  return (
+    <Card className="shadow-lg mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          Chain Integrity Audit
+        </CardTitle>
+        <CardDescription>
+          Walk every block in the Veritas chain, recompute its hashes and check each link to the previous block.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Button
+          className="w-full h-11"
+          onClick={() => auditMutation.mutate()}
+          disabled={auditMutation.isPending}
+        >
+          {auditMutation.isPending ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
+              Auditing Chain...
+            </>
+          ) : (
+            <>
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Run Full Audit
+            </>
+          )}
+        </Button>
+
+        {report && (
+          <div className="mt-6 p-4 bg-muted rounded-md space-y-3">
+            <div className="flex items-center gap-2">
+              <Badge variant={report.valid ? 'default' : 'destructive'}>
+                {report.valid ? 'INTACT' : 'BROKEN'}
+              </Badge>
+              <span className="text-sm text-muted-foreground">
+                {report.totalBlocks} blocks checked at {new Date(report.checkedAt).toLocaleString()}
+              </span>
+            </div>
+
+            {report.unverifiableBlocks > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {report.unverifiableBlocks} blocks were written without a stored timestamp, so their block hash cannot be recomputed.
+              </p>
+            )}
+
+            {report.unsignedBlocks > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {report.unsignedBlocks} blocks carry no editor signature.
+              </p>
+            )}
+
+            {report.firstBrokenLink && (
+              <div className="text-sm">
+                <p className="font-medium flex items-center gap-1">
+                  <ShieldAlert className="h-4 w-4 text-destructive" />
+                  First broken link at block #{report.firstBrokenLink.block_number}
+                </p>
+                <p className="text-xs text-muted-foreground font-mono break-all">
+                  expected previous {report.firstBrokenLink.expected_previous_hash}, found {report.firstBrokenLink.actual_previous_hash ?? 'null'}
+                </p>
+              </div>
+            )}
+
+            {report.mismatches.length > 0 && (
+              <div>
+                <p className="text-sm font-medium">Mismatched Blocks:</p>
+                <ul className="text-xs text-muted-foreground space-y-1 mt-1">
+                  {report.mismatches.map((mismatch) => (
+                    <li key={mismatch.id}>
+                      <span className="font-mono">#{mismatch.block_number} {mismatch.block_hash}</span>
+                      {' — '}
+                      {mismatch.problems.map(problem => problemLabels[problem] ?? problem).join(', ')}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {report.forks.length > 0 && (
+              <div>
+                <p className="text-sm font-medium">Forks:</p>
+                <ul className="text-xs text-muted-foreground space-y-1 mt-1">
+                  {report.forks.map((fork) => (
+                    <li key={fork.previous_hash ?? 'genesis'}>
+                      <span className="font-mono break-all">{fork.previous_hash ?? 'genesis'}</span>
+                      {` has ${fork.child_count} children: blocks `}
+                      {fork.child_block_numbers.map(n => `#${n}`).join(', ')}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,115 @@
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { supabase } from '@/integrations/supabase/client'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useRecentCheckpoints } from '@/hooks/use-checkpoints'
+import { functionErrorMessage } from '@/lib/functions'
+import { signCheckpointRequest } from '@/lib/signing'
+import { GitMerge, Stamp } from 'lucide-react'
+
+interface CheckpointsPanelProps {
+  signerKeyId: string
+  signerPrivateKey: string
+}
+
+export default function CheckpointsPanel({ signerKeyId, signerPrivateKey }: CheckpointsPanelProps) {
+  const queryClient = useQueryClient()
+  const { data: recent, isLoading } = useRecentCheckpoints()
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      if (!signerKeyId.trim() || !signerPrivateKey.trim()) {
+        throw new Error('A signing key is required to create a checkpoint')
+      }
+      const signedAt = new Date().toISOString()
+      let signature: string
+      try {
+        signature = await signCheckpointRequest(signerPrivateKey.trim(), signedAt)
+      } catch (signError) {
+        console.error('Signing error:', signError)
+        throw new Error('Could not sign the request with this private key')
+      }
+      localStorage.setItem('veritas_signer_key_id', signerKeyId.trim())
+
+      const { data, error } = await supabase.functions.invoke('create-checkpoint', {
+        body: { signerKeyId: signerKeyId.trim(), signature, signedAt }
+      })
+
+      if (error) throw new Error(await functionErrorMessage(error, 'Failed to create checkpoint'))
+      return data
+    },
+    onSuccess: (data) => {
+      if (data.checkpoint) {
+        toast.success(data.message)
+        queryClient.invalidateQueries({ queryKey: ['checkpoints'] })
+      } else {
+        toast.info(data.message)
+      }
+    },
+    onError: (error) => {
+      console.error('Checkpoint error:', error)
+      toast.error(error.message)
+    }
+  })
+
+  return (
+    <Card className="shadow-lg mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitMerge className="h-5 w-5" />
+          Merkle Checkpoints
+        </CardTitle>
+        <CardDescription>
+          Checkpoints seal a range of blocks under a single Merkle root so any statement can be proven to be on the chain with a short inclusion proof.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Button
+          className="w-full h-11"
+          onClick={() => createMutation.mutate()}
+          disabled={createMutation.isPending}
+        >
+          {createMutation.isPending ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
+              Creating Checkpoint...
+            </>
+          ) : (
+            <>
+              <Stamp className="h-4 w-4 mr-2" />
+              Create Checkpoint Now
+            </>
+          )}
+        </Button>
+
+        {isLoading ? (
+          <div className="text-center py-4 text-muted-foreground">
+            Loading checkpoints...
+          </div>
+        ) : recent && recent.length > 0 ? (
+          <ul className="mt-6 space-y-2">
+            {recent.map((checkpoint) => (
+              <li key={checkpoint.id} className="p-3 bg-muted rounded-md text-sm">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">#{checkpoint.checkpoint_number}</Badge>
+                  <span className="text-muted-foreground">
+                    blocks #{checkpoint.first_block_number}–#{checkpoint.last_block_number}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground font-mono break-all mt-1">
+                  {checkpoint.merkle_root}
+                </p>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="text-center py-4 text-muted-foreground">
+            No checkpoints yet.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
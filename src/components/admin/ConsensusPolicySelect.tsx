@@ -0,0 +1,33 @@
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+
+export type ConsensusChoice = 'single' | 'majority' | 'weighted' | 'unanimous'
+
+interface ConsensusPolicySelectProps {
+  id: string
+  value: ConsensusChoice
+  onChange: (value: ConsensusChoice) => void
+}
+
+// Picks between the default model and a consensus of the configured panel
+export default function ConsensusPolicySelect({ id, value, onChange }: ConsensusPolicySelectProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="text-sm font-medium">
+        Models
+      </Label>
+      <Select value={value} onValueChange={(next) => onChange(next as ConsensusChoice)}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="single">Default model</SelectItem>
+          <SelectItem value="majority">Consensus — majority vote</SelectItem>
+          <SelectItem value="weighted">Consensus — weighted by model and confidence</SelectItem>
+          <SelectItem value="unanimous">Consensus — unanimous</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
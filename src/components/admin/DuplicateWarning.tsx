@@ -0,0 +1,81 @@
+import { Link } from 'react-router-dom'
+import { AlertTriangle, ExternalLink } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+
+// Mirrors DuplicateMatch in supabase/functions/_shared/duplicates.ts
+export interface DuplicateMatch {
+  id: string
+  block_hash: string
+  block_number: number
+  block_type: string
+  statement: string
+  speaker: string
+  source_url: string | null
+  statement_date: string | null
+  match_type: 'exact' | 'near'
+  same_speaker: boolean
+  text_similarity: number
+  semantic_similarity: number | null
+}
+
+interface DuplicateWarningProps {
+  duplicates: DuplicateMatch[]
+  className?: string
+}
+
+function similarityLabel(duplicate: DuplicateMatch): string {
+  if (duplicate.match_type === 'exact') return 'Same statement and speaker'
+  const similarity = Math.max(duplicate.text_similarity, duplicate.semantic_similarity ?? 0)
+  return `${Math.round(similarity * 100)}% similar${duplicate.same_speaker ? '' : ', different speaker'}`
+}
+
+// Statements already on the chain that the one being added may repeat
+export default function DuplicateWarning({ duplicates, className }: DuplicateWarningProps) {
+  const exact = duplicates.some(duplicate => duplicate.match_type === 'exact')
+
+  return (
+    <div className={cn('p-3 rounded-md border border-amber-300 bg-amber-50 space-y-3', className)}>
+      <p className="flex items-center gap-2 text-sm font-medium text-amber-900">
+        <AlertTriangle className="h-4 w-4" />
+        {exact ? 'This statement is already on the chain' : 'Similar statements are already on the chain'}
+      </p>
+      <ul className="space-y-2">
+        {duplicates.map(duplicate => (
+          <li key={duplicate.block_hash} className="text-xs">
+            <p className="italic line-clamp-2">"{duplicate.statement}"</p>
+            <p className="flex items-center gap-1 text-muted-foreground">
+              — {duplicate.speaker}
+              {duplicate.statement_date && <span>· {duplicate.statement_date}</span>}
+              {duplicate.source_url && (
+                <a
+                  href={duplicate.source_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center text-primary hover:underline"
+                >
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              )}
+            </p>
+            <div className="flex items-center gap-2 mt-1">
+              <Badge variant={duplicate.match_type === 'exact' ? 'destructive' : 'secondary'}>
+                {similarityLabel(duplicate)}
+              </Badge>
+              <Link
+                to={`/chain/${duplicate.block_hash}`}
+                target="_blank"
+                className="font-mono text-primary hover:underline"
+              >
+                Block #{duplicate.block_number} · {duplicate.block_hash.slice(0, 12)}…
+              </Link>
+            </div>
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-amber-900">
+        If this is a different statement, or worth recording again, add it anyway.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { toast } from 'sonner'
+import { generateEditorKeyPair } from '@/lib/signing'
+import { KeyRound } from 'lucide-react'
+
+interface EditorSigningKeyProps {
+  keyId: string
+  privateKey: string
+  onKeyIdChange: (keyId: string) => void
+  onPrivateKeyChange: (privateKey: string) => void
+}
+
+export default function EditorSigningKey({ keyId, privateKey, onKeyIdChange, onPrivateKeyChange }: EditorSigningKeyProps) {
+  const [generatedPublicKey, setGeneratedPublicKey] = useState('')
+
+  const handleGenerate = async () => {
+    try {
+      const keyPair = await generateEditorKeyPair()
+      onPrivateKeyChange(keyPair.privateKey)
+      setGeneratedPublicKey(keyPair.publicKey)
+      toast.success('Key pair generated. Save the private key and register the public key before signing.')
+    } catch (error) {
+      console.error('Key generation error:', error)
+      toast.error('This browser does not support Ed25519 keys')
+    }
+  }
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium flex items-center gap-2">
+          <KeyRound className="h-4 w-4" />
+          Editor Signing Key
+        </p>
+        <Button type="button" size="sm" variant="outline" onClick={handleGenerate}>
+          Generate Key Pair
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="signerKeyId" className="text-sm font-medium">
+          Key ID *
+        </Label>
+        <Input
+          id="signerKeyId"
+          placeholder="Registered key id, e.g. jdoe-2025"
+          value={keyId}
+          onChange={(e) => onKeyIdChange(e.target.value)}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="signerPrivateKey" className="text-sm font-medium">
+          Private Key (PKCS#8, base64) *
+        </Label>
+        <Input
+          id="signerPrivateKey"
+          type="password"
+          autoComplete="off"
+          placeholder="Never leaves this browser"
+          value={privateKey}
+          onChange={(e) => onPrivateKeyChange(e.target.value)}
+          required
+        />
+      </div>
+
+      {generatedPublicKey && (
+        <div className="text-xs text-muted-foreground space-y-1">
+          <p>Public key to register in <span className="font-mono">editor_keys</span>:</p>
+          <p className="font-mono break-all bg-muted rounded p-2">{generatedPublicKey}</p>
+          <p>Private key (store it somewhere safe, it is not kept after you leave this page):</p>
+          <p className="font-mono break-all bg-muted rounded p-2">{privateKey}</p>
+        </div>
+      )}
+    </div>
+  )
+}
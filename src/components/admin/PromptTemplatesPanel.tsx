@@ -0,0 +1,332 @@
+import { useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { toast } from 'sonner'
+import { supabase } from '@/integrations/supabase/client'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { FileText } from 'lucide-react'
+import { usePromptTemplates, type PromptTemplate } from '@/hooks/use-prompt-templates'
+import { signPromptTemplateChange } from '@/lib/signing'
+import { functionErrorMessage } from '@/lib/functions'
+import { diffLines } from '@/lib/diff'
+import { cn } from '@/lib/utils'
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  PROMPT_USE_CASES,
+  PROMPT_VARIABLES,
+  type PromptUseCase,
+  renderTemplate,
+  validatePromptTemplate
+} from '../../../supabase/functions/_shared/prompt-templates.ts'
+import { quoteUntrusted, UNTRUSTED_INPUT_NOTICE } from '../../../supabase/functions/_shared/untrusted.ts'
+import type { PromptTemplateChange } from '../../../supabase/functions/_shared/signatures.ts'
+
+interface PromptTemplatesPanelProps {
+  signerKeyId: string
+  signerPrivateKey: string
+}
+
+const useCaseLabels: Record<PromptUseCase, string> = {
+  verify: 'Verification (verify-statement)',
+  ask: 'Chat answers (ask-veritas)',
+}
+
+// Sample values, filled in the way the functions fill them
+const previewValues: Record<PromptUseCase, Record<string, string>> = {
+  verify: {
+    subject: 'statement',
+    input: `Statement: ${quoteUntrusted('statement', 'Unemployment fell to 3.5% in 2019.')}`,
+    speaker: quoteUntrusted('speaker', 'Jane Doe'),
+    date: quoteUntrusted('date', '2020-01-15'),
+    source: 'No source provided',
+    format: '[the JSON verdict format the response is parsed with]',
+  },
+  ask: {
+    query: quoteUntrusted('query', 'Did unemployment fall in 2019?'),
+    conversation_note: '',
+    sources: `Statements recorded on the Veritas chain that may be relevant:\n[1] ${quoteUntrusted('statement', 'Unemployment fell to 3.5% in 2019.')} — ${quoteUntrusted('speaker', 'Jane Doe')} (2020-01-15, block #42, reviewed verdict VERIFIED (HIGH confidence))`,
+    format: '[the answer and metadata format the response is parsed with]',
+  },
+}
+
+function DiffView({ before, after }: { before: string, after: string }) {
+  const lines = diffLines(before, after)
+  if (lines.every(line => line.type === 'same')) {
+    return <p className="text-xs text-muted-foreground">No changes.</p>
+  }
+
+  return (
+    <pre className="text-xs whitespace-pre-wrap break-words rounded-md border max-h-96 overflow-auto">
+      {lines.map((line, index) => (
+        <div
+          key={index}
+          className={cn(
+            'px-2',
+            line.type === 'added' && 'bg-green-50 text-green-900',
+            line.type === 'removed' && 'bg-red-50 text-red-900 line-through'
+          )}
+        >
+          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+        </div>
+      ))}
+    </pre>
+  )
+}
+
+// Edit, compare and activate versions of the fact-check prompts
+export default function PromptTemplatesPanel({ signerKeyId, signerPrivateKey }: PromptTemplatesPanelProps) {
+  const queryClient = useQueryClient()
+  const [useCase, setUseCase] = useState<PromptUseCase>('verify')
+  const { data: versions, isLoading } = usePromptTemplates(useCase)
+
+  // The version the editor started from, and the one the diff compares with
+  const [baseId, setBaseId] = useState<string | null>(null)
+  const [compareId, setCompareId] = useState<string | null>(null)
+  const [systemPrompt, setSystemPrompt] = useState('')
+  const [template, setTemplate] = useState('')
+  const [notes, setNotes] = useState('')
+
+  const loadVersion = (version: PromptTemplate | null) => {
+    const text = version
+      ? { systemPrompt: version.system_prompt, template: version.template }
+      : DEFAULT_PROMPT_TEMPLATES[useCase]
+    setBaseId(version?.id ?? null)
+    setCompareId(version?.id ?? null)
+    setSystemPrompt(text.systemPrompt)
+    setTemplate(text.template)
+    setNotes('')
+  }
+
+  // Start from the active version once a use case's versions have loaded
+  const [loadedUseCase, setLoadedUseCase] = useState<PromptUseCase | null>(null)
+  if (!isLoading && loadedUseCase !== useCase) {
+    setLoadedUseCase(useCase)
+    loadVersion(versions?.find(version => version.is_active) ?? versions?.[0] ?? null)
+  }
+
+  const validationIssues = useMemo(
+    () => validatePromptTemplate(useCase, { systemPrompt, template }),
+    [useCase, systemPrompt, template]
+  )
+  const compared = versions?.find(version => version.id === compareId)
+  const comparedText = compared
+    ? { systemPrompt: compared.system_prompt, template: compared.template }
+    : DEFAULT_PROMPT_TEMPLATES[useCase]
+  const unchanged = comparedText.systemPrompt === systemPrompt && comparedText.template === template
+  const nextVersion = (versions?.[0]?.version ?? 0) + 1
+
+  const changeMutation = useMutation({
+    mutationFn: async (unsigned: Omit<PromptTemplateChange, 'signedAt'>) => {
+      if (!signerKeyId.trim() || !signerPrivateKey.trim()) {
+        throw new Error('A signing key is required to change prompt templates')
+      }
+      const change: PromptTemplateChange = { ...unsigned, signedAt: new Date().toISOString() }
+      let signature: string
+      try {
+        signature = await signPromptTemplateChange(signerPrivateKey.trim(), change)
+      } catch (signError) {
+        console.error('Signing error:', signError)
+        throw new Error('Could not sign the change with this private key')
+      }
+      localStorage.setItem('veritas_signer_key_id', signerKeyId.trim())
+
+      const { data, error } = await supabase.functions.invoke('prompt-templates', {
+        body: { ...change, signerKeyId: signerKeyId.trim(), signature }
+      })
+
+      if (error) throw new Error(await functionErrorMessage(error, 'Failed to change the prompt template'))
+      return data.template as PromptTemplate
+    },
+    onSuccess: (saved, change) => {
+      queryClient.invalidateQueries({ queryKey: ['prompt-templates', saved.use_case] })
+      if (change.action === 'create') {
+        setBaseId(saved.id)
+        setCompareId(saved.id)
+        setNotes('')
+        toast.success(`Saved ${saved.use_case} prompt v${saved.version}; activate it to use it`)
+      } else {
+        toast.success(`${saved.use_case} prompt v${saved.version} is now active`)
+      }
+    },
+    onError: (error) => {
+      console.error('Prompt template error:', error)
+      toast.error(error.message)
+    }
+  })
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Prompt Templates
+        </CardTitle>
+        <CardDescription>
+          The prompts the fact-check functions use, with every version kept. Save an edit as a new version, compare it with an earlier one, and activate it; each verdict and chat answer records the version it was produced with.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="prompt-use-case">Use case</Label>
+          <Select value={useCase} onValueChange={(value) => setUseCase(value as PromptUseCase)}>
+            <SelectTrigger id="prompt-use-case">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PROMPT_USE_CASES.map(name => (
+                <SelectItem key={name} value={name}>{useCaseLabels[name]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-4 text-muted-foreground">Loading versions...</div>
+        ) : versions && versions.length > 0 ? (
+          <ul className="space-y-2">
+            {versions.map(version => (
+              <li key={version.id} className="p-3 bg-muted rounded-md text-sm flex flex-wrap items-center gap-2">
+                <span className="font-mono font-medium">v{version.version}</span>
+                {version.is_active && <Badge>Active</Badge>}
+                {version.id === baseId && <Badge variant="outline">Editing</Badge>}
+                <span className="text-xs text-muted-foreground flex-1">
+                  {new Date(version.created_at).toLocaleString()}
+                  {version.created_by && ` · ${version.created_by}`}
+                  {version.notes && ` · ${version.notes}`}
+                </span>
+                <Button size="sm" variant="ghost" onClick={() => loadVersion(version)}>
+                  Edit from this
+                </Button>
+                {!version.is_active && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={changeMutation.isPending}
+                    onClick={() => changeMutation.mutate({ action: 'activate', templateId: version.id })}
+                  >
+                    Activate
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="text-center py-4 text-muted-foreground">
+            No versions yet; the functions use their built-in prompt.
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="prompt-system">System prompt</Label>
+          <Textarea
+            id="prompt-system"
+            value={systemPrompt}
+            onChange={(e) => setSystemPrompt(e.target.value)}
+            className="min-h-16 font-mono text-xs"
+          />
+          <p className="text-xs text-muted-foreground">
+            Always followed by: {UNTRUSTED_INPUT_NOTICE}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="prompt-template">Template</Label>
+          <Textarea
+            id="prompt-template"
+            value={template}
+            onChange={(e) => setTemplate(e.target.value)}
+            className="min-h-64 font-mono text-xs"
+          />
+          <div className="flex flex-wrap gap-1">
+            {PROMPT_VARIABLES[useCase].map(variable => (
+              <Badge key={variable.name} variant="secondary" className="font-mono" title={variable.description}>
+                {`{{${variable.name}}}`}{variable.required && ' *'}
+              </Badge>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Variables marked * are required. User input is quoted as untrusted before it is filled in.
+          </p>
+        </div>
+
+        {validationIssues.length > 0 && (
+          <ul className="text-xs text-destructive list-disc list-inside">
+            {validationIssues.map(issue => <li key={issue}>{issue}</li>)}
+          </ul>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="prompt-notes">Notes</Label>
+          <Input
+            id="prompt-notes"
+            placeholder="What changed and why"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+
+        <Button
+          disabled={changeMutation.isPending || validationIssues.length > 0 || unchanged}
+          onClick={() => changeMutation.mutate({
+            action: 'create',
+            useCase,
+            systemPrompt,
+            template,
+            notes: notes.trim() || null
+          })}
+        >
+          Save as v{nextVersion}
+        </Button>
+
+        <Tabs defaultValue="preview">
+          <TabsList>
+            <TabsTrigger value="preview">Preview</TabsTrigger>
+            <TabsTrigger value="diff">Diff</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="preview" className="space-y-2">
+            <p className="text-xs text-muted-foreground">Rendered with sample values.</p>
+            <pre className="text-xs whitespace-pre-wrap break-words p-3 bg-muted rounded-md">
+              <span className="font-medium">system: </span>{systemPrompt} {UNTRUSTED_INPUT_NOTICE}
+            </pre>
+            <pre className="text-xs whitespace-pre-wrap break-words p-3 bg-muted rounded-md max-h-96 overflow-auto">
+              <span className="font-medium">user: </span>{renderTemplate(template, previewValues[useCase])}
+            </pre>
+          </TabsContent>
+
+          <TabsContent value="diff" className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="prompt-compare" className="text-xs">Edits compared with</Label>
+              <Select
+                value={compareId ?? 'builtin'}
+                onValueChange={(value) => setCompareId(value === 'builtin' ? null : value)}
+              >
+                <SelectTrigger id="prompt-compare" className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions?.map(version => (
+                    <SelectItem key={version.id} value={version.id}>
+                      v{version.version}{version.is_active ? ' (active)' : ''}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="builtin">Built-in prompt</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs font-medium">System prompt</p>
+            <DiffView before={comparedText.systemPrompt} after={systemPrompt} />
+            <p className="text-xs font-medium">Template</p>
+            <DiffView before={comparedText.template} after={template} />
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  )
+}
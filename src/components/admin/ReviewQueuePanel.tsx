@@ -0,0 +1,278 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { toast } from 'sonner'
+import { supabase } from '@/integrations/supabase/client'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { ClipboardCheck } from 'lucide-react'
+import VerdictBadge from '@/components/chain/VerdictBadge'
+import InjectionFlags from '@/components/chain/InjectionFlags'
+import { useReviewQueue, type QueuedReview } from '@/hooks/use-reviews'
+import { signReviewDecision } from '@/lib/signing'
+import { functionErrorMessage } from '@/lib/functions'
+import type { ReviewDecision } from '../../../supabase/functions/_shared/signatures.ts'
+
+interface ReviewQueuePanelProps {
+  signerKeyId: string
+  signerPrivateKey: string
+}
+
+const reasonLabels: Record<string, string> = {
+  disputed: 'Disputed',
+  low_confidence: 'Low confidence',
+  format_error: 'Unparseable model output',
+  suspected_injection: 'Possible prompt injection',
+}
+
+function ReviewItem({ review, signerKeyId, onDecide, deciding }: {
+  review: QueuedReview
+  signerKeyId: string
+  onDecide: (decision: Omit<ReviewDecision, 'signedAt'>) => void
+  deciding: boolean
+}) {
+  const [status, setStatus] = useState(review.ai_status ?? '')
+  const [confidence, setConfidence] = useState(review.ai_confidence ?? '')
+  const [notes, setNotes] = useState('')
+
+  const reviewId = review.id ?? ''
+  const claimedByMe = review.status === 'claimed' && review.claimed_by === signerKeyId
+  const overriding = status !== review.ai_status || confidence !== review.ai_confidence
+  const aiOutput = review.ai_output as { issues?: string[], output?: string } | null
+
+  return (
+    <li className="border rounded-lg p-4 space-y-3">
+      <div>
+        <p className="font-medium text-sm">"{review.statement}"</p>
+        <p className="text-sm text-muted-foreground mt-1">
+          — {review.speaker} {review.statement_date && `(${review.statement_date})`}
+        </p>
+        <p className="text-xs text-muted-foreground font-mono mt-1">
+          <Link to={`/chain/${review.block_hash}`} className="hover:underline">
+            Block #{review.block_number}
+          </Link>
+          {' · '}queued {review.created_at && new Date(review.created_at).toLocaleString()}
+        </p>
+        <div className="flex flex-wrap gap-1 mt-2">
+          {review.reasons?.map(reason => (
+            <Badge key={reason} variant="secondary">{reasonLabels[reason] ?? reason}</Badge>
+          ))}
+        </div>
+      </div>
+
+      {review.ai_injection_flags && <InjectionFlags matches={review.ai_injection_flags} />}
+
+      <div className="p-3 bg-muted rounded-md">
+        <p className="text-xs font-medium mb-1">AI output</p>
+        {review.ai_status ? (
+          <>
+            <VerdictBadge status={review.ai_status} confidence={review.ai_confidence} source="ai" />
+            {review.ai_model && <p className="text-xs text-muted-foreground mt-1">{review.ai_model}</p>}
+            {review.ai_reasoning && <p className="text-xs text-muted-foreground mt-2">{review.ai_reasoning}</p>}
+            {review.ai_issues && review.ai_issues.length > 0 && (
+              <ul className="text-xs text-muted-foreground list-disc list-inside mt-2">
+                {review.ai_issues.map((issue, index) => <li key={index}>{issue}</li>)}
+              </ul>
+            )}
+          </>
+        ) : (
+          <>
+            <p className="text-xs text-muted-foreground">The model did not return a valid verdict.</p>
+            {aiOutput?.issues && (
+              <ul className="text-xs text-muted-foreground list-disc list-inside mt-2">
+                {aiOutput.issues.map((issue, index) => <li key={index}>{issue}</li>)}
+              </ul>
+            )}
+            {aiOutput?.output && (
+              <pre className="text-xs whitespace-pre-wrap break-all mt-2 max-h-32 overflow-auto">{aiOutput.output}</pre>
+            )}
+          </>
+        )}
+      </div>
+
+      {review.status === 'pending' && (
+        <Button size="sm" variant="outline" disabled={deciding} onClick={() => onDecide({ reviewId, action: 'claim' })}>
+          Claim
+        </Button>
+      )}
+
+      {review.status === 'claimed' && !claimedByMe && (
+        <p className="text-xs text-muted-foreground">
+          Claimed by {review.claimed_by} {review.claimed_at && `on ${new Date(review.claimed_at).toLocaleString()}`}
+        </p>
+      )}
+
+      {claimedByMe && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor={`review-status-${reviewId}`} className="text-xs">Verdict</Label>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger id={`review-status-${reviewId}`}>
+                  <SelectValue placeholder="Choose a verdict" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="VERIFIED">VERIFIED</SelectItem>
+                  <SelectItem value="UNVERIFIED">UNVERIFIED</SelectItem>
+                  <SelectItem value="DISPUTED">DISPUTED</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`review-confidence-${reviewId}`} className="text-xs">Confidence</Label>
+              <Select value={confidence} onValueChange={setConfidence}>
+                <SelectTrigger id={`review-confidence-${reviewId}`}>
+                  <SelectValue placeholder="Choose a confidence" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="HIGH">HIGH</SelectItem>
+                  <SelectItem value="MEDIUM">MEDIUM</SelectItem>
+                  <SelectItem value="LOW">LOW</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`review-notes-${reviewId}`} className="text-xs">
+              {overriding ? 'Notes * (why the AI verdict is overridden)' : 'Notes'}
+            </Label>
+            <Textarea
+              id={`review-notes-${reviewId}`}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Sources checked, reasons for the verdict..."
+              className="min-h-20 resize-none"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              disabled={deciding || !status || !confidence || (overriding && !notes.trim())}
+              onClick={() => onDecide({
+                reviewId,
+                action: 'approve',
+                status,
+                confidence,
+                notes: notes.trim() || null,
+                verificationId: review.verification_id
+              })}
+            >
+              {overriding ? 'Override and Approve' : 'Approve'}
+            </Button>
+            <Button size="sm" variant="ghost" disabled={deciding} onClick={() => onDecide({ reviewId, action: 'release' })}>
+              Release
+            </Button>
+          </div>
+        </div>
+      )}
+    </li>
+  )
+}
+
+// Doubtful AI verdicts waiting for an editor to confirm or override them
+export default function ReviewQueuePanel({ signerKeyId, signerPrivateKey }: ReviewQueuePanelProps) {
+  const queryClient = useQueryClient()
+  const { data: open, isLoading } = useReviewQueue('open')
+  const { data: approved } = useReviewQueue('approved')
+
+  const decideMutation = useMutation({
+    mutationFn: async (unsigned: Omit<ReviewDecision, 'signedAt'>) => {
+      if (!signerKeyId.trim() || !signerPrivateKey.trim()) {
+        throw new Error('A signing key is required to review verdicts')
+      }
+      const decision: ReviewDecision = { ...unsigned, signedAt: new Date().toISOString() }
+      let signature: string
+      try {
+        signature = await signReviewDecision(signerPrivateKey.trim(), decision)
+      } catch (signError) {
+        console.error('Signing error:', signError)
+        throw new Error('Could not sign the review with this private key')
+      }
+      localStorage.setItem('veritas_signer_key_id', signerKeyId.trim())
+
+      const { data, error } = await supabase.functions.invoke('review-verdict', {
+        body: { ...decision, signerKeyId: signerKeyId.trim(), signature }
+      })
+
+      if (error) throw new Error(await functionErrorMessage(error, 'Failed to update the review'))
+      return data
+    },
+    onSuccess: (_data, decision) => {
+      queryClient.invalidateQueries({ queryKey: ['reviews'] })
+      if (decision.action === 'approve') {
+        queryClient.invalidateQueries({ queryKey: ['verifications'] })
+        toast.success('Verdict approved')
+      } else {
+        toast.success(decision.action === 'claim' ? 'Review claimed' : 'Review released')
+      }
+    },
+    onError: (error) => {
+      console.error('Review error:', error)
+      toast.error(error.message)
+    }
+  })
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Review Queue
+        </CardTitle>
+        <CardDescription>
+          AI verdicts stay provisional until an editor approves them. Disputed and low-confidence verdicts, and verifications whose model output could not be read, wait here. Claim one, check it, and approve it or override it with notes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">
+            Loading reviews...
+          </div>
+        ) : open && open.length > 0 ? (
+          <ul className="space-y-4">
+            {open.map(review => (
+              <ReviewItem
+                key={review.id}
+                review={review}
+                signerKeyId={signerKeyId.trim()}
+                onDecide={(decision) => decideMutation.mutate(decision)}
+                deciding={decideMutation.isPending}
+              />
+            ))}
+          </ul>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            No verdicts are waiting for review.
+          </div>
+        )}
+
+        {approved && approved.length > 0 && (
+          <div className="mt-8">
+            <p className="text-sm font-medium mb-2">Recently approved</p>
+            <ul className="space-y-2">
+              {approved.map(review => (
+                <li key={review.id} className="p-3 bg-muted rounded-md text-sm">
+                  <p className="italic line-clamp-1">"{review.statement}"</p>
+                  <div className="flex flex-wrap items-center gap-2 mt-1">
+                    {review.decision_status && (
+                      <VerdictBadge status={review.decision_status} confidence={review.decision_confidence} source="human" />
+                    )}
+                    {review.overridden && <Badge variant="secondary">Overrode {review.ai_status ?? 'unparseable output'}</Badge>}
+                    <span className="text-xs text-muted-foreground">
+                      by {review.claimed_by}{review.reviewed_at && ` · ${new Date(review.reviewed_at).toLocaleString()}`}
+                    </span>
+                  </div>
+                  {review.notes && <p className="text-xs text-muted-foreground mt-1">{review.notes}</p>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
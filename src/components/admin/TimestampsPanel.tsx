@@ -0,0 +1,108 @@
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { supabase } from '@/integrations/supabase/client'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useRecentChainTimestamps } from '@/hooks/use-chain-timestamps'
+import { functionErrorMessage } from '@/lib/functions'
+import { downloadTimestampToken } from '@/lib/receipts'
+import { Clock, Download } from 'lucide-react'
+
+export default function TimestampsPanel() {
+  const queryClient = useQueryClient()
+  const { data: recent, isLoading } = useRecentChainTimestamps()
+
+  const timestampMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke('timestamp-chain')
+
+      if (error) throw new Error(await functionErrorMessage(error, 'Failed to timestamp the chain head'))
+      return data
+    },
+    onSuccess: (data) => {
+      if (data.timestamp) {
+        toast.success(data.message)
+        queryClient.invalidateQueries({ queryKey: ['chain-timestamps'] })
+      } else {
+        toast.info(data.message)
+      }
+    },
+    onError: (error) => {
+      console.error('Timestamp error:', error)
+      toast.error(error.message)
+    }
+  })
+
+  const tokenMutation = useMutation({
+    mutationFn: downloadTimestampToken,
+    onError: (error) => {
+      console.error('Token download error:', error)
+      toast.error('Failed to download the timestamp token')
+    }
+  })
+
+  return (
+    <Card className="shadow-lg mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          Trusted Timestamps
+        </CardTitle>
+        <CardDescription>
+          An RFC 3161 timestamp authority countersigns the chain head's hash, proving that block and everything before it existed at that time.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Button
+          className="w-full h-11"
+          onClick={() => timestampMutation.mutate()}
+          disabled={timestampMutation.isPending}
+        >
+          {timestampMutation.isPending ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
+              Requesting Timestamp...
+            </>
+          ) : (
+            <>
+              <Clock className="h-4 w-4 mr-2" />
+              Timestamp Chain Head Now
+            </>
+          )}
+        </Button>
+
+        {isLoading ? (
+          <div className="text-center py-4 text-muted-foreground">
+            Loading timestamps...
+          </div>
+        ) : recent && recent.length > 0 ? (
+          <ul className="mt-6 space-y-2">
+            {recent.map((timestamp) => (
+              <li key={timestamp.id} className="p-3 bg-muted rounded-md text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">Block #{timestamp.block_number}</Badge>
+                    <span className="text-muted-foreground">
+                      {new Date(timestamp.gen_time).toLocaleString()}
+                    </span>
+                  </div>
+                  <Button size="sm" variant="ghost" onClick={() => tokenMutation.mutate(timestamp)}>
+                    <Download className="h-3 w-3" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground break-all mt-1">
+                  {timestamp.tsa_url} · serial {timestamp.serial_number}
+                </p>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="text-center py-4 text-muted-foreground">
+            No timestamps yet.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,17 @@
+import { Badge } from '@/components/ui/badge'
+
+interface BlockTypeBadgeProps {
+  blockType: string
+  className?: string
+}
+
+// Plain statements get no badge; corrections and retractions are called out
+export default function BlockTypeBadge({ blockType, className }: BlockTypeBadgeProps) {
+  if (blockType === 'statement') return null
+
+  return (
+    <Badge variant={blockType === 'retraction' ? 'destructive' : 'secondary'} className={className}>
+      {blockType === 'retraction' ? 'Retraction' : 'Correction'}
+    </Badge>
+  )
+}
@@ -0,0 +1,62 @@
+import VerdictBadge from '@/components/chain/VerdictBadge'
+import ConsensusVotes, { type ConsensusSummary } from '@/components/chain/ConsensusVotes'
+import { cn } from '@/lib/utils'
+import type { Json } from '@/integrations/supabase/types'
+
+// Shape stored by verify-statement (see supabase/functions/_shared/claims.ts)
+export interface ClaimVerdict {
+  claim: string
+  status: string
+  confidence: string
+  evidence: string[]
+  issues: string[]
+  context: string
+  recommendation: string
+  reasoning: string
+  model: string
+  consensus: ConsensusSummary | null
+}
+
+interface ClaimBreakdownProps {
+  claims: ClaimVerdict[] | Json
+  className?: string
+}
+
+// The atomic claims a statement was split into, each with its own verdict
+export default function ClaimBreakdown({ claims, className }: ClaimBreakdownProps) {
+  const verdicts = claims as unknown as ClaimVerdict[]
+
+  return (
+    <div className={cn('mt-2', className)}>
+      <p className="text-xs font-medium">Claims ({verdicts.length}):</p>
+      <ol className="mt-1 space-y-2 list-decimal list-inside">
+        {verdicts.map((verdict, index) => (
+          <li key={index} className="text-xs">
+            <span className="font-medium">{verdict.claim}</span>
+            <div className="ml-4 mt-1 space-y-1">
+              <VerdictBadge status={verdict.status} confidence={verdict.confidence} />
+              {verdict.reasoning && (
+                <p className="text-muted-foreground">{verdict.reasoning}</p>
+              )}
+              {verdict.evidence.length > 0 && (
+                <ul className="text-muted-foreground list-disc list-inside">
+                  {verdict.evidence.map((fact, factIndex) => (
+                    <li key={factIndex}>{fact}</li>
+                  ))}
+                </ul>
+              )}
+              {verdict.issues.length > 0 && (
+                <ul className="text-destructive list-disc list-inside">
+                  {verdict.issues.map((issue, issueIndex) => (
+                    <li key={issueIndex}>{issue}</li>
+                  ))}
+                </ul>
+              )}
+              {verdict.consensus && <ConsensusVotes consensus={verdict.consensus} />}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
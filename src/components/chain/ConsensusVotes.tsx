@@ -0,0 +1,52 @@
+import VerdictBadge from '@/components/chain/VerdictBadge'
+import { cn } from '@/lib/utils'
+import type { Json } from '@/integrations/supabase/types'
+
+// Shape stored by verify-statement (see supabase/functions/_shared/consensus.ts)
+export interface ConsensusSummary {
+  policy: string
+  reached: boolean
+  agreement: number
+  votes: {
+    model: string
+    weight: number
+    status: string | null
+    confidence: string | null
+    reasoning: string | null
+    error: string | null
+  }[]
+}
+
+interface ConsensusVotesProps {
+  consensus: ConsensusSummary | Json
+  className?: string
+}
+
+// Each model's vote and rationale behind a consensus verdict
+export default function ConsensusVotes({ consensus, className }: ConsensusVotesProps) {
+  const summary = consensus as unknown as ConsensusSummary
+
+  return (
+    <div className={cn('mt-2', className)}>
+      <p className="text-xs font-medium">
+        {summary.reached ? 'Consensus' : 'No consensus'} ({summary.policy}, {Math.round(summary.agreement * 100)}% agreement):
+      </p>
+      <ul className="mt-1 space-y-2">
+        {summary.votes.map((vote, index) => (
+          <li key={index} className="text-xs border-l-2 pl-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-mono">{vote.model}</span>
+              {vote.weight !== 1 && <span className="text-muted-foreground">weight {vote.weight}</span>}
+              {vote.status && <VerdictBadge status={vote.status} confidence={vote.confidence} />}
+            </div>
+            {vote.error ? (
+              <p className="text-destructive mt-1">Failed: {vote.error}</p>
+            ) : vote.reasoning && (
+              <p className="text-muted-foreground mt-1">{vote.reasoning}</p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+import { ShieldAlert } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { Json } from '@/integrations/supabase/types'
+import type { InjectionMatch } from '../../../supabase/functions/_shared/untrusted.ts'
+
+interface InjectionFlagsProps {
+  matches: InjectionMatch[] | Json
+  className?: string
+}
+
+const patternLabels: Record<string, string> = {
+  override_instructions: 'tells the model to ignore its instructions',
+  role_change: 'tries to give the model a new role',
+  prompt_reference: 'refers to the model\'s prompt',
+  chat_markup: 'contains chat or prompt markup',
+  verdict_steering: 'asks for a particular verdict',
+  output_format: 'contains verdict output',
+}
+
+// Input that read like instructions to the model when it was verified
+export default function InjectionFlags({ matches, className }: InjectionFlagsProps) {
+  const flags = (matches ?? []) as unknown as InjectionMatch[]
+  if (flags.length === 0) return null
+
+  return (
+    <div className={cn('p-3 rounded-md border border-amber-300 bg-amber-50', className)}>
+      <p className="flex items-center gap-2 text-xs font-medium text-amber-900">
+        <ShieldAlert className="h-4 w-4" />
+        Possible prompt injection — check the verdict was not steered by the input
+      </p>
+      <ul className="mt-1 space-y-1">
+        {flags.map((flag, index) => (
+          <li key={index} className="text-xs text-amber-900">
+            <span className="font-medium">{flag.field.replace(/([A-Z])/g, ' $1').toLowerCase()}</span>
+            {' '}{patternLabels[flag.pattern] ?? flag.pattern}:{' '}
+            <span className="font-mono break-all">"{flag.excerpt}"</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
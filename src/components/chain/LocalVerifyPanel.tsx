@@ -0,0 +1,165 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Cpu, ShieldAlert, ShieldCheck, X } from 'lucide-react'
+import { useLocalVerification } from '@/hooks/use-local-verification'
+import { problemLabels } from '@/lib/chain-audit'
+
+interface LocalVerifyPanelProps {
+  defaultFrom: number
+  defaultTo: number
+}
+
+export default function LocalVerifyPanel({ defaultFrom, defaultTo }: LocalVerifyPanelProps) {
+  // Empty inputs fall back to the defaults, which change once the chain head is known
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const { state, verify, cancel, ready } = useLocalVerification()
+
+  const firstBlockNumber = Number(from) || defaultFrom
+  const lastBlockNumber = Number(to) || defaultTo
+  const validRange = firstBlockNumber >= 1 && lastBlockNumber >= firstBlockNumber
+
+  const progress = state.status === 'running' ? state.progress : null
+
+  return (
+    <Card className="shadow-lg mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Cpu className="h-5 w-5" />
+          Verify Locally
+        </CardTitle>
+        <CardDescription>
+          Download a range of blocks and recompute every hash, link and signature in your browser, without relying on our server's audit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div className="space-y-2">
+            <Label htmlFor="verifyFrom" className="text-sm font-medium">From Block</Label>
+            <Input
+              id="verifyFrom"
+              type="number"
+              min={1}
+              placeholder={String(defaultFrom)}
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="verifyTo" className="text-sm font-medium">To Block</Label>
+            <Input
+              id="verifyTo"
+              type="number"
+              min={1}
+              placeholder={String(defaultTo)}
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {state.status === 'running' ? (
+          <div className="space-y-2">
+            <Progress value={progress ? (progress.done / progress.total) * 100 : 0} />
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">
+                {!progress ? 'Starting...' :
+                  progress.phase === 'fetching' ? `Downloaded ${progress.done} of ${progress.total} blocks` :
+                  `Hashed ${progress.done} of ${progress.total} blocks`}
+              </span>
+              <Button size="sm" variant="outline" onClick={cancel}>
+                <X className="h-3 w-3 mr-1" />
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            className="w-full h-11"
+            onClick={() => verify(firstBlockNumber, lastBlockNumber)}
+            disabled={!ready || !validRange}
+          >
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            Verify Blocks #{firstBlockNumber}–#{lastBlockNumber} Locally
+          </Button>
+        )}
+
+        {state.status === 'error' && (
+          <p className="mt-4 text-sm text-destructive">{state.message}</p>
+        )}
+
+        {state.status === 'done' && (
+          <div className="mt-6 p-4 bg-muted rounded-md space-y-3">
+            <div className="flex items-center gap-2">
+              <Badge variant={state.result.mismatches.length === 0 ? 'default' : 'destructive'}>
+                {state.result.mismatches.length === 0 ? 'INTACT' : 'BROKEN'}
+              </Badge>
+              <span className="text-sm text-muted-foreground">
+                {state.result.checkedBlocks} blocks recomputed in this browser at {state.checkedAt.toLocaleTimeString()}
+              </span>
+            </div>
+
+            {state.result.checkedBlocks < state.lastBlockNumber - state.firstBlockNumber + 1 && (
+              <p className="text-xs text-muted-foreground">
+                The chain currently ends before block #{state.lastBlockNumber}.
+              </p>
+            )}
+
+            {state.result.unverifiableBlocks > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {state.result.unverifiableBlocks} blocks were written without a stored timestamp, so their block hash cannot be recomputed.
+              </p>
+            )}
+
+            {state.result.unsignedBlocks > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {state.result.unsignedBlocks} blocks carry no editor signature.
+              </p>
+            )}
+
+            {state.firstBlockNumber > 1 && (
+              <p className="text-xs text-muted-foreground">
+                Corrections are only checked against blocks inside the range; start at block #1 to check them all.
+              </p>
+            )}
+
+            {state.result.firstBrokenLink && (
+              <div className="text-sm">
+                <p className="font-medium flex items-center gap-1">
+                  <ShieldAlert className="h-4 w-4 text-destructive" />
+                  First broken link at block #{state.result.firstBrokenLink.block_number}
+                </p>
+                <p className="text-xs text-muted-foreground font-mono break-all">
+                  expected previous {state.result.firstBrokenLink.expected_previous_hash}, found {state.result.firstBrokenLink.actual_previous_hash ?? 'null'}
+                </p>
+              </div>
+            )}
+
+            {state.result.mismatches.length > 0 && (
+              <div>
+                <p className="text-sm font-medium">Mismatched Blocks:</p>
+                <ul className="text-xs text-muted-foreground space-y-1 mt-1">
+                  {state.result.mismatches.map((mismatch) => (
+                    <li key={mismatch.id}>
+                      <Link to={`/chain/${mismatch.block_hash}`} className="font-mono text-primary hover:underline">
+                        #{mismatch.block_number} {mismatch.block_hash.slice(0, 16)}…
+                      </Link>
+                      {' — '}
+                      {mismatch.problems.map(problem => problemLabels[problem] ?? problem).join(', ')}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,23 @@
+import { Badge } from '@/components/ui/badge'
+
+interface SignatureBadgeProps {
+  status: string
+  keyId: string | null
+  className?: string
+}
+
+export default function SignatureBadge({ status, keyId, className }: SignatureBadgeProps) {
+  const variant = status === 'valid' ? 'outline' :
+    status === 'unsigned' || status === 'unchecked' ? 'secondary' : 'destructive'
+
+  const label = status === 'valid' ? `Signed by ${keyId}` :
+    status === 'unsigned' ? 'Unsigned' :
+    status === 'unchecked' ? 'Signature not checked' :
+    `Bad signature: ${status.replace(/_/g, ' ')}`
+
+  return (
+    <Badge variant={variant} className={className}>
+      {label}
+    </Badge>
+  )
+}
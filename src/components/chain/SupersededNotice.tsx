@@ -0,0 +1,32 @@
+import { Link } from 'react-router-dom'
+import { Badge } from '@/components/ui/badge'
+import type { BlockResolution } from '@/hooks/use-resolutions'
+
+interface SupersededNoticeProps {
+  resolution: BlockResolution
+  className?: string
+}
+
+// Points readers from an outdated block to the latest version of the statement
+export default function SupersededNotice({ resolution, className }: SupersededNoticeProps) {
+  const retracted = resolution.latest_block_type === 'retraction'
+
+  return (
+    <div className={className}>
+      <Badge variant={retracted ? 'destructive' : 'secondary'}>
+        {retracted ? 'Retracted' : 'Corrected'}
+      </Badge>
+      <Link
+        to={`/chain/${resolution.latest_hash}`}
+        className="ml-2 text-xs text-primary hover:underline"
+      >
+        {retracted ? 'See retraction' : 'See latest version'} in block #{resolution.latest_block_number}
+      </Link>
+      {!retracted && resolution.latest_statement && (
+        <p className="text-xs text-muted-foreground italic mt-1">
+          Now reads: "{resolution.latest_statement}"
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+
+interface VerdictBadgeProps {
+  status: string
+  confidence?: string | null
+  // Who reached the verdict; an 'ai' verdict is marked provisional
+  source?: string | null
+  className?: string
+}
+
+export default function VerdictBadge({ status, confidence, source, className }: VerdictBadgeProps) {
+  return (
+    <span className={cn('inline-flex items-center gap-1', className)}>
+      <Badge
+        variant={
+          status === 'VERIFIED' ? 'default' :
+          status === 'DISPUTED' ? 'destructive' : 'secondary'
+        }
+      >
+        {status}
+      </Badge>
+      {confidence && (
+        <Badge variant="outline">
+          {confidence} confidence
+        </Badge>
+      )}
+      {source && (
+        <Badge variant="outline" className={source === 'human' ? 'border-primary text-primary' : 'border-dashed text-muted-foreground'}>
+          {source === 'human' ? 'Reviewed' : 'AI · provisional'}
+        </Badge>
+      )}
+    </span>
+  )
+}
@@ -0,0 +1,98 @@
+import VerdictBadge from '@/components/chain/VerdictBadge'
+import ConsensusVotes from '@/components/chain/ConsensusVotes'
+import ClaimBreakdown from '@/components/chain/ClaimBreakdown'
+import InjectionFlags from '@/components/chain/InjectionFlags'
+import { useVerificationHistory, type Verification } from '@/hooks/use-verifications'
+import { cn } from '@/lib/utils'
+
+interface VerificationHistoryProps {
+  blockId: string
+  // Only status, reasoning and issues; used in lists of statements
+  compact?: boolean
+  className?: string
+}
+
+function FactList({ label, items }: { label: string, items: string[] }) {
+  if (items.length === 0) return null
+
+  return (
+    <div className="mt-2">
+      <p className="text-xs font-medium">{label}:</p>
+      <ul className="text-xs text-muted-foreground list-disc list-inside">
+        {items.map((item, index) => (
+          <li key={index}>{item}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+function VerdictEntry({ verification, compact }: { verification: Verification, compact: boolean }) {
+  return (
+    <li className="p-3 bg-muted rounded-md">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+        <VerdictBadge status={verification.status} confidence={verification.confidence} source={verification.source} />
+        <span className="text-xs text-muted-foreground">
+          {new Date(verification.created_at).toLocaleString()}
+          {verification.model && ` · ${verification.model}`}
+          {verification.prompt_version && ` · prompt v${verification.prompt_version}`}
+          {verification.reviewer_key_id && ` · reviewed with key ${verification.reviewer_key_id}`}
+        </span>
+      </div>
+
+      {verification.injection_flags && <InjectionFlags matches={verification.injection_flags} className="mt-2" />}
+
+      {verification.reasoning && (
+        <p className="text-xs text-muted-foreground mt-2">{verification.reasoning}</p>
+      )}
+
+      {verification.consensus && <ConsensusVotes consensus={verification.consensus} />}
+
+      {verification.claims ? (
+        <ClaimBreakdown claims={verification.claims} />
+      ) : (
+        <>
+          {!compact && <FactList label="Key Facts" items={verification.key_facts} />}
+          <FactList label="Issues Found" items={verification.issues} />
+        </>
+      )}
+
+      {!compact && verification.context && (
+        <div className="mt-2">
+          <p className="text-xs font-medium">Additional Context:</p>
+          <p className="text-xs text-muted-foreground">{verification.context}</p>
+        </div>
+      )}
+
+      {!compact && verification.recommendation && (
+        <div className="mt-2">
+          <p className="text-xs font-medium">Recommendation:</p>
+          <p className="text-xs text-muted-foreground">{verification.recommendation}</p>
+        </div>
+      )}
+    </li>
+  )
+}
+
+// Every verdict recorded for a block, newest first
+export default function VerificationHistory({ blockId, compact = false, className }: VerificationHistoryProps) {
+  const { data: history, isLoading } = useVerificationHistory(blockId)
+
+  if (isLoading) {
+    return <p className={cn('text-sm text-muted-foreground', className)}>Loading verifications...</p>
+  }
+
+  if (!history || history.length === 0) {
+    return compact ? null : (
+      <p className={cn('text-sm text-muted-foreground', className)}>This statement has not been verified yet.</p>
+    )
+  }
+
+  return (
+    <ol className={cn('space-y-2', className)}>
+      {history.map((verification) => (
+        <VerdictEntry key={verification.id} verification={verification} compact={compact} />
+      ))}
+    </ol>
+  )
+}
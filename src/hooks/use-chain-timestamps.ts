@@ -0,0 +1,48 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '@/integrations/supabase/client'
+import type { Tables } from '@/integrations/supabase/types'
+
+// What the pages show of a token; the DER token itself is only fetched to download it
+const TIMESTAMP_COLUMNS = 'id, block_number, block_hash, gen_time, tsa_url, serial_number'
+
+export type ChainTimestamp = Pick<
+  Tables<'chain_timestamps'>,
+  'id' | 'block_number' | 'block_hash' | 'gen_time' | 'tsa_url' | 'serial_number'
+>
+
+// The latest tokens, newest first
+export function useRecentChainTimestamps(limit = 5) {
+  return useQuery({
+    queryKey: ['chain-timestamps', 'recent', limit],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('chain_timestamps')
+        .select(TIMESTAMP_COLUMNS)
+        .order('block_number', { ascending: false })
+        .limit(limit)
+
+      if (error) throw error
+      return data as ChainTimestamp[]
+    }
+  })
+}
+
+// The earliest token over this block or a later head; later heads link back to it
+export function useAnchoringTimestamp(blockNumber?: number | null) {
+  return useQuery({
+    queryKey: ['chain-timestamps', 'anchor', blockNumber],
+    enabled: blockNumber != null,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('chain_timestamps')
+        .select(TIMESTAMP_COLUMNS)
+        .gte('block_number', blockNumber!)
+        .order('block_number', { ascending: true })
+        .limit(1)
+        .maybeSingle()
+
+      if (error) throw error
+      return data as ChainTimestamp | null
+    }
+  })
+}
@@ -0,0 +1,42 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '@/integrations/supabase/client'
+import type { Tables } from '@/integrations/supabase/types'
+
+export type Checkpoint = Pick<
+  Tables<'veritas_checkpoints'>,
+  'id' | 'checkpoint_number' | 'first_block_number' | 'last_block_number' | 'merkle_root'
+>
+
+// The latest checkpoints, newest first
+export function useRecentCheckpoints(limit = 5) {
+  return useQuery({
+    queryKey: ['checkpoints', 'recent', limit],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('veritas_checkpoints')
+        .select('id, checkpoint_number, first_block_number, last_block_number, merkle_root')
+        .order('checkpoint_number', { ascending: false })
+        .limit(limit)
+
+      if (error) throw error
+      return data as Checkpoint[]
+    }
+  })
+}
+
+// Maps each block number to the checkpoint sealing it; blocks not yet
+// checkpointed are missing
+export function useCoveringCheckpoints(blockNumbers: (number | null | undefined)[] | undefined) {
+  const numbers = [...new Set((blockNumbers ?? []).filter((number): number is number => number != null))].sort((a, b) => a - b)
+
+  return useQuery({
+    queryKey: ['checkpoints', 'covering', numbers],
+    enabled: numbers.length > 0,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('find_covering_checkpoints', { p_block_numbers: numbers })
+
+      if (error) throw error
+      return Object.fromEntries(data.map(({ block_number, ...checkpoint }) => [block_number, checkpoint])) as Record<number, Checkpoint>
+    }
+  })
+}
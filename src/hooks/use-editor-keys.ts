@@ -0,0 +1,45 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '@/integrations/supabase/client'
+import {
+  checkBlockSignature,
+  type EditorKey,
+  type SignatureStatus,
+  type SignedBlock
+} from '../../supabase/functions/_shared/signatures.ts'
+
+export function useEditorKeys() {
+  return useQuery({
+    queryKey: ['editor-keys'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('editor_keys')
+        .select('key_id, editor_name, public_key, valid_from, valid_until, revoked_at')
+
+      if (error) throw error
+      return new Map<string, EditorKey>(data.map(key => [key.key_id, key]))
+    }
+  })
+}
+
+// Signature status per block id, checked in the browser against the registry.
+// 'unchecked' means this browser cannot verify Ed25519 signatures.
+export function useSignatureStatuses(blocks: Array<SignedBlock & { id: string }> | undefined) {
+  const { data: keys } = useEditorKeys()
+
+  return useQuery({
+    queryKey: ['signature-statuses', blocks?.map(block => block.id), keys?.size],
+    enabled: !!blocks && !!keys,
+    queryFn: async () => {
+      const statuses: Record<string, SignatureStatus | 'unchecked'> = {}
+      for (const block of blocks) {
+        try {
+          statuses[block.id] = await checkBlockSignature(block, keys)
+        } catch (error) {
+          console.warn('Could not check signature:', error)
+          statuses[block.id] = 'unchecked'
+        }
+      }
+      return statuses
+    }
+  })
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useEditorKeys } from '@/hooks/use-editor-keys'
+import { auditRange, fetchAuditRange } from '@/lib/chain-audit'
+import type { ChainAuditResult } from '../../supabase/functions/_shared/chain-audit.ts'
+
+export interface LocalVerificationProgress {
+  phase: 'fetching' | 'hashing'
+  done: number
+  total: number
+}
+
+export type LocalVerificationState =
+  | { status: 'idle' }
+  | { status: 'running', progress: LocalVerificationProgress | null }
+  | { status: 'done', result: ChainAuditResult, firstBlockNumber: number, lastBlockNumber: number, checkedAt: Date }
+  | { status: 'error', message: string }
+
+// Fetches a block range and recomputes it in this browser, independent of verify-chain
+export function useLocalVerification() {
+  const { data: editorKeys } = useEditorKeys()
+  const [state, setState] = useState<LocalVerificationState>({ status: 'idle' })
+  const controllerRef = useRef<AbortController | null>(null)
+
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const verify = useCallback(async (firstBlockNumber: number, lastBlockNumber: number) => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+
+    const onProgress = (phase: LocalVerificationProgress['phase'], done: number, total: number) => {
+      if (!controller.signal.aborted) {
+        setState({ status: 'running', progress: { phase, done, total } })
+      }
+    }
+
+    setState({ status: 'running', progress: null })
+    try {
+      const range = await fetchAuditRange(firstBlockNumber, lastBlockNumber, onProgress)
+      controller.signal.throwIfAborted()
+      const result = await auditRange(range, editorKeys ?? new Map(), onProgress, controller.signal)
+      setState({ status: 'done', result, firstBlockNumber, lastBlockNumber, checkedAt: new Date() })
+    } catch (error) {
+      if (controller.signal.aborted) return
+      console.error('Local verification error:', error)
+      setState({ status: 'error', message: error instanceof Error ? error.message : 'Verification failed' })
+    }
+  }, [editorKeys])
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+    setState({ status: 'idle' })
+  }, [])
+
+  return { state, verify, cancel, ready: !!editorKeys }
+}
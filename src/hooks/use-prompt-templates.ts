@@ -0,0 +1,23 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '@/integrations/supabase/client'
+import type { Tables } from '@/integrations/supabase/types'
+import type { PromptUseCase } from '../../supabase/functions/_shared/prompt-templates.ts'
+
+export type PromptTemplate = Tables<'prompt_templates'>
+
+// Every version of a use case's prompt, newest first
+export function usePromptTemplates(useCase: PromptUseCase) {
+  return useQuery({
+    queryKey: ['prompt-templates', useCase],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('prompt_templates')
+        .select('*')
+        .eq('use_case', useCase)
+        .order('version', { ascending: false })
+
+      if (error) throw error
+      return data
+    }
+  })
+}
@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '@/integrations/supabase/client'
+import type { Tables } from '@/integrations/supabase/types'
+
+export type BlockResolution = Tables<'veritas_block_resolutions'>
+
+// Resolves each block hash to the newest correction or retraction of its statement
+export function useBlockResolutions(blockHashes: string[] | undefined) {
+  const hashes = [...new Set(blockHashes ?? [])].sort()
+
+  return useQuery({
+    queryKey: ['block-resolutions', hashes],
+    enabled: hashes.length > 0,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('veritas_block_resolutions')
+        .select('*')
+        .in('block_hash', hashes)
+
+      if (error) throw error
+      return Object.fromEntries(data.map(resolution => [resolution.block_hash, resolution])) as Record<string, BlockResolution>
+    }
+  })
+}
+
+// Null while the block is still the latest version of its statement
+export function supersededBy(resolution: BlockResolution | undefined, blockHash: string) {
+  if (!resolution || !resolution.latest_hash || resolution.latest_hash === blockHash) return null
+  return resolution
+}
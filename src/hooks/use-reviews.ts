@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '@/integrations/supabase/client'
+import type { Tables } from '@/integrations/supabase/types'
+
+export type QueuedReview = Tables<'verification_review_queue'>
+
+// Open reviews oldest first, so the longest-waiting verdict is handled first;
+// approved ones newest first
+export function useReviewQueue(state: 'open' | 'approved') {
+  return useQuery({
+    queryKey: ['reviews', state],
+    queryFn: async () => {
+      const query = supabase.from('verification_review_queue').select('*')
+      const { data, error } = state === 'open'
+        ? await query.neq('status', 'approved').order('created_at', { ascending: true })
+        : await query.eq('status', 'approved').order('reviewed_at', { ascending: false }).limit(20)
+
+      if (error) throw error
+      return data
+    }
+  })
+}
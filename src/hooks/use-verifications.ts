@@ -0,0 +1,43 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '@/integrations/supabase/client'
+import type { Tables } from '@/integrations/supabase/types'
+
+export type Verification = Tables<'verifications'>
+export type LatestVerification = Tables<'latest_verifications'>
+
+// Every verdict recorded for a block, newest first
+export function useVerificationHistory(blockId: string | undefined) {
+  return useQuery({
+    queryKey: ['verifications', blockId],
+    enabled: !!blockId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('verifications')
+        .select('*')
+        .eq('block_id', blockId)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return data
+    }
+  })
+}
+
+// The most recent verdict per block, keyed by block id
+export function useLatestVerifications(blockIds: string[] | undefined) {
+  const ids = [...new Set(blockIds ?? [])].sort()
+
+  return useQuery({
+    queryKey: ['verifications', 'latest', ids],
+    enabled: ids.length > 0,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('latest_verifications')
+        .select('*')
+        .in('block_id', ids)
+
+      if (error) throw error
+      return Object.fromEntries(data.map(verification => [verification.block_id, verification])) as Record<string, LatestVerification>
+    }
+  })
+}
@@ -12,42 +12,159 @@ export type Database = {
       veritas_chain: {
         Row: {
           block_hash: string
+          block_number: number
+          block_timestamp: string | null
+          block_type: string
           created_at: string
+          embedding: string | null
+          embedding_model: string | null
+          hash_version: number
           id: string
           previous_hash: string | null
+          signature: string | null
+          signed_at: string | null
+          signer_key_id: string | null
           source_url: string | null
           speaker: string
           statement: string
           statement_date: string | null
           statement_hash: string
+          supersedes_hash: string | null
           updated_at: string
         }
         Insert: {
           block_hash: string
+          block_number: number
+          block_timestamp?: string | null
+          block_type?: string
           created_at?: string
+          embedding?: string | null
+          embedding_model?: string | null
+          hash_version: number
           id?: string
           previous_hash?: string | null
+          signature?: string | null
+          signed_at?: string | null
+          signer_key_id?: string | null
           source_url?: string | null
           speaker: string
           statement: string
           statement_date?: string | null
           statement_hash: string
+          supersedes_hash?: string | null
           updated_at?: string
         }
         Update: {
           block_hash?: string
+          block_number?: number
+          block_timestamp?: string | null
+          block_type?: string
           created_at?: string
+          embedding?: string | null
+          embedding_model?: string | null
+          hash_version?: number
           id?: string
           previous_hash?: string | null
+          signature?: string | null
+          signed_at?: string | null
+          signer_key_id?: string | null
           source_url?: string | null
           speaker?: string
           statement?: string
           statement_date?: string | null
           statement_hash?: string
+          supersedes_hash?: string | null
           updated_at?: string
         }
         Relationships: []
       }
+      veritas_checkpoints: {
+        Row: {
+          block_count: number
+          checkpoint_number: number
+          created_at: string
+          first_block_number: number
+          id: string
+          last_block_number: number
+          merkle_root: string
+        }
+        Insert: {
+          block_count: number
+          checkpoint_number: number
+          created_at?: string
+          first_block_number: number
+          id?: string
+          last_block_number: number
+          merkle_root: string
+        }
+        Update: {
+          block_count?: number
+          checkpoint_number?: number
+          created_at?: string
+          first_block_number?: number
+          id?: string
+          last_block_number?: number
+          merkle_root?: string
+        }
+        Relationships: []
+      }
+      editor_keys: {
+        Row: {
+          created_at: string
+          editor_name: string
+          id: string
+          key_id: string
+          public_key: string
+          revocation_reason: string | null
+          revoked_at: string | null
+          valid_from: string
+          valid_until: string | null
+        }
+        Insert: {
+          created_at?: string
+          editor_name: string
+          id?: string
+          key_id: string
+          public_key: string
+          revocation_reason?: string | null
+          revoked_at?: string | null
+          valid_from?: string
+          valid_until?: string | null
+        }
+        Update: {
+          created_at?: string
+          editor_name?: string
+          id?: string
+          key_id?: string
+          public_key?: string
+          revocation_reason?: string | null
+          revoked_at?: string | null
+          valid_from?: string
+          valid_until?: string | null
+        }
+        Relationships: []
+      }
+      editor_signature_uses: {
+        Row: {
+          purpose: string
+          signature: string
+          signer_key_id: string
+          used_at: string
+        }
+        Insert: {
+          purpose: string
+          signature: string
+          signer_key_id: string
+          used_at?: string
+        }
+        Update: {
+          purpose?: string
+          signature?: string
+          signer_key_id?: string
+          used_at?: string
+        }
+        Relationships: []
+      }
       chat_history: {
         Row: {
           id: string
@@ -56,6 +173,9 @@ export type Database = {
           content: string
           sources: any | null
           confidence: string | null
+          citations: Json | null
+          prompt_template_id: string | null
+          prompt_version: number | null
           created_at: string
         }
         Insert: {
@@ -65,6 +185,9 @@ export type Database = {
           content: string
           sources?: any | null
           confidence?: string | null
+          citations?: Json | null
+          prompt_template_id?: string | null
+          prompt_version?: number | null
           created_at?: string
         }
         Update: {
@@ -74,16 +197,418 @@ export type Database = {
           content?: string
           sources?: any | null
           confidence?: string | null
+          citations?: Json | null
+          prompt_template_id?: string | null
+          prompt_version?: number | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      chain_timestamps: {
+        Row: {
+          block_hash: string
+          block_number: number
+          created_at: string
+          gen_time: string
+          id: string
+          message_imprint: string
+          nonce: string
+          policy_oid: string
+          serial_number: string
+          token: string
+          tsa_url: string
+        }
+        Insert: {
+          block_hash: string
+          block_number: number
+          created_at?: string
+          gen_time: string
+          id?: string
+          message_imprint: string
+          nonce: string
+          policy_oid: string
+          serial_number: string
+          token: string
+          tsa_url: string
+        }
+        Update: {
+          block_hash?: string
+          block_number?: number
+          created_at?: string
+          gen_time?: string
+          id?: string
+          message_imprint?: string
+          nonce?: string
+          policy_oid?: string
+          serial_number?: string
+          token?: string
+          tsa_url?: string
+        }
+        Relationships: []
+      }
+      verifications: {
+        Row: {
+          block_id: string
+          claims: Json | null
+          confidence: string | null
+          consensus: Json | null
+          context: string | null
+          created_at: string
+          id: string
+          injection_flags: Json | null
+          issues: string[]
+          key_facts: string[]
+          model: string | null
+          prompt_template_id: string | null
+          prompt_version: number | null
+          reasoning: string | null
+          recommendation: string | null
+          reviewer_key_id: string | null
+          source: string
+          status: string
+        }
+        Insert: {
+          block_id: string
+          claims?: Json | null
+          confidence?: string | null
+          consensus?: Json | null
+          context?: string | null
           created_at?: string
+          id?: string
+          injection_flags?: Json | null
+          issues?: string[]
+          key_facts?: string[]
+          model?: string | null
+          prompt_template_id?: string | null
+          prompt_version?: number | null
+          reasoning?: string | null
+          recommendation?: string | null
+          reviewer_key_id?: string | null
+          source?: string
+          status: string
+        }
+        Update: {
+          block_id?: string
+          claims?: Json | null
+          confidence?: string | null
+          consensus?: Json | null
+          context?: string | null
+          created_at?: string
+          id?: string
+          injection_flags?: Json | null
+          issues?: string[]
+          key_facts?: string[]
+          model?: string | null
+          prompt_template_id?: string | null
+          prompt_version?: number | null
+          reasoning?: string | null
+          recommendation?: string | null
+          reviewer_key_id?: string | null
+          source?: string
+          status?: string
+        }
+        Relationships: []
+      }
+      verification_reviews: {
+        Row: {
+          ai_output: Json | null
+          block_id: string
+          claimed_at: string | null
+          claimed_by: string | null
+          created_at: string
+          decision_confidence: string | null
+          decision_status: string | null
+          decision_verification_id: string | null
+          id: string
+          notes: string | null
+          overridden: boolean | null
+          reasons: string[]
+          reviewed_at: string | null
+          status: string
+          updated_at: string
+          verification_id: string | null
+        }
+        Insert: {
+          ai_output?: Json | null
+          block_id: string
+          claimed_at?: string | null
+          claimed_by?: string | null
+          created_at?: string
+          decision_confidence?: string | null
+          decision_status?: string | null
+          decision_verification_id?: string | null
+          id?: string
+          notes?: string | null
+          overridden?: boolean | null
+          reasons: string[]
+          reviewed_at?: string | null
+          status?: string
+          updated_at?: string
+          verification_id?: string | null
+        }
+        Update: {
+          ai_output?: Json | null
+          block_id?: string
+          claimed_at?: string | null
+          claimed_by?: string | null
+          created_at?: string
+          decision_confidence?: string | null
+          decision_status?: string | null
+          decision_verification_id?: string | null
+          id?: string
+          notes?: string | null
+          overridden?: boolean | null
+          reasons?: string[]
+          reviewed_at?: string | null
+          status?: string
+          updated_at?: string
+          verification_id?: string | null
+        }
+        Relationships: []
+      }
+      prompt_templates: {
+        Row: {
+          activated_at: string | null
+          activated_by: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          notes: string | null
+          system_prompt: string
+          template: string
+          use_case: string
+          variables: string[]
+          version: number
+        }
+        Insert: {
+          activated_at?: string | null
+          activated_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          notes?: string | null
+          system_prompt: string
+          template: string
+          use_case: string
+          variables?: string[]
+          version: number
+        }
+        Update: {
+          activated_at?: string | null
+          activated_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          notes?: string | null
+          system_prompt?: string
+          template?: string
+          use_case?: string
+          variables?: string[]
+          version?: number
         }
         Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      veritas_block_resolutions: {
+        Row: {
+          block_hash: string | null
+          latest_block_number: number | null
+          latest_block_type: string | null
+          latest_hash: string | null
+          latest_speaker: string | null
+          latest_statement: string | null
+          original_hash: string | null
+        }
+        Relationships: []
+      }
+      veritas_chain_forks: {
+        Row: {
+          child_block_hashes: string[] | null
+          child_block_numbers: number[] | null
+          child_count: number | null
+          previous_hash: string | null
+        }
+        Relationships: []
+      }
+      latest_verifications: {
+        Row: {
+          block_id: string | null
+          claims: Json | null
+          confidence: string | null
+          consensus: Json | null
+          context: string | null
+          created_at: string | null
+          id: string | null
+          injection_flags: Json | null
+          issues: string[] | null
+          key_facts: string[] | null
+          model: string | null
+          prompt_template_id: string | null
+          prompt_version: number | null
+          reasoning: string | null
+          recommendation: string | null
+          reviewer_key_id: string | null
+          source: string | null
+          status: string | null
+        }
+        Relationships: []
+      }
+      verification_review_queue: {
+        Row: {
+          ai_claims: Json | null
+          ai_confidence: string | null
+          ai_injection_flags: Json | null
+          ai_issues: string[] | null
+          ai_key_facts: string[] | null
+          ai_model: string | null
+          ai_output: Json | null
+          ai_reasoning: string | null
+          ai_status: string | null
+          block_hash: string | null
+          block_id: string | null
+          block_number: number | null
+          claimed_at: string | null
+          claimed_by: string | null
+          created_at: string | null
+          decision_confidence: string | null
+          decision_status: string | null
+          decision_verification_id: string | null
+          id: string | null
+          notes: string | null
+          overridden: boolean | null
+          reasons: string[] | null
+          reviewed_at: string | null
+          source_url: string | null
+          speaker: string | null
+          statement: string | null
+          statement_date: string | null
+          status: string | null
+          updated_at: string | null
+          verification_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      activate_prompt_template: {
+        Args: { p_template_id: string; p_activated_by: string }
+        Returns: Database["public"]["Tables"]["prompt_templates"]["Row"]
+      }
+      append_veritas_block: {
+        Args: { p_block: Json }
+        Returns: Database["public"]["Tables"]["veritas_chain"]["Row"]
+      }
+      approve_verification_review: {
+        Args: {
+          p_review_id: string
+          p_reviewer_key_id: string
+          p_status: string
+          p_confidence: string
+          p_notes?: string | null
+          p_verification_id?: string | null
+        }
+        Returns: Database["public"]["Tables"]["verification_reviews"]["Row"]
+      }
+      enqueue_verification_review: {
+        Args: {
+          p_block_id: string
+          p_verification_id: string | null
+          p_reasons: string[]
+          p_ai_output?: Json | null
+        }
+        Returns: Database["public"]["Tables"]["verification_reviews"]["Row"]
+      }
+      find_covering_checkpoints: {
+        Args: { p_block_numbers: number[] }
+        Returns: {
+          block_number: number
+          id: string
+          checkpoint_number: number
+          first_block_number: number
+          last_block_number: number
+          merkle_root: string
+        }[]
+      }
+      find_duplicate_statements: {
+        Args: {
+          p_statement: string
+          p_speaker: string
+          p_embedding?: string | null
+          p_embedding_model?: string | null
+          p_limit?: number
+          p_min_text_similarity?: number
+          p_min_semantic_similarity?: number
+        }
+        Returns: {
+          id: string
+          block_hash: string
+          block_number: number
+          block_type: string
+          statement: string
+          speaker: string
+          source_url: string | null
+          statement_date: string | null
+          match_type: string
+          same_speaker: boolean
+          text_similarity: number
+          semantic_similarity: number | null
+        }[]
+      }
+      hybrid_search_veritas_statements: {
+        Args: {
+          p_query: string
+          p_embedding?: string | null
+          p_embedding_model?: string | null
+          p_limit?: number
+          p_keyword_weight?: number
+          p_semantic_weight?: number
+          p_rrf_k?: number
+          p_min_similarity?: number
+        }
+        Returns: {
+          id: string
+          block_hash: string
+          block_number: number
+          block_type: string
+          statement: string
+          speaker: string
+          source_url: string | null
+          statement_date: string | null
+          original_hash: string
+          verification_status: string | null
+          verification_confidence: string | null
+          verification_source: string | null
+          keyword_rank: number | null
+          semantic_rank: number | null
+          similarity: number | null
+          score: number
+        }[]
+      }
+      normalize_statement_text: {
+        Args: { p_text: string }
+        Returns: string
+      }
+      search_veritas_statements: {
+        Args: { p_query: string; p_limit?: number }
+        Returns: {
+          id: string
+          block_hash: string
+          block_number: number
+          block_type: string
+          statement: string
+          speaker: string
+          source_url: string | null
+          statement_date: string | null
+          original_hash: string
+          verification_status: string | null
+          verification_confidence: string | null
+          rank: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
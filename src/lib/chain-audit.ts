@@ -0,0 +1,139 @@
+import { supabase } from '@/integrations/supabase/client'
+import type { EditorKey } from '../../supabase/functions/_shared/signatures.ts'
+import { GENESIS_PREVIOUS_HASH } from '../../supabase/functions/_shared/block.ts'
+import {
+  AUDIT_COLUMNS,
+  type AuditRow,
+  auditBlocks,
+  type ChainAuditResult
+} from '../../supabase/functions/_shared/chain-audit.ts'
+
+const PAGE_SIZE = 1000
+
+// Ranges larger than this are hashed in a web worker to keep the page responsive
+const WORKER_THRESHOLD = 200
+
+export const problemLabels: Record<string, string> = {
+  statement_hash_mismatch: 'Statement hash does not match content',
+  block_hash_mismatch: 'Block hash does not match its fields',
+  unsupported_hash_version: 'Unknown hash version',
+  previous_hash_mismatch: 'Previous hash does not match prior block',
+  block_number_gap: 'Block number out of sequence',
+  supersedes_unknown_block: 'Supersedes a block that is not earlier in the chain',
+  supersedes_retraction: 'Supersedes a retraction',
+  signature_invalid: 'Signature does not verify',
+  signature_unknown_key: 'Signed with an unregistered key',
+  signature_key_not_yet_valid: 'Signed before the key became valid',
+  signature_key_expired: 'Signed after the key expired',
+  signature_key_revoked: 'Signed after the key was revoked',
+}
+
+export interface AuditRange {
+  rows: AuditRow[]
+  previousHash: string
+  firstBlockNumber: number
+}
+
+export type AuditProgress = (phase: 'fetching' | 'hashing', done: number, total: number) => void
+
+// Fetches blocks firstBlockNumber..lastBlockNumber plus the hash they must link to
+export async function fetchAuditRange(
+  firstBlockNumber: number,
+  lastBlockNumber: number,
+  onProgress?: AuditProgress
+): Promise<AuditRange> {
+  let previousHash = GENESIS_PREVIOUS_HASH
+  if (firstBlockNumber > 1) {
+    const { data, error } = await supabase
+      .from('veritas_chain')
+      .select('block_hash')
+      .eq('block_number', firstBlockNumber - 1)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) throw new Error(`Block #${firstBlockNumber - 1} does not exist`)
+    previousHash = data.block_hash
+  }
+
+  const total = lastBlockNumber - firstBlockNumber + 1
+  const rows: AuditRow[] = []
+  for (let from = firstBlockNumber; from <= lastBlockNumber; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('veritas_chain')
+      .select(AUDIT_COLUMNS)
+      .gte('block_number', from)
+      .lte('block_number', Math.min(from + PAGE_SIZE - 1, lastBlockNumber))
+      .order('block_number', { ascending: true })
+
+    if (error) throw error
+    rows.push(...(data as unknown as AuditRow[]))
+    onProgress?.('fetching', Math.min(rows.length, total), total)
+  }
+
+  return { rows, previousHash, firstBlockNumber }
+}
+
+export type AuditWorkerRequest = AuditRange & {
+  editorKeys: Map<string, EditorKey>
+}
+
+export type AuditWorkerMessage =
+  | { type: 'progress', checked: number, total: number }
+  | { type: 'result', result: ChainAuditResult }
+  | { type: 'error', message: string }
+
+function auditInWorker(request: AuditWorkerRequest, onProgress: AuditProgress | undefined, signal?: AbortSignal) {
+  return new Promise<ChainAuditResult>((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/chain-audit.worker.ts', import.meta.url), { type: 'module' })
+
+    const abort = () => {
+      worker.terminate()
+      reject(new DOMException('Verification cancelled', 'AbortError'))
+    }
+    signal?.addEventListener('abort', abort, { once: true })
+
+    worker.onmessage = (event: MessageEvent<AuditWorkerMessage>) => {
+      const message = event.data
+      if (message.type === 'progress') {
+        onProgress?.('hashing', message.checked, message.total)
+        return
+      }
+      signal?.removeEventListener('abort', abort)
+      worker.terminate()
+      if (message.type === 'result') {
+        resolve(message.result)
+      } else {
+        reject(new Error(message.message))
+      }
+    }
+    worker.onerror = (event) => {
+      signal?.removeEventListener('abort', abort)
+      worker.terminate()
+      reject(new Error(event.message || 'Verification worker failed'))
+    }
+
+    worker.postMessage(request)
+  })
+}
+
+// Recomputes every hash, link and signature in the range with WebCrypto
+export function auditRange(
+  range: AuditRange,
+  editorKeys: Map<string, EditorKey>,
+  onProgress?: AuditProgress,
+  signal?: AbortSignal
+): Promise<ChainAuditResult> {
+  if (range.rows.length > WORKER_THRESHOLD && typeof Worker !== 'undefined') {
+    return auditInWorker({ ...range, editorKeys }, onProgress, signal)
+  }
+
+  return auditBlocks(range.rows, {
+    editorKeys,
+    previousHash: range.previousHash,
+    firstBlockNumber: range.firstBlockNumber,
+    onProgress: (checked, total) => {
+      signal?.throwIfAborted()
+      onProgress?.('hashing', checked, total)
+    }
+  })
+}
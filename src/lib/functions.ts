@@ -0,0 +1,21 @@
+import { FunctionsHttpError } from '@supabase/supabase-js'
+
+// The JSON body of a failed edge function call, if it has one. The
+// response can only be read once, so read it here rather than twice.
+export async function functionErrorBody(error: unknown): Promise<Record<string, unknown> | null> {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await error.context.json()
+      if (body && typeof body === 'object') return body
+    } catch {
+      // Not a JSON body
+    }
+  }
+  return null
+}
+
+// Edge functions report failures as { error: string } JSON bodies
+export async function functionErrorMessage(error: unknown, fallback: string): Promise<string> {
+  const body = await functionErrorBody(error)
+  return typeof body?.error === 'string' ? body.error : fallback
+}
@@ -0,0 +1,39 @@
+import { supabase } from '@/integrations/supabase/client'
+import type { Tables } from '@/integrations/supabase/types'
+
+// Fetches the proof receipt for a block and saves it as a JSON file
+export async function downloadProofReceipt(blockHash: string) {
+  const { data, error } = await supabase.functions.invoke('get-proof-receipt', {
+    body: { blockHash }
+  })
+
+  if (error) throw error
+
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `veritas-receipt-${data.block.block_number}-${blockHash.slice(0, 12)}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+// Fetches a stored RFC 3161 token and saves it as DER, for `openssl ts -verify -token_in`
+export async function downloadTimestampToken(timestamp: Pick<Tables<'chain_timestamps'>, 'id' | 'block_number'>) {
+  const { data, error } = await supabase
+    .from('chain_timestamps')
+    .select('token')
+    .eq('id', timestamp.id)
+    .single()
+
+  if (error) throw error
+
+  const bytes = Uint8Array.from(atob(data.token), char => char.charCodeAt(0))
+  const blob = new Blob([bytes], { type: 'application/octet-stream' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `veritas-timestamp-${timestamp.block_number}.tst`
+  link.click()
+  URL.revokeObjectURL(url)
+}
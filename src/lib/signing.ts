@@ -0,0 +1,59 @@
+import { computeStatementHash, type BlockContentInput } from '../../supabase/functions/_shared/block.ts'
+import {
+  checkpointSignaturePayload,
+  fromBase64,
+  type PromptTemplateChange,
+  promptTemplateSignaturePayload,
+  type ReviewDecision,
+  reviewSignaturePayload,
+  signaturePayload,
+  toBase64,
+  type VerificationRequest,
+  verificationRequestSignaturePayload
+} from '../../supabase/functions/_shared/signatures.ts'
+
+export interface EditorKeyPair {
+  publicKey: string
+  privateKey: string
+}
+
+// Raw public key for the editor_keys registry, PKCS#8 private key for the editor
+export async function generateEditorKeyPair(): Promise<EditorKeyPair> {
+  const keyPair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair
+  return {
+    publicKey: toBase64(await crypto.subtle.exportKey('raw', keyPair.publicKey)),
+    privateKey: toBase64(await crypto.subtle.exportKey('pkcs8', keyPair.privateKey))
+  }
+}
+
+// Signs the statement hash the block will carry and the time of signing,
+// as add-statement expects; send `signedAt` along with the signature
+export async function signStatement(privateKey: string, content: BlockContentInput, signedAt: string): Promise<string> {
+  const key = await crypto.subtle.importKey('pkcs8', fromBase64(privateKey), { name: 'Ed25519' }, false, ['sign'])
+  const statementHash = await computeStatementHash(content)
+  return toBase64(await crypto.subtle.sign({ name: 'Ed25519' }, key, signaturePayload(statementHash, signedAt)))
+}
+
+// Signs a claim, release or approval of a verdict review, as review-verdict expects
+export async function signReviewDecision(privateKey: string, decision: ReviewDecision): Promise<string> {
+  const key = await crypto.subtle.importKey('pkcs8', fromBase64(privateKey), { name: 'Ed25519' }, false, ['sign'])
+  return toBase64(await crypto.subtle.sign({ name: 'Ed25519' }, key, reviewSignaturePayload(decision)))
+}
+
+// Signs a new prompt template version or its activation, as prompt-templates expects
+export async function signPromptTemplateChange(privateKey: string, change: PromptTemplateChange): Promise<string> {
+  const key = await crypto.subtle.importKey('pkcs8', fromBase64(privateKey), { name: 'Ed25519' }, false, ['sign'])
+  return toBase64(await crypto.subtle.sign({ name: 'Ed25519' }, key, promptTemplateSignaturePayload(change)))
+}
+
+// Signs a request to verify a recorded block again, as verify-statement expects
+export async function signVerificationRequest(privateKey: string, request: VerificationRequest): Promise<string> {
+  const key = await crypto.subtle.importKey('pkcs8', fromBase64(privateKey), { name: 'Ed25519' }, false, ['sign'])
+  return toBase64(await crypto.subtle.sign({ name: 'Ed25519' }, key, verificationRequestSignaturePayload(request)))
+}
+
+// Signs a request to seal a checkpoint now, as create-checkpoint expects
+export async function signCheckpointRequest(privateKey: string, signedAt: string): Promise<string> {
+  const key = await crypto.subtle.importKey('pkcs8', fromBase64(privateKey), { name: 'Ed25519' }, false, ['sign'])
+  return toBase64(await crypto.subtle.sign({ name: 'Ed25519' }, key, checkpointSignaturePayload(signedAt)))
+}
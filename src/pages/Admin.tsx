@@ -1,28 +1,74 @@
 import { useState } from 'react'
+import { Link } from 'react-router-dom'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Badge } from '@/components/ui/badge'
 import { toast } from 'sonner'
 import { supabase } from '@/integrations/supabase/client'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { Shield, Database, CheckCircle, Search, AlertTriangle, ExternalLink } from 'lucide-react'
+import { Shield, Database, CheckCircle, Search, AlertTriangle, ExternalLink, PencilLine, Undo2, X } from 'lucide-react'
+import ChainAuditPanel from '@/components/admin/ChainAuditPanel'
+import CheckpointsPanel from '@/components/admin/CheckpointsPanel'
+import TimestampsPanel from '@/components/admin/TimestampsPanel'
+import { useCoveringCheckpoints } from '@/hooks/use-checkpoints'
+import { useSignatureStatuses } from '@/hooks/use-editor-keys'
+import EditorSigningKey from '@/components/admin/EditorSigningKey'
+import ConsensusPolicySelect, { type ConsensusChoice } from '@/components/admin/ConsensusPolicySelect'
+import DuplicateWarning, { type DuplicateMatch } from '@/components/admin/DuplicateWarning'
+import ReviewQueuePanel from '@/components/admin/ReviewQueuePanel'
+import PromptTemplatesPanel from '@/components/admin/PromptTemplatesPanel'
+import { useReviewQueue } from '@/hooks/use-reviews'
+import { useBlockResolutions, supersededBy } from '@/hooks/use-resolutions'
+import SignatureBadge from '@/components/chain/SignatureBadge'
+import BlockTypeBadge from '@/components/chain/BlockTypeBadge'
+import SupersededNotice from '@/components/chain/SupersededNotice'
+import LocalVerifyPanel from '@/components/chain/LocalVerifyPanel'
+import VerdictBadge from '@/components/chain/VerdictBadge'
+import ConsensusVotes from '@/components/chain/ConsensusVotes'
+import ClaimBreakdown from '@/components/chain/ClaimBreakdown'
+import InjectionFlags from '@/components/chain/InjectionFlags'
+import VerificationHistory from '@/components/chain/VerificationHistory'
+import { signStatement, signVerificationRequest } from '@/lib/signing'
+import { functionErrorBody, functionErrorMessage } from '@/lib/functions'
+import type { Tables } from '@/integrations/supabase/types'
+
+// What the statement list shows and checks signatures with; embeddings stay on the server
+const STATEMENT_COLUMNS = 'id, block_number, block_hash, block_type, statement, speaker, source_url, statement_date, statement_hash, signer_key_id, signature, signed_at, block_timestamp, created_at'
+type ChainBlock = Pick<
+  Tables<'veritas_chain'>,
+  | 'id' | 'block_number' | 'block_hash' | 'block_type' | 'statement' | 'speaker' | 'source_url'
+  | 'statement_date' | 'statement_hash' | 'signer_key_id' | 'signature' | 'signed_at' | 'block_timestamp' | 'created_at'
+>
 
 export default function Admin() {
   const [statement, setStatement] = useState('')
   const [speaker, setSpeaker] = useState('')
   const [sourceUrl, setSourceUrl] = useState('')
   const [statementDate, setStatementDate] = useState('')
+  // Set when the form amends an existing block instead of adding a new statement
+  const [superseding, setSuperseding] = useState<{ block: ChainBlock, blockType: 'correction' | 'retraction' } | null>(null)
+  const [signerKeyId, setSignerKeyId] = useState(() => localStorage.getItem('veritas_signer_key_id') ?? '')
+  const [signerPrivateKey, setSignerPrivateKey] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
-  const [verificationResults, setVerificationResults] = useState<any>({})
+  // Earlier blocks the statement may repeat; submitting again adds it anyway
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[] | null>(null)
+  const [directResult, setDirectResult] = useState<any>(null)
   const [directVerifyStatement, setDirectVerifyStatement] = useState('')
   const [directVerifySpeaker, setDirectVerifySpeaker] = useState('')
   const [directVerifySourceUrl, setDirectVerifySourceUrl] = useState('')
   const [directVerifyDate, setDirectVerifyDate] = useState('')
+  // 'dry_run' stores nothing; 'record' signs the statement and appends it with its verdict
+  const [directVerifyMode, setDirectVerifyMode] = useState<'dry_run' | 'record'>('dry_run')
+  // Shared by both verification cards; 'single' asks only the default model
+  const [consensusChoice, setConsensusChoice] = useState<ConsensusChoice>('single')
   
   const queryClient = useQueryClient()
+  const { data: openReviews } = useReviewQueue('open')
 
   // Query to fetch existing statements
   const { data: statements, isLoading: statementsLoading } = useQuery({
@@ -30,8 +76,8 @@ export default function Admin() {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('veritas_chain')
-        .select('*')
-        .order('created_at', { ascending: false })
+        .select(STATEMENT_COLUMNS)
+        .order('block_number', { ascending: false })
         .limit(10)
       
       if (error) throw error
@@ -39,99 +85,192 @@ export default function Admin() {
     }
   })
 
-  // Mutation for verifying existing statements
+  const { data: checkpoints } = useCoveringCheckpoints(statements?.map(stmt => stmt.block_number))
+  const { data: signatureStatuses } = useSignatureStatuses(statements)
+  const { data: resolutions } = useBlockResolutions(statements?.map(stmt => stmt.block_hash))
+
+  const consensusParam = consensusChoice === 'single' ? {} : { consensus: consensusChoice }
+
+  // Mutation for verifying existing statements; each verdict is added to the block's history
   const verifyMutation = useMutation({
-    mutationFn: async (statementId: string) => {
-      // Get the statement details
-      const statement = statements?.find(s => s.id === statementId)
-      if (!statement) throw new Error('Statement not found')
-      
-      // Call the updated verify-statement function with direct statement data
+    mutationFn: async (blockId: string) => {
+      if (!signerKeyId.trim() || !signerPrivateKey.trim()) {
+        throw new Error('A signing key is required to record a verdict')
+      }
+      const signedAt = new Date().toISOString()
+      let signature: string
+      try {
+        signature = await signVerificationRequest(signerPrivateKey.trim(), { blockId, consensus: consensusChoice === 'single' ? null : consensusChoice, signedAt })
+      } catch (signError) {
+        console.error('Signing error:', signError)
+        throw new Error('Could not sign the request with this private key')
+      }
+      localStorage.setItem('veritas_signer_key_id', signerKeyId.trim())
+
       const { data, error } = await supabase.functions.invoke('verify-statement', {
-        body: { 
-          statement: statement.statement,
-          speaker: statement.speaker,
-          sourceUrl: statement.source_url,
-          statementDate: statement.statement_date
-        }
+        body: { blockId, ...consensusParam, signerKeyId: signerKeyId.trim(), signature, signedAt }
       })
       
-      if (error) throw error
-      return { ...data, statementId }
+      if (error) throw new Error(await functionErrorMessage(error, 'Failed to verify statement'))
+      return data
     },
     onSuccess: (data) => {
-      setVerificationResults(prev => ({
-        ...prev,
-        [data.statementId]: data.verification
-      }))
-      toast.success('Statement verification completed!')
+      queryClient.invalidateQueries({ queryKey: ['verifications'] })
+      queryClient.invalidateQueries({ queryKey: ['reviews'] })
+      if (data.injection?.suspicious) {
+        toast.warning(`Statement verified, but it reads like instructions to the model${data.review ? '; the verdict was queued for human review' : ''}`)
+      } else {
+        toast.success(data.review
+          ? 'Statement verified; the verdict was queued for human review'
+          : 'Statement verification completed!')
+      }
     },
     onError: (error) => {
       console.error('Verification error:', error)
-      toast.error('Failed to verify statement')
+      // Unreadable model output is queued for review too
+      queryClient.invalidateQueries({ queryKey: ['reviews'] })
+      toast.error(error.message)
     }
   })
 
-  // Mutation for direct verification without adding to database
+  // Mutation for direct verification, either as a dry run or recorded on the chain
   const directVerifyMutation = useMutation({
-    mutationFn: async (data: { statement: string, speaker: string, sourceUrl?: string, statementDate?: string }) => {
+    mutationFn: async ({ mode, ...data }: { mode: 'dry_run' | 'record', statement: string, speaker?: string, sourceUrl?: string, statementDate?: string }) => {
+      let signing = {}
+      if (mode === 'record') {
+        if (!signerKeyId.trim() || !signerPrivateKey.trim()) {
+          throw new Error('A signing key is required to record a statement')
+        }
+        const signedAt = new Date().toISOString()
+        let signature: string
+        try {
+          signature = await signStatement(signerPrivateKey.trim(), { ...data, speaker: data.speaker ?? '', blockType: 'statement' }, signedAt)
+        } catch (signError) {
+          console.error('Signing error:', signError)
+          throw new Error('Could not sign the statement with this private key')
+        }
+        localStorage.setItem('veritas_signer_key_id', signerKeyId.trim())
+        signing = { signerKeyId: signerKeyId.trim(), signature, signedAt }
+      }
+
       const { data: result, error } = await supabase.functions.invoke('verify-statement', {
-        body: data
+        body: { ...data, ...signing, ...consensusParam, persist: mode === 'record' }
       })
       
-      if (error) throw error
+      if (error) throw new Error(await functionErrorMessage(error, 'Failed to verify statement'))
       return result
     },
     onSuccess: (data) => {
-      setVerificationResults(prev => ({
-        ...prev,
-        direct: data.verification
-      }))
-      toast.success('Direct verification completed!')
+      setDirectResult(data)
+      if (data.mode === 'record') {
+        queryClient.invalidateQueries({ queryKey: ['statements'] })
+        queryClient.invalidateQueries({ queryKey: ['verifications'] })
+        queryClient.invalidateQueries({ queryKey: ['reviews'] })
+        toast.success(`Statement verified and recorded in block #${data.block.block_number}`)
+      } else {
+        toast.success('Dry run completed; nothing was stored')
+      }
     },
     onError: (error) => {
       console.error('Direct verification error:', error)
-      toast.error('Failed to verify statement')
+      toast.error(error.message)
     }
   })
 
+  const checkpointLabel = (blockNumber: number) => {
+    const checkpoint = checkpoints?.[blockNumber]
+    return checkpoint ? `included in checkpoint #${checkpoint.checkpoint_number}` : 'not yet checkpointed'
+  }
+
+  const startSuperseding = (block: ChainBlock, blockType: 'correction' | 'retraction') => {
+    setSuperseding({ block, blockType })
+    setStatement(blockType === 'correction' ? block.statement : '')
+    setSpeaker(block.speaker)
+    setSourceUrl(block.source_url ?? '')
+    setStatementDate(block.statement_date ?? '')
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  const clearForm = () => {
+    setSuperseding(null)
+    setDuplicates(null)
+    setStatement('')
+    setSpeaker('')
+    setSourceUrl('')
+    setStatementDate('')
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
+    // Once the editor has seen the possible duplicates, submitting again overrides them
+    const force = duplicates !== null
+
     if (!statement.trim() || !speaker.trim()) {
       toast.error('Statement and speaker are required')
       return
     }
 
+    if (!signerKeyId.trim() || !signerPrivateKey.trim()) {
+      toast.error('A signing key is required to add statements')
+      return
+    }
+
     setIsSubmitting(true)
 
     try {
+      const content = {
+        statement: statement.trim(),
+        speaker: speaker.trim(),
+        sourceUrl: sourceUrl.trim() || null,
+        statementDate: statementDate || null,
+        blockType: superseding?.blockType ?? 'statement' as const,
+        supersedesHash: superseding?.block.block_hash ?? null
+      }
+
+      const signedAt = new Date().toISOString()
+      let signature: string
+      try {
+        signature = await signStatement(signerPrivateKey.trim(), content, signedAt)
+      } catch (signError) {
+        console.error('Signing error:', signError)
+        toast.error('Could not sign the statement with this private key')
+        return
+      }
+      localStorage.setItem('veritas_signer_key_id', signerKeyId.trim())
+
       const { data, error } = await supabase.functions.invoke('add-statement', {
         body: {
-          statement: statement.trim(),
-          speaker: speaker.trim(),
-          sourceUrl: sourceUrl.trim() || null,
-          statementDate: statementDate || null
+          ...content,
+          signerKeyId: signerKeyId.trim(),
+          signature,
+          signedAt,
+          force
         }
       })
 
       if (error) {
         console.error('Function error:', error)
-        toast.error('Failed to add statement')
+        const body = await functionErrorBody(error)
+        if (Array.isArray(body?.duplicates)) {
+          setDuplicates(body.duplicates as DuplicateMatch[])
+          toast.warning(String(body.error))
+          return
+        }
+        toast.error(typeof body?.error === 'string' ? body.error : 'Failed to add statement')
         return
       }
 
       console.log('Statement added:', data)
-      toast.success('Statement successfully added to the Veritas chain!')
-      
-      // Clear form
-      setStatement('')
-      setSpeaker('')
-      setSourceUrl('')
-      setStatementDate('')
+      toast.success(superseding
+        ? `${superseding.blockType === 'retraction' ? 'Retraction' : 'Correction'} added to the Veritas chain!`
+        : 'Statement successfully added to the Veritas chain!')
+
+      clearForm()
 
       // Refresh statements list
       queryClient.invalidateQueries({ queryKey: ['statements'] })
+      queryClient.invalidateQueries({ queryKey: ['block-resolutions'] })
 
     } catch (error) {
       console.error('Submit error:', error)
@@ -149,9 +288,15 @@ export default function Admin() {
       return
     }
 
+    if (directVerifyMode === 'record' && !directVerifySpeaker.trim()) {
+      toast.error('A speaker is required to record a statement')
+      return
+    }
+
     directVerifyMutation.mutate({
+      mode: directVerifyMode,
       statement: directVerifyStatement.trim(),
-      speaker: directVerifySpeaker.trim() || 'Unknown',
+      speaker: directVerifySpeaker.trim() || undefined,
       sourceUrl: directVerifySourceUrl.trim() || undefined,
       statementDate: directVerifyDate || undefined
     })
@@ -170,340 +315,493 @@ export default function Admin() {
           </p>
         </div>
 
-        <Card className="shadow-lg">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Database className="h-5 w-5" />
-              Add New Statement
-            </CardTitle>
-            <CardDescription>
-              Enter a verified statement to add to the Veritas chain. Each statement will be cryptographically hashed and linked to the previous block.
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-6">
-              <div className="space-y-2">
-                <Label htmlFor="statement" className="text-sm font-medium">
-                  Statement *
-                </Label>
-                <Textarea
-                  id="statement"
-                  placeholder="Enter the verified statement or quote..."
-                  value={statement}
-                  onChange={(e) => setStatement(e.target.value)}
-                  className="min-h-24 resize-none"
-                  required
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="speaker" className="text-sm font-medium">
-                  Speaker *
-                </Label>
-                <Input
-                  id="speaker"
-                  placeholder="Name of the person who made this statement"
-                  value={speaker}
-                  onChange={(e) => setSpeaker(e.target.value)}
-                  required
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="sourceUrl" className="text-sm font-medium">
-                  Source URL
-                </Label>
-                <Input
-                  id="sourceUrl"
-                  type="url"
-                  placeholder="https://example.com/article"
-                  value={sourceUrl}
-                  onChange={(e) => setSourceUrl(e.target.value)}
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="statementDate" className="text-sm font-medium">
-                  Statement Date
-                </Label>
-                <Input
-                  id="statementDate"
-                  type="date"
-                  value={statementDate}
-                  onChange={(e) => setStatementDate(e.target.value)}
-                />
-              </div>
-
-              <Button 
-                type="submit" 
-                className="w-full h-11"
-                disabled={isSubmitting}
-              >
-                {isSubmitting ? (
-                  <>
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
-                    Adding to Chain...
-                  </>
-                ) : (
-                  <>
-                    <CheckCircle className="h-4 w-4 mr-2" />
-                    Add to Veritas Chain
-                  </>
-                )}
-              </Button>
-            </form>
-          </CardContent>
-        </Card>
-
-        {/* Direct Verification Section */}
-        <Card className="shadow-lg mt-8">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <AlertTriangle className="h-5 w-5" />
-              Direct Statement Verification
-            </CardTitle>
-            <CardDescription>
-              Verify any statement directly using Mistral AI without adding it to the blockchain.
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <form onSubmit={handleDirectVerify} className="space-y-6">
-              <div className="space-y-2">
-                <Label htmlFor="directVerifyStatement" className="text-sm font-medium">
-                  Statement to Verify *
-                </Label>
-                <Textarea
-                  id="directVerifyStatement"
-                  placeholder="Enter any statement to verify..."
-                  value={directVerifyStatement}
-                  onChange={(e) => setDirectVerifyStatement(e.target.value)}
-                  className="min-h-24 resize-none"
-                  required
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="directVerifySpeaker" className="text-sm font-medium">
-                  Speaker
-                </Label>
-                <Input
-                  id="directVerifySpeaker"
-                  placeholder="Name of the person who made this statement (optional)"
-                  value={directVerifySpeaker}
-                  onChange={(e) => setDirectVerifySpeaker(e.target.value)}
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="directVerifySourceUrl" className="text-sm font-medium">
-                  Source URL
-                </Label>
-                <Input
-                  id="directVerifySourceUrl"
-                  type="url"
-                  placeholder="https://example.com/article (optional)"
-                  value={directVerifySourceUrl}
-                  onChange={(e) => setDirectVerifySourceUrl(e.target.value)}
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="directVerifyDate" className="text-sm font-medium">
-                  Statement Date
-                </Label>
-                <Input
-                  id="directVerifyDate"
-                  type="date"
-                  value={directVerifyDate}
-                  onChange={(e) => setDirectVerifyDate(e.target.value)}
-                />
-              </div>
-
-              <Button 
-                type="submit" 
-                className="w-full h-11"
-                disabled={directVerifyMutation.isPending}
-              >
-                {directVerifyMutation.isPending ? (
-                  <>
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
-                    Verifying...
-                  </>
-                ) : (
-                  <>
-                    <Search className="h-4 w-4 mr-2" />
-                    Verify with Mistral AI
-                  </>
-                )}
-              </Button>
-            </form>
-
-            {/* Display direct verification results */}
-            {verificationResults.direct && (
-              <div className="mt-6 p-4 bg-muted rounded-md">
-                <div className="flex items-center gap-2 mb-2">
-                  <Badge 
-                    variant={
-                      verificationResults.direct.status === 'VERIFIED' ? 'default' :
-                      verificationResults.direct.status === 'DISPUTED' ? 'destructive' : 'secondary'
-                    }
+        <Tabs defaultValue="statements">
+          <TabsList className="grid w-full grid-cols-4 mb-6">
+            <TabsTrigger value="statements">Statements</TabsTrigger>
+            <TabsTrigger value="reviews">
+              Review Queue
+              {openReviews && openReviews.length > 0 && (
+                <Badge variant="secondary" className="ml-2">{openReviews.length}</Badge>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="prompts">Prompts</TabsTrigger>
+            <TabsTrigger value="integrity">Chain Integrity</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="statements">
+            <Card className="shadow-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Database className="h-5 w-5" />
+                  Add New Statement
+                </CardTitle>
+                <CardDescription>
+                  Enter a verified statement to add to the Veritas chain. Each statement will be signed with your editor key, cryptographically hashed and linked to the previous block.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSubmit} className="space-y-6">
+                  {superseding && (
+                    <div className="flex items-start justify-between gap-2 p-3 bg-muted rounded-md">
+                      <div className="text-sm">
+                        <p className="font-medium">
+                          {superseding.blockType === 'retraction' ? 'Retracting' : 'Correcting'} block #{superseding.block.block_number}
+                        </p>
+                        <p className="text-muted-foreground italic line-clamp-2">"{superseding.block.statement}"</p>
+                      </div>
+                      <Button type="button" size="sm" variant="ghost" onClick={clearForm}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label htmlFor="statement" className="text-sm font-medium">
+                      {superseding?.blockType === 'retraction' ? 'Reason for Retraction *' : 'Statement *'}
+                    </Label>
+                    <Textarea
+                      id="statement"
+                      placeholder={superseding?.blockType === 'retraction'
+                        ? 'Explain why this statement is being retracted...'
+                        : 'Enter the verified statement or quote...'}
+                      value={statement}
+                      onChange={(e) => {
+                        setStatement(e.target.value)
+                        setDuplicates(null)
+                      }}
+                      className="min-h-24 resize-none"
+                      required
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="speaker" className="text-sm font-medium">
+                      Speaker *
+                    </Label>
+                    <Input
+                      id="speaker"
+                      placeholder="Name of the person who made this statement"
+                      value={speaker}
+                      onChange={(e) => {
+                        setSpeaker(e.target.value)
+                        setDuplicates(null)
+                      }}
+                      required
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="sourceUrl" className="text-sm font-medium">
+                      Source URL
+                    </Label>
+                    <Input
+                      id="sourceUrl"
+                      type="url"
+                      placeholder="https://example.com/article"
+                      value={sourceUrl}
+                      onChange={(e) => setSourceUrl(e.target.value)}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="statementDate" className="text-sm font-medium">
+                      Statement Date
+                    </Label>
+                    <Input
+                      id="statementDate"
+                      type="date"
+                      value={statementDate}
+                      onChange={(e) => setStatementDate(e.target.value)}
+                    />
+                  </div>
+
+                  <EditorSigningKey
+                    keyId={signerKeyId}
+                    privateKey={signerPrivateKey}
+                    onKeyIdChange={setSignerKeyId}
+                    onPrivateKeyChange={setSignerPrivateKey}
+                  />
+
+                  {duplicates && <DuplicateWarning duplicates={duplicates} />}
+
+                  <Button 
+                    type="submit" 
+                    className="w-full h-11"
+                    disabled={isSubmitting}
                   >
-                    {verificationResults.direct.status}
-                  </Badge>
-                  <Badge variant="outline">
-                    {verificationResults.direct.confidence} confidence
-                  </Badge>
-                </div>
-                
-                {verificationResults.direct.reasoning && (
-                  <p className="text-sm text-muted-foreground mt-2">
-                    {verificationResults.direct.reasoning}
-                  </p>
-                )}
-                
-                {verificationResults.direct.keyFacts && verificationResults.direct.keyFacts.length > 0 && (
-                  <div className="mt-4">
-                    <p className="text-sm font-medium">Key Facts:</p>
-                    <ul className="text-sm text-muted-foreground list-disc list-inside">
-                      {verificationResults.direct.keyFacts.map((fact: string, index: number) => (
-                        <li key={index}>{fact}</li>
-                      ))}
-                    </ul>
+                    {isSubmitting ? (
+                      <>
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
+                        Adding to Chain...
+                      </>
+                    ) : (
+                      <>
+                        <CheckCircle className="h-4 w-4 mr-2" />
+                        {duplicates
+                          ? 'Add Anyway'
+                          : superseding
+                            ? `Add ${superseding.blockType === 'retraction' ? 'Retraction' : 'Correction'} to Veritas Chain`
+                            : 'Add to Veritas Chain'}
+                      </>
+                    )}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            {/* Direct Verification Section */}
+            <Card className="shadow-lg mt-8">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5" />
+                  Direct Statement Verification
+                </CardTitle>
+                <CardDescription>
+                  Verify any statement directly with the configured AI model. A dry run stores nothing; verify and record signs the statement with your editor key, adds it to the Veritas chain and keeps the verdict in its history.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleDirectVerify} className="space-y-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="directVerifyStatement" className="text-sm font-medium">
+                      Statement to Verify *
+                    </Label>
+                    <Textarea
+                      id="directVerifyStatement"
+                      placeholder="Enter any statement to verify..."
+                      value={directVerifyStatement}
+                      onChange={(e) => setDirectVerifyStatement(e.target.value)}
+                      className="min-h-24 resize-none"
+                      required
+                    />
                   </div>
-                )}
-                
-                {verificationResults.direct.issues && verificationResults.direct.issues.length > 0 && (
-                  <div className="mt-2">
-                    <p className="text-sm font-medium">Issues Found:</p>
-                    <ul className="text-sm text-muted-foreground list-disc list-inside">
-                      {verificationResults.direct.issues.map((issue: string, index: number) => (
-                        <li key={index}>{issue}</li>
-                      ))}
-                    </ul>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="directVerifySpeaker" className="text-sm font-medium">
+                      {directVerifyMode === 'record' ? 'Speaker *' : 'Speaker'}
+                    </Label>
+                    <Input
+                      id="directVerifySpeaker"
+                      placeholder={directVerifyMode === 'record'
+                        ? 'Name of the person who made this statement'
+                        : 'Name of the person who made this statement (optional)'}
+                      value={directVerifySpeaker}
+                      onChange={(e) => setDirectVerifySpeaker(e.target.value)}
+                    />
                   </div>
-                )}
-                
-                {verificationResults.direct.context && (
-                  <div className="mt-2">
-                    <p className="text-sm font-medium">Additional Context:</p>
-                    <p className="text-sm text-muted-foreground">{verificationResults.direct.context}</p>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="directVerifySourceUrl" className="text-sm font-medium">
+                      Source URL
+                    </Label>
+                    <Input
+                      id="directVerifySourceUrl"
+                      type="url"
+                      placeholder="https://example.com/article (optional)"
+                      value={directVerifySourceUrl}
+                      onChange={(e) => setDirectVerifySourceUrl(e.target.value)}
+                    />
                   </div>
-                )}
-                
-                {verificationResults.direct.recommendation && (
-                  <div className="mt-2">
-                    <p className="text-sm font-medium">Recommendation:</p>
-                    <p className="text-sm text-muted-foreground">{verificationResults.direct.recommendation}</p>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="directVerifyDate" className="text-sm font-medium">
+                      Statement Date
+                    </Label>
+                    <Input
+                      id="directVerifyDate"
+                      type="date"
+                      value={directVerifyDate}
+                      onChange={(e) => setDirectVerifyDate(e.target.value)}
+                    />
                   </div>
-                )}
-              </div>
-            )}
-          </CardContent>
-        </Card>
-
-        {/* Statement Verification Section */}
-        <Card className="shadow-lg mt-8">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Search className="h-5 w-5" />
-              Fact Verification Pipeline
-            </CardTitle>
-            <CardDescription>
-              Use AI to verify the accuracy of existing statements in the Veritas chain.
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            {statementsLoading ? (
-              <div className="text-center py-8 text-muted-foreground">
-                Loading statements...
-              </div>
-            ) : statements && statements.length > 0 ? (
-              <div className="space-y-4">
-                {statements.map((stmt) => (
-                  <div key={stmt.id} className="border rounded-lg p-4 space-y-3">
-                    <div className="flex justify-between items-start gap-4">
-                      <div className="flex-1">
-                        <p className="font-medium text-sm">"{stmt.statement}"</p>
-                        <p className="text-sm text-muted-foreground mt-1">
-                          — {stmt.speaker} {stmt.statement_date && `(${stmt.statement_date})`}
-                        </p>
-                        {stmt.source_url && (
-                          <a 
-                            href={stmt.source_url} 
-                            target="_blank" 
-                            rel="noopener noreferrer"
-                            className="inline-flex items-center gap-1 text-xs text-primary hover:underline mt-1"
-                          >
-                            <ExternalLink className="h-3 w-3" />
-                            Source
-                          </a>
-                        )}
+
+                  <ConsensusPolicySelect
+                    id="directVerifyModels"
+                    value={consensusChoice}
+                    onChange={setConsensusChoice}
+                  />
+
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Mode</Label>
+                    <RadioGroup
+                      value={directVerifyMode}
+                      onValueChange={(value) => setDirectVerifyMode(value as 'dry_run' | 'record')}
+                    >
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value="dry_run" id="directVerifyDryRun" />
+                        <Label htmlFor="directVerifyDryRun" className="text-sm font-normal">
+                          Dry run — nothing is stored
+                        </Label>
                       </div>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => verifyMutation.mutate(stmt.id)}
-                        disabled={verifyMutation.isPending}
-                      >
-                        {verifyMutation.isPending && verifyMutation.variables === stmt.id ? (
-                          <>
-                            <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-primary mr-1" />
-                            Verifying...
-                          </>
-                        ) : (
-                          <>
-                            <AlertTriangle className="h-3 w-3 mr-1" />
-                            Verify
-                          </>
-                        )}
-                      </Button>
-                    </div>
+                      <div className="flex items-center gap-2">
+                        <RadioGroupItem value="record" id="directVerifyRecord" />
+                        <Label htmlFor="directVerifyRecord" className="text-sm font-normal">
+                          Verify and record — signed with the editor key above and added to the chain
+                        </Label>
+                      </div>
+                    </RadioGroup>
+                  </div>
+
+                  <Button 
+                    type="submit" 
+                    className="w-full h-11"
+                    disabled={directVerifyMutation.isPending}
+                  >
+                    {directVerifyMutation.isPending ? (
+                      <>
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
+                        Verifying...
+                      </>
+                    ) : (
+                      <>
+                        <Search className="h-4 w-4 mr-2" />
+                        {directVerifyMode === 'record' ? 'Verify and Record' : 'Verify with AI (Dry Run)'}
+                      </>
+                    )}
+                  </Button>
+                </form>
+
+                {/* Display direct verification results */}
+                {directResult && (
+                  <div className="mt-6 p-4 bg-muted rounded-md">
+                    <p className="text-xs text-muted-foreground mb-2">
+                      {directResult.mode === 'record' ? (
+                        <>
+                          Recorded in{' '}
+                          <Link to={`/chain/${directResult.block.block_hash}`} className="text-primary hover:underline">
+                            block #{directResult.block.block_number}
+                          </Link>
+                        </>
+                      ) : 'Dry run — this verdict was not stored'}
+                      {directResult.model && ` · ${directResult.model}`}
+                    </p>
+                    <VerdictBadge
+                      status={directResult.verification.status}
+                      confidence={directResult.verification.confidence}
+                      source={directResult.source}
+                      className="mb-2"
+                    />
+
+                    {directResult.review && (
+                      <p className="text-xs text-muted-foreground mb-2">
+                        Queued for human review ({directResult.review.reasons.join(', ').replace(/_/g, ' ')})
+                      </p>
+                    )}
+
+                    {directResult.injection?.suspicious && (
+                      <InjectionFlags matches={directResult.injection.matches} className="mb-2" />
+                    )}
+
+                    {directResult.consensus && <ConsensusVotes consensus={directResult.consensus} className="mb-2" />}
                     
-                    {/* Display verification results */}
-                    {verificationResults[stmt.id] && (
-                      <div className="mt-3 p-3 bg-muted rounded-md">
-                        <div className="flex items-center gap-2 mb-2">
-                          <Badge 
-                            variant={
-                              verificationResults[stmt.id].status === 'VERIFIED' ? 'default' :
-                              verificationResults[stmt.id].status === 'DISPUTED' ? 'destructive' : 'secondary'
-                            }
-                          >
-                            {verificationResults[stmt.id].status}
-                          </Badge>
-                          <Badge variant="outline">
-                            {verificationResults[stmt.id].confidence} confidence
-                          </Badge>
-                        </div>
-                        
-                        {verificationResults[stmt.id].reasoning && (
-                          <p className="text-xs text-muted-foreground">
-                            {verificationResults[stmt.id].reasoning}
-                          </p>
+                    {directResult.verification.reasoning && (
+                      <p className="text-sm text-muted-foreground mt-2">
+                        {directResult.verification.reasoning}
+                      </p>
+                    )}
+                    
+                    {directResult.claims ? (
+                      <ClaimBreakdown claims={directResult.claims} className="mt-4" />
+                    ) : (
+                      <>
+                        {directResult.verification.keyFacts && directResult.verification.keyFacts.length > 0 && (
+                          <div className="mt-4">
+                            <p className="text-sm font-medium">Key Facts:</p>
+                            <ul className="text-sm text-muted-foreground list-disc list-inside">
+                              {directResult.verification.keyFacts.map((fact: string, index: number) => (
+                                <li key={index}>{fact}</li>
+                              ))}
+                            </ul>
+                          </div>
                         )}
-                        
-                        {verificationResults[stmt.id].issues && verificationResults[stmt.id].issues.length > 0 && (
+
+                        {directResult.verification.issues && directResult.verification.issues.length > 0 && (
                           <div className="mt-2">
-                            <p className="text-xs font-medium">Issues Found:</p>
-                            <ul className="text-xs text-muted-foreground list-disc list-inside">
-                              {verificationResults[stmt.id].issues.map((issue: string, index: number) => (
+                            <p className="text-sm font-medium">Issues Found:</p>
+                            <ul className="text-sm text-muted-foreground list-disc list-inside">
+                              {directResult.verification.issues.map((issue: string, index: number) => (
                                 <li key={index}>{issue}</li>
                               ))}
                             </ul>
                           </div>
                         )}
+                      </>
+                    )}
+
+                    {directResult.verification.context && (
+                      <div className="mt-2">
+                        <p className="text-sm font-medium">Additional Context:</p>
+                        <p className="text-sm text-muted-foreground">{directResult.verification.context}</p>
                       </div>
                     )}
+                    
+                    {directResult.verification.recommendation && (
+                      <div className="mt-2">
+                        <p className="text-sm font-medium">Recommendation:</p>
+                        <p className="text-sm text-muted-foreground">{directResult.verification.recommendation}</p>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Statement Verification Section */}
+            <Card className="shadow-lg mt-8">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Search className="h-5 w-5" />
+                  Fact Verification Pipeline
+                </CardTitle>
+                <CardDescription>
+                  Use AI to verify the accuracy of existing statements in the Veritas chain. Every verdict is kept in the statement's verification history; requests are signed with the editor key above.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="mb-4">
+                  <ConsensusPolicySelect
+                    id="pipelineModels"
+                    value={consensusChoice}
+                    onChange={setConsensusChoice}
+                  />
+                </div>
+
+                {statementsLoading ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    Loading statements...
                   </div>
-                ))}
-              </div>
-            ) : (
-              <div className="text-center py-8 text-muted-foreground">
-                No statements found. Add some statements first to enable fact verification.
-              </div>
+                ) : statements && statements.length > 0 ? (
+                  <div className="space-y-4">
+                    {statements.map((stmt) => {
+                      const superseded = supersededBy(resolutions?.[stmt.block_hash], stmt.block_hash)
+                      return (
+                        <div key={stmt.id} className="border rounded-lg p-4 space-y-3">
+                          <div className="flex justify-between items-start gap-4">
+                            <div className="flex-1">
+                              <p className="font-medium text-sm">"{stmt.statement}"</p>
+                              <p className="text-sm text-muted-foreground mt-1">
+                                — {stmt.speaker} {stmt.statement_date && `(${stmt.statement_date})`}
+                              </p>
+                              <p className="text-xs text-muted-foreground font-mono mt-1">
+                                <Link to={`/chain/${stmt.block_hash}`} className="hover:underline">
+                                  Block #{stmt.block_number}
+                                </Link>
+                                {' · '}{checkpointLabel(stmt.block_number)}
+                              </p>
+                              <BlockTypeBadge blockType={stmt.block_type} className="mt-1 mr-1" />
+                              {signatureStatuses?.[stmt.id] && (
+                                <SignatureBadge
+                                  status={signatureStatuses[stmt.id]}
+                                  keyId={stmt.signer_key_id}
+                                  className="mt-1"
+                                />
+                              )}
+                              {stmt.source_url && (
+                                <a 
+                                  href={stmt.source_url} 
+                                  target="_blank" 
+                                  rel="noopener noreferrer"
+                                  className="inline-flex items-center gap-1 text-xs text-primary hover:underline mt-1"
+                                >
+                                  <ExternalLink className="h-3 w-3" />
+                                  Source
+                                </a>
+                              )}
+                              {superseded && (
+                                <SupersededNotice resolution={superseded} className="mt-2" />
+                              )}
+                            </div>
+                            <div className="flex flex-col gap-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => verifyMutation.mutate(stmt.id)}
+                                disabled={verifyMutation.isPending}
+                              >
+                                {verifyMutation.isPending && verifyMutation.variables === stmt.id ? (
+                                  <>
+                                    <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-primary mr-1" />
+                                    Verifying...
+                                  </>
+                                ) : (
+                                  <>
+                                    <AlertTriangle className="h-3 w-3 mr-1" />
+                                    Verify
+                                  </>
+                                )}
+                              </Button>
+                              {!superseded && stmt.block_type !== 'retraction' && (
+                                <>
+                                  <Button size="sm" variant="outline" onClick={() => startSuperseding(stmt, 'correction')}>
+                                    <PencilLine className="h-3 w-3 mr-1" />
+                                    Correct
+                                  </Button>
+                                  <Button size="sm" variant="outline" onClick={() => startSuperseding(stmt, 'retraction')}>
+                                    <Undo2 className="h-3 w-3 mr-1" />
+                                    Retract
+                                  </Button>
+                                </>
+                              )}
+                            </div>
+                          </div>
+                          
+                          <VerificationHistory blockId={stmt.id} compact />
+                        </div>
+                      )
+                    })}
+                  </div>
+                ) : (
+                  <div className="text-center py-8 text-muted-foreground">
+                    No statements found. Add some statements first to enable fact verification.
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="reviews" className="space-y-6">
+            <EditorSigningKey
+              keyId={signerKeyId}
+              privateKey={signerPrivateKey}
+              onKeyIdChange={setSignerKeyId}
+              onPrivateKeyChange={setSignerPrivateKey}
+            />
+
+            <ReviewQueuePanel signerKeyId={signerKeyId} signerPrivateKey={signerPrivateKey} />
+          </TabsContent>
+
+          <TabsContent value="prompts" className="space-y-6">
+            <EditorSigningKey
+              keyId={signerKeyId}
+              privateKey={signerPrivateKey}
+              onKeyIdChange={setSignerKeyId}
+              onPrivateKeyChange={setSignerPrivateKey}
+            />
+
+            <PromptTemplatesPanel signerKeyId={signerKeyId} signerPrivateKey={signerPrivateKey} />
+          </TabsContent>
+
+          <TabsContent value="integrity">
+            <ChainAuditPanel />
+
+            {statements && statements.length > 0 && (
+              <LocalVerifyPanel defaultFrom={1} defaultTo={statements[0].block_number} />
             )}
-          </CardContent>
-        </Card>
+
+            <div className="mt-8">
+              <EditorSigningKey
+                keyId={signerKeyId}
+                privateKey={signerPrivateKey}
+                onKeyIdChange={setSignerKeyId}
+                onPrivateKeyChange={setSignerPrivateKey}
+              />
+            </div>
+
+            <CheckpointsPanel signerKeyId={signerKeyId} signerPrivateKey={signerPrivateKey} />
+
+            <TimestampsPanel />
+          </TabsContent>
+        </Tabs>
 
         <div className="mt-8 text-center">
           <Button variant="outline" onClick={() => window.location.href = '/'}>
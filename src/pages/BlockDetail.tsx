@@ -0,0 +1,252 @@
+import { Link, useParams } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { supabase } from '@/integrations/supabase/client'
+import { useQuery, useMutation } from '@tanstack/react-query'
+import { useCoveringCheckpoints } from '@/hooks/use-checkpoints'
+import { useAnchoringTimestamp } from '@/hooks/use-chain-timestamps'
+import { useSignatureStatuses } from '@/hooks/use-editor-keys'
+import { useBlockResolutions, supersededBy } from '@/hooks/use-resolutions'
+import SignatureBadge from '@/components/chain/SignatureBadge'
+import BlockTypeBadge from '@/components/chain/BlockTypeBadge'
+import SupersededNotice from '@/components/chain/SupersededNotice'
+import LocalVerifyPanel from '@/components/chain/LocalVerifyPanel'
+import VerificationHistory from '@/components/chain/VerificationHistory'
+import { Box, Download, ExternalLink, Shield } from 'lucide-react'
+import { toast } from 'sonner'
+import { downloadProofReceipt, downloadTimestampToken } from '@/lib/receipts'
+import { GENESIS_PREVIOUS_HASH } from '../../supabase/functions/_shared/block.ts'
+
+// Blocks leading up to this one that "Verify locally" checks by default
+const LOCAL_VERIFY_WINDOW = 100
+
+function HashRow({ label, hash, linked = false }: { label: string, hash: string | null, linked?: boolean }) {
+  return (
+    <div>
+      <p className="text-xs font-medium text-muted-foreground">{label}</p>
+      {hash && linked && hash !== GENESIS_PREVIOUS_HASH ? (
+        <Link to={`/chain/${hash}`} className="text-xs font-mono break-all text-primary hover:underline">
+          {hash}
+        </Link>
+      ) : (
+        <p className="text-xs font-mono break-all">
+          {hash === GENESIS_PREVIOUS_HASH && linked ? `${hash} (genesis)` : hash ?? '—'}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default function BlockDetail() {
+  const { blockHash } = useParams()
+
+  const { data: block, isLoading } = useQuery({
+    queryKey: ['block', blockHash],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('veritas_chain')
+        .select('id, block_number, block_hash, previous_hash, block_type, supersedes_hash, statement, speaker, source_url, statement_date, statement_hash, hash_version, signer_key_id, signature, signed_at, block_timestamp, created_at')
+        .eq('block_hash', blockHash)
+        .order('block_number', { ascending: true })
+        .limit(1)
+        .maybeSingle()
+
+      if (error) throw error
+      return data
+    }
+  })
+
+  // Blocks built on top of this one; more than one means the chain forked here
+  const { data: children } = useQuery({
+    queryKey: ['block-children', blockHash],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('veritas_chain')
+        .select('block_hash, block_number')
+        .eq('previous_hash', blockHash)
+        .order('block_number', { ascending: true })
+
+      if (error) throw error
+      return data
+    }
+  })
+
+  const { data: signatureStatuses } = useSignatureStatuses(block ? [block] : undefined)
+  const signatureStatus = block ? signatureStatuses?.[block.id] : undefined
+  const { data: checkpoints } = useCoveringCheckpoints(block ? [block.block_number] : undefined)
+  const checkpoint = block ? checkpoints?.[block.block_number] : undefined
+  const { data: anchor } = useAnchoringTimestamp(block?.block_number)
+  const { data: resolutions } = useBlockResolutions(block ? [block.block_hash] : undefined)
+  const superseded = block ? supersededBy(resolutions?.[block.block_hash], block.block_hash) : null
+
+  const receiptMutation = useMutation({
+    mutationFn: () => downloadProofReceipt(block.block_hash),
+    onError: (error) => {
+      console.error('Receipt error:', error)
+      toast.error('Failed to download the proof receipt')
+    }
+  })
+
+  const tokenMutation = useMutation({
+    mutationFn: downloadTimestampToken,
+    onError: (error) => {
+      console.error('Token download error:', error)
+      toast.error('Failed to download the timestamp token')
+    }
+  })
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 p-4">
+      <div className="max-w-3xl mx-auto pt-8">
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center gap-2 mb-4">
+            <Shield className="h-8 w-8 text-primary" />
+            <h1 className="text-3xl font-bold text-foreground">Veritas Chain Explorer</h1>
+          </div>
+        </div>
+
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Box className="h-5 w-5" />
+              {block ? `Block #${block.block_number}` : 'Block'}
+              {block && <BlockTypeBadge blockType={block.block_type} />}
+            </CardTitle>
+            {block && (
+              <CardDescription>
+                Recorded {new Date(block.block_timestamp ?? block.created_at).toLocaleString()} · hash version {block.hash_version}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Loading block...
+              </div>
+            ) : !block ? (
+              <div className="text-center py-8 text-muted-foreground">
+                No block with this hash exists on the Veritas chain.
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {superseded && (
+                  <SupersededNotice resolution={superseded} className="p-3 border rounded-md" />
+                )}
+
+                <div>
+                  <p className="font-medium">"{block.statement}"</p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    — {block.speaker} {block.statement_date && `(${block.statement_date})`}
+                  </p>
+                  {block.source_url && (
+                    <a
+                      href={block.source_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-xs text-primary hover:underline mt-1"
+                    >
+                      <ExternalLink className="h-3 w-3" />
+                      {block.source_url}
+                    </a>
+                  )}
+                </div>
+
+                <div>
+                  <p className="text-sm font-medium mb-2">Verification History</p>
+                  <VerificationHistory blockId={block.id} />
+                </div>
+
+                <div className="space-y-3">
+                  <HashRow label="Block Hash" hash={block.block_hash} />
+                  <HashRow label="Statement Hash" hash={block.statement_hash} />
+                  <HashRow label="Previous Block" hash={block.previous_hash} linked />
+                  {block.supersedes_hash && (
+                    <HashRow
+                      label={block.block_type === 'retraction' ? 'Retracts Block' : 'Corrects Block'}
+                      hash={block.supersedes_hash}
+                      linked
+                    />
+                  )}
+                  {children && children.length > 0 && (
+                    <div>
+                      <p className="text-xs font-medium text-muted-foreground">
+                        {children.length > 1 ? 'Next Blocks (fork)' : 'Next Block'}
+                      </p>
+                      {children.map((child) => (
+                        <Link
+                          key={child.block_hash}
+                          to={`/chain/${child.block_hash}`}
+                          className="block text-xs font-mono break-all text-primary hover:underline"
+                        >
+                          #{child.block_number} {child.block_hash}
+                        </Link>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  {signatureStatus && (
+                    <SignatureBadge status={signatureStatus} keyId={block.signer_key_id} />
+                  )}
+                  <Badge variant="outline">
+                    {checkpoint ? `Included in checkpoint #${checkpoint.checkpoint_number}` : 'Not yet checkpointed'}
+                  </Badge>
+                </div>
+
+                <div className="p-4 bg-muted rounded-md">
+                  <p className="text-sm font-medium mb-1">Trusted Timestamp</p>
+                  {anchor ? (
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-xs text-muted-foreground">
+                        Existed no later than {new Date(anchor.gen_time).toLocaleString()}, per an RFC 3161 token from {new URL(anchor.tsa_url).host}
+                        {anchor.block_number !== block.block_number && ` over block #${anchor.block_number}, which links back to this block`}.
+                      </p>
+                      <Button size="sm" variant="outline" onClick={() => tokenMutation.mutate(anchor)}>
+                        <Download className="h-3 w-3 mr-1" />
+                        Token
+                      </Button>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      No timestamp authority has countersigned this block yet.
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => receiptMutation.mutate()}
+                    disabled={receiptMutation.isPending}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    {receiptMutation.isPending ? 'Preparing Receipt...' : 'Download Proof Receipt'}
+                  </Button>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    The receipt can be checked offline with <span className="font-mono">scripts/verify-receipt.ts</span>, without trusting this site.
+                  </p>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {block && (
+          <LocalVerifyPanel
+            defaultFrom={Math.max(1, block.block_number - LOCAL_VERIFY_WINDOW + 1)}
+            defaultTo={block.block_number}
+          />
+        )}
+
+        <div className="mt-8 text-center">
+          <Button variant="outline" asChild>
+            <Link to="/chain">Back to All Blocks</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,147 @@
+import { Link, useSearchParams } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { supabase } from '@/integrations/supabase/client'
+import { useQuery } from '@tanstack/react-query'
+import { useBlockResolutions, supersededBy } from '@/hooks/use-resolutions'
+import { useLatestVerifications } from '@/hooks/use-verifications'
+import BlockTypeBadge from '@/components/chain/BlockTypeBadge'
+import LocalVerifyPanel from '@/components/chain/LocalVerifyPanel'
+import { Blocks, ChevronLeft, ChevronRight, Shield } from 'lucide-react'
+
+const PAGE_SIZE = 20
+
+export default function ChainExplorer() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const page = Math.max(1, Number(searchParams.get('page')) || 1)
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['chain-blocks', page],
+    queryFn: async () => {
+      const from = (page - 1) * PAGE_SIZE
+      const { data, error, count } = await supabase
+        .from('veritas_chain')
+        .select('id, block_number, block_hash, block_type, statement, speaker, created_at', { count: 'exact' })
+        .order('block_number', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) throw error
+      return { blocks: data, total: count ?? 0 }
+    }
+  })
+
+  const { data: resolutions } = useBlockResolutions(data?.blocks.map(block => block.block_hash))
+  const { data: verdicts } = useLatestVerifications(data?.blocks.map(block => block.id))
+
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE))
+
+  const goToPage = (nextPage: number) => {
+    setSearchParams({ page: String(nextPage) })
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 p-4">
+      <div className="max-w-3xl mx-auto pt-8">
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center gap-2 mb-4">
+            <Shield className="h-8 w-8 text-primary" />
+            <h1 className="text-3xl font-bold text-foreground">Veritas Chain Explorer</h1>
+          </div>
+          <p className="text-muted-foreground">
+            Browse every statement recorded on the Veritas chain
+          </p>
+        </div>
+
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Blocks className="h-5 w-5" />
+              Blocks
+            </CardTitle>
+            <CardDescription>
+              {data ? `${data.total} blocks, newest first` : 'Newest blocks first'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Loading blocks...
+              </div>
+            ) : error ? (
+              <div className="text-center py-8 text-muted-foreground">
+                Failed to load the chain. Please try again later.
+              </div>
+            ) : data && data.blocks.length > 0 ? (
+              <ul className="space-y-3">
+                {data.blocks.map((block) => {
+                  const superseded = supersededBy(resolutions?.[block.block_hash], block.block_hash)
+                  return (
+                    <li key={block.id}>
+                      <Link
+                        to={`/chain/${block.block_hash}`}
+                        className="block border rounded-lg p-4 hover:bg-muted transition-colors"
+                      >
+                        <div className="flex items-center justify-between gap-2 mb-1">
+                          <span className="text-xs font-mono text-muted-foreground">
+                            #{block.block_number} · {block.block_hash.slice(0, 16)}…
+                          </span>
+                          <div className="flex items-center gap-1">
+                            <BlockTypeBadge blockType={block.block_type} />
+                            {superseded && (
+                              <Badge variant={superseded.latest_block_type === 'retraction' ? 'destructive' : 'secondary'}>
+                                {superseded.latest_block_type === 'retraction' ? 'Retracted' : 'Corrected'} in #{superseded.latest_block_number}
+                              </Badge>
+                            )}
+                            {verdicts?.[block.id]?.status && (
+                              <Badge variant="outline">
+                                {verdicts[block.id].status}
+                                {verdicts[block.id].source !== 'human' && ' · provisional'}
+                              </Badge>
+                            )}
+                          </div>
+                        </div>
+                        <p className="text-sm font-medium line-clamp-2">"{block.statement}"</p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          — {block.speaker} · {new Date(block.created_at).toLocaleDateString()}
+                        </p>
+                      </Link>
+                    </li>
+                  )
+                })}
+              </ul>
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">
+                No blocks have been recorded yet.
+              </div>
+            )}
+
+            <div className="flex items-center justify-between mt-6">
+              <Button variant="outline" size="sm" onClick={() => goToPage(page - 1)} disabled={page <= 1}>
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Newer
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {page} of {totalPages}
+              </span>
+              <Button variant="outline" size="sm" onClick={() => goToPage(page + 1)} disabled={page >= totalPages}>
+                Older
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {data && data.total > 0 && (
+          <LocalVerifyPanel defaultFrom={1} defaultTo={data.total} />
+        )}
+
+        <div className="mt-8 text-center">
+          <Button variant="outline" onClick={() => window.location.href = '/'}>
+            Back to Home
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
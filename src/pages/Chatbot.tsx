@@ -4,8 +4,13 @@ import { Input } from '@/components/ui/input'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { supabase } from '@/integrations/supabase/client'
-import { Send, Bot, User, ExternalLink, Shield, Clock } from 'lucide-react'
+import { Send, Bot, User, ExternalLink, Shield, Clock, Square } from 'lucide-react'
+import { Link } from 'react-router-dom'
 import { v4 as uuidv4 } from 'uuid'
+import { useCoveringCheckpoints } from '@/hooks/use-checkpoints'
+import { useBlockResolutions, supersededBy } from '@/hooks/use-resolutions'
+import SupersededNotice from '@/components/chain/SupersededNotice'
+import { readServerSentEvents } from '../../supabase/functions/_shared/sse.ts'
 
 interface Message {
   id: string
@@ -18,8 +23,23 @@ interface Message {
     date?: string
     source_url?: string
     block_hash: string
+    block_number?: number
+    // The number the answer cites it by; older messages list sources in order
+    number?: number
+    verification_status?: string | null
+    verification_source?: string | null
+    // Null when the statement matched by meaning but shares no keywords
+    keyword_rank?: number | null
+    similarity?: number | null
   }>
   confidence?: 'low' | 'medium' | 'high'
+  // Claims in the answer and the numbers of the sources they rest on
+  citations?: Array<{ quote: string, sources: number[] }>
+  // The prompt template version the answer was produced with
+  promptTemplateId?: string | null
+  promptVersion?: number | null
+  // Cut short by the user while the answer was streaming
+  stopped?: boolean
 }
 
 export default function Chatbot() {
@@ -37,6 +57,15 @@ export default function Chatbot() {
   const [sessionId, setSessionId] = useState('')
   const [isLoadingHistory, setIsLoadingHistory] = useState(true)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  // Aborting stops the answer being streamed
+  const answerAbortRef = useRef<AbortController | null>(null)
+  const { data: checkpoints } = useCoveringCheckpoints(
+    messages.flatMap(message => message.sources?.map(source => source.block_number) ?? [])
+  )
+  // Cited statements may have been corrected or retracted since the answer was given
+  const { data: resolutions } = useBlockResolutions(
+    messages.flatMap(message => message.sources?.map(source => source.block_hash) ?? [])
+  )
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
@@ -74,7 +103,8 @@ export default function Chatbot() {
             content: msg.content,
             timestamp: new Date(msg.created_at),
             sources: msg.sources,
-            confidence: msg.confidence as 'low' | 'medium' | 'high' | undefined
+            confidence: msg.confidence as 'low' | 'medium' | 'high' | undefined,
+            citations: msg.citations as Message['citations'] ?? undefined
           }))
           
           setMessages(historyMessages)
@@ -93,6 +123,8 @@ export default function Chatbot() {
     scrollToBottom()
   }, [messages])
 
+  useEffect(() => () => answerAbortRef.current?.abort(), [])
+
   // Store message in database
   const saveChatMessage = async (message: Message) => {
     if (!sessionId) return
@@ -106,7 +138,10 @@ export default function Chatbot() {
           message_type: message.type,
           content: message.content,
           sources: message.sources || null,
-          confidence: message.confidence || null
+          confidence: message.confidence || null,
+          citations: message.citations || null,
+          prompt_template_id: message.promptTemplateId ?? null,
+          prompt_version: message.promptVersion ?? null
         })
       
       if (error) {
@@ -136,9 +171,23 @@ export default function Chatbot() {
     // Save user message to database
     await saveChatMessage(userMessage)
 
+    const abort = new AbortController()
+    answerAbortRef.current = abort
+    let botMessage: Message = {
+      id: uuidv4(),
+      type: 'bot',
+      content: '',
+      timestamp: new Date()
+    }
+    const showBotMessage = (message: Message) => {
+      botMessage = message
+      setMessages(prev => [...prev.filter(m => m.id !== message.id), message])
+    }
+
     try {
+      // The function reads earlier turns of this session from chat_history
       const { data, error } = await supabase.functions.invoke('ask-veritas', {
-        body: { query: input.trim() }
+        body: { query: input.trim(), sessionId: sessionId || undefined, stream: true }
       })
 
       if (error) {
@@ -146,34 +195,78 @@ export default function Chatbot() {
         throw new Error('Failed to get response')
       }
 
-      const botMessage: Message = {
-        id: uuidv4(),
-        type: 'bot',
-        content: data.answer,
-        timestamp: new Date(),
-        sources: data.sources,
-        confidence: data.confidence
+      if (data instanceof Response && data.body) {
+        // Show the answer as it is written: the retrieved sources, then
+        // tokens, then the checked answer with the sources it actually cites
+        showBotMessage(botMessage)
+        let finished = false
+        for await (const event of readServerSentEvents(data.body, abort.signal)) {
+          const payload = JSON.parse(event.data)
+          if (event.event === 'sources') {
+            showBotMessage({ ...botMessage, sources: payload.sources })
+          } else if (event.event === 'token') {
+            showBotMessage({ ...botMessage, content: botMessage.content + payload.text })
+          } else if (event.event === 'done') {
+            finished = true
+            showBotMessage({
+              ...botMessage,
+              content: payload.answer,
+              sources: payload.sources,
+              confidence: payload.confidence ?? undefined,
+              citations: payload.citations,
+              promptTemplateId: payload.prompt?.templateId,
+              promptVersion: payload.prompt?.version
+            })
+          } else if (event.event === 'error') {
+            finished = true
+            console.error('Answer error:', payload.error)
+            showBotMessage({
+              ...botMessage,
+              content: payload.partial ? `${payload.partial}\n\n${payload.answer ?? ''}`.trim() : payload.answer ?? '',
+              confidence: 'low'
+            })
+          }
+        }
+
+        if (abort.signal.aborted) {
+          if (!botMessage.content) {
+            setMessages(prev => prev.filter(m => m.id !== botMessage.id))
+            return
+          }
+          showBotMessage({ ...botMessage, stopped: true })
+        } else if (!finished || !botMessage.content) {
+          throw new Error('The answer stream ended early')
+        }
+      } else {
+        showBotMessage({
+          ...botMessage,
+          content: data.answer,
+          sources: data.sources,
+          confidence: data.confidence ?? undefined,
+          citations: data.citations,
+          promptTemplateId: data.prompt?.templateId,
+          promptVersion: data.prompt?.version
+        })
       }
 
-      setMessages(prev => [...prev, botMessage])
-      
       // Save bot message to database
       await saveChatMessage(botMessage)
 
     } catch (error) {
       console.error('Chat error:', error)
       const errorMessage: Message = {
-        id: uuidv4(),
+        id: botMessage.id,
         type: 'bot',
         content: "I'm sorry, I encountered an error while processing your request. Please try again.",
         timestamp: new Date(),
         confidence: 'low'
       }
-      setMessages(prev => [...prev, errorMessage])
+      showBotMessage(errorMessage)
       
       // Save error message to database
       await saveChatMessage(errorMessage)
     } finally {
+      answerAbortRef.current = null
       setIsLoading(false)
     }
   }
@@ -284,7 +377,14 @@ export default function Chatbot() {
                         </span>
                         {message.type === 'bot' && getConfidenceBadge(message.confidence)}
                       </div>
-                      <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                      {message.content || !isLoading ? (
+                        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                      ) : (
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary" />
+                      )}
+                      {message.stopped && (
+                        <p className="text-xs text-muted-foreground italic mt-1">Stopped before the answer was finished</p>
+                      )}
                       
                       {message.sources && message.sources.length > 0 && (
                         <div className="mt-2 pt-2 border-t border-t-gray-200">
@@ -292,7 +392,16 @@ export default function Chatbot() {
                           <ul className="space-y-2">
                             {message.sources.map((source, index) => (
                               <li key={index} className="text-xs">
-                                <p className="italic">"{source.statement}"</p>
+                                <p className="italic">
+                                  <span className="not-italic font-medium">[{source.number ?? index + 1}]</span> "{source.statement}"
+                                </p>
+                                {message.citations
+                                  ?.filter(citation => citation.sources.includes(source.number ?? index + 1))
+                                  .map((citation, citationIndex) => (
+                                    <p key={citationIndex} className="text-muted-foreground">
+                                      Supports: "{citation.quote}"
+                                    </p>
+                                  ))}
                                 <p className="flex items-center gap-1">
                                   — {source.speaker}
                                   {source.source_url && (
@@ -306,6 +415,34 @@ export default function Chatbot() {
                                     </a>
                                   )}
                                 </p>
+                                <Link
+                                  to={`/chain/${source.block_hash}`}
+                                  className="font-mono text-primary hover:underline break-all"
+                                >
+                                  Block {source.block_number ? `#${source.block_number} · ` : ''}{source.block_hash.slice(0, 16)}…
+                                </Link>
+                                {source.verification_status && (
+                                  <Badge variant="outline" className="ml-2 text-xs">
+                                    {source.verification_status}
+                                    {source.verification_source !== 'human' && ' · provisional'}
+                                  </Badge>
+                                )}
+                                {source.keyword_rank === null && source.similarity != null && (
+                                  <p className="text-muted-foreground">
+                                    Matched by meaning ({Math.round(source.similarity * 100)}% similar)
+                                  </p>
+                                )}
+                                {checkpoints?.[source.block_number] && (
+                                  <p className="text-muted-foreground">
+                                    Included in checkpoint #{checkpoints[source.block_number].checkpoint_number}
+                                  </p>
+                                )}
+                                {supersededBy(resolutions?.[source.block_hash], source.block_hash) && (
+                                  <SupersededNotice
+                                    resolution={supersededBy(resolutions?.[source.block_hash], source.block_hash)}
+                                    className="mt-1"
+                                  />
+                                )}
                               </li>
                             ))}
                           </ul>
@@ -327,13 +464,20 @@ export default function Chatbot() {
                   disabled={isLoading}
                   className="flex-1"
                 />
-                <Button type="submit" disabled={isLoading || !input.trim()}>
-                  {isLoading ? (
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white" />
-                  ) : (
+                {isLoading ? (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => answerAbortRef.current?.abort()}
+                    title="Stop answering"
+                  >
+                    <Square className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button type="submit" disabled={!input.trim()}>
                     <Send className="h-4 w-4" />
-                  )}
-                </Button>
+                  </Button>
+                )}
               </form>
             </div>
           </CardContent>
@@ -22,6 +22,12 @@ const Index = () => {
           >
             Start Fact-Checking
           </button>
+          <button 
+            onClick={() => window.location.href = '/chain'}
+            className="border border-gray-600 hover:border-gray-500 text-gray-300 px-8 py-3 rounded-lg font-semibold transition-colors"
+          >
+            Explore the Chain
+          </button>
           <button 
             onClick={() => window.location.href = '/admin'}
             className="border border-gray-600 hover:border-gray-500 text-gray-300 px-8 py-3 rounded-lg font-semibold transition-colors"
@@ -0,0 +1,22 @@
+// Runs the chain audit off the main thread for large block ranges
+import { auditBlocks } from '../../supabase/functions/_shared/chain-audit.ts'
+import type { AuditWorkerMessage, AuditWorkerRequest } from '@/lib/chain-audit'
+
+const worker = self as unknown as Worker
+
+const reply = (message: AuditWorkerMessage) => worker.postMessage(message)
+
+worker.onmessage = async (event: MessageEvent<AuditWorkerRequest>) => {
+  const { rows, editorKeys, previousHash, firstBlockNumber } = event.data
+  try {
+    const result = await auditBlocks(rows, {
+      editorKeys,
+      previousHash,
+      firstBlockNumber,
+      onProgress: (checked, total) => reply({ type: 'progress', checked, total })
+    })
+    reply({ type: 'result', result })
+  } catch (error) {
+    reply({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+}
@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  ANSWER_METADATA_DELIMITER,
+  buildEnvelope,
+  createAnswerStreamFilter,
+  resolveAnswer,
+  splitAnswer,
+} from './answers.ts'
+import { createMockProvider } from './llm.ts'
+import type { ChainSource } from './retrieval.ts'
+
+function source(number: number): ChainSource {
+  return {
+    statement: `Statement ${number}`,
+    speaker: 'Speaker',
+    date: null,
+    source_url: null,
+    block_hash: `hash-${number}`,
+    block_number: number,
+    block_type: 'original',
+    original_hash: `hash-${number}`,
+    verification_status: null,
+    verification_confidence: null,
+    verification_source: null,
+    keyword_rank: number,
+    semantic_rank: null,
+    similarity: null,
+    score: 1 / number
+  }
+}
+
+const sources = [source(1), source(2)]
+const metadata = (value: unknown) => `${ANSWER_METADATA_DELIMITER}\n${JSON.stringify(value)}`
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('splitAnswer', () => {
+  it('separates the answer from its metadata', () => {
+    expect(splitAnswer(`The answer.\n${metadata({ confidence: 'HIGH' })}`)).toEqual({
+      answer: 'The answer.',
+      metadata: '{"confidence":"HIGH"}'
+    })
+  })
+
+  it('keeps the whole text when there is no metadata', () => {
+    expect(splitAnswer(' The answer. ')).toEqual({ answer: 'The answer.', metadata: null })
+  })
+})
+
+describe('createAnswerStreamFilter', () => {
+  it('never emits any part of the delimiter, however the text is split', () => {
+    const raw = `Answer [1].\n${metadata({ confidence: 'LOW', citations: [] })}`
+    for (const size of [1, 2, 5, 13]) {
+      const filter = createAnswerStreamFilter()
+      let emitted = ''
+      for (let i = 0; i < raw.length; i += size) emitted += filter.push(raw.slice(i, i + size))
+      emitted += filter.flush()
+
+      expect(emitted).toBe('Answer [1].\n')
+      expect(filter.raw).toBe(raw)
+    }
+  })
+
+  it('releases held-back text on flush when no metadata follows', () => {
+    const filter = createAnswerStreamFilter()
+    const pushed = filter.push('Ends with <<<VERITAS')
+    expect(pushed + filter.flush()).toBe('Ends with <<<VERITAS')
+  })
+})
+
+describe('buildEnvelope', () => {
+  it('keeps citations of text in the answer and lists the sources they use', () => {
+    const envelope = buildEnvelope('Prices  rose in 2024 [2].', {
+      confidence: 'HIGH',
+      citations: [{ quote: 'Prices rose in 2024', sources: [2, 2] }]
+    }, sources)
+
+    expect(envelope.confidence).toBe('high')
+    expect(envelope.citations).toEqual([{ quote: 'Prices rose in 2024', sources: [2] }])
+    expect(envelope.sources.map(s => [s.number, s.block_hash])).toEqual([[2, 'hash-2']])
+    expect(envelope.issues).toEqual([])
+  })
+
+  it('drops quotes the answer does not contain and sources that were not retrieved', () => {
+    const envelope = buildEnvelope('Prices rose [1] and fell [3].', {
+      confidence: 'LOW',
+      citations: [
+        { quote: 'Wages doubled', sources: [1] },
+        { quote: 'Prices rose', sources: [1, 7] }
+      ]
+    }, sources)
+
+    expect(envelope.citations).toEqual([{ quote: 'Prices rose', sources: [1] }])
+    expect(envelope.sources.map(s => s.number)).toEqual([1])
+    expect(envelope.issues).toEqual([
+      'Cited text is not in the answer: "Wages doubled"',
+      'Citation refers to statements that were not retrieved: 7',
+      'Answer cites [3], which was not retrieved'
+    ])
+  })
+
+  it('has no confidence without metadata', () => {
+    expect(buildEnvelope('An answer.', null, sources).confidence).toBeNull()
+  })
+})
+
+describe('resolveAnswer', () => {
+  it('uses valid metadata as given', async () => {
+    const raw = `Statement one holds [1].\n${metadata({ confidence: 'MEDIUM', citations: [{ quote: 'Statement one holds', sources: [1] }] })}`
+    const envelope = await resolveAnswer(createMockProvider(), raw, sources)
+
+    expect(envelope.answer).toBe('Statement one holds [1].')
+    expect(envelope.confidence).toBe('medium')
+    expect(envelope.citations).toHaveLength(1)
+  })
+
+  it('asks again for missing metadata and records why', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const provider = createMockProvider('mock-1', {
+      'ask-veritas-metadata': JSON.stringify({ confidence: 'LOW', citations: [] })
+    })
+    const envelope = await resolveAnswer(provider, 'An answer without metadata.', sources)
+
+    expect(envelope.confidence).toBe('low')
+    expect(envelope.issues).toEqual(['The answer has no metadata'])
+  })
+
+  it('keeps the answer without metadata when the repair fails too', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const provider = createMockProvider('mock-1', { 'ask-veritas-metadata': 'not json' })
+    const envelope = await resolveAnswer(provider, `An answer.\n${ANSWER_METADATA_DELIMITER}\n{"confidence": "SURE"}`, sources)
+
+    expect(envelope.answer).toBe('An answer.')
+    expect(envelope.confidence).toBeNull()
+    expect(envelope.issues.length).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,186 @@
+import { z } from 'https://esm.sh/zod@3.23.8'
+import { LlmError, type LlmProvider } from './llm.ts'
+import { type ChainSource, formatSources } from './retrieval.ts'
+import { CONFIDENCE_LEVELS, parseStructured, requestStructured, VerificationFormatError } from './verification.ts'
+import { quoteUntrusted, UNTRUSTED_INPUT_NOTICE } from './untrusted.ts'
+
+// The model writes its answer as Markdown, so it can be streamed as it is
+// written, and follows it with this line and a JSON object of metadata
+export const ANSWER_METADATA_DELIMITER = '<<<VERITAS-METADATA>>>'
+
+export const AnswerMetadataSchema = z.object({
+  confidence: z.enum(CONFIDENCE_LEVELS),
+  citations: z.array(z.object({
+    quote: z.string().min(1),
+    sources: z.array(z.number().int().positive()).min(1).max(10),
+  })).max(20),
+})
+
+export type AnswerMetadata = z.infer<typeof AnswerMetadataSchema>
+
+const METADATA_FORMAT = `{
+  "confidence": "HIGH" | "MEDIUM" | "LOW" (how well the answer is supported),
+  "citations": [
+    {
+      "quote": string (a claim copied word for word from your answer),
+      "sources": number[] (the numbered statements that claim rests on)
+    }
+  ] ([] if the answer cites no statements)
+}`
+
+export const ANSWER_FORMAT = `Write your answer in Markdown. Then write ${ANSWER_METADATA_DELIMITER} on a line of its own, followed by a single JSON object with exactly these keys:
+${METADATA_FORMAT}`
+
+export interface Citation {
+  quote: string
+  sources: number[]
+}
+
+// A retrieved statement the answer relies on, keeping the number it was cited by
+export interface CitedSource extends ChainSource {
+  number: number
+}
+
+// What ask-veritas returns: only what the model asserted, checked against
+// the answer text and the statements it was actually given
+export interface AnswerEnvelope {
+  answer: string
+  // Null when the model never gave a usable confidence
+  confidence: 'high' | 'medium' | 'low' | null
+  citations: Citation[]
+  sources: CitedSource[]
+  // Metadata the model got wrong and that was dropped or repaired
+  issues: string[]
+}
+
+export function splitAnswer(raw: string): { answer: string, metadata: string | null } {
+  const index = raw.indexOf(ANSWER_METADATA_DELIMITER)
+  if (index === -1) return { answer: raw.trim(), metadata: null }
+  return {
+    answer: raw.slice(0, index).trim(),
+    metadata: raw.slice(index + ANSWER_METADATA_DELIMITER.length).trim()
+  }
+}
+
+// Passes streamed text through until the metadata delimiter, holding back
+// just enough to never emit part of it
+export function createAnswerStreamFilter() {
+  let raw = ''
+  let emitted = 0
+
+  return {
+    push(text: string): string {
+      raw += text
+      const index = raw.indexOf(ANSWER_METADATA_DELIMITER)
+      const safeEnd = index !== -1 ? index : raw.length - (ANSWER_METADATA_DELIMITER.length - 1)
+      if (safeEnd <= emitted) return ''
+      const out = raw.slice(emitted, safeEnd)
+      emitted = safeEnd
+      return out
+    },
+    flush(): string {
+      if (raw.includes(ANSWER_METADATA_DELIMITER)) return ''
+      const out = raw.slice(emitted)
+      emitted = raw.length
+      return out
+    },
+    get raw() {
+      return raw
+    }
+  }
+}
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim()
+
+// Drops citations of text the answer does not contain or of statements that
+// were never retrieved, and lists the sources the answer actually refers to
+export function buildEnvelope(
+  answer: string,
+  metadata: AnswerMetadata | null,
+  sources: ChainSource[],
+  issues: string[] = []
+): AnswerEnvelope {
+  const envelopeIssues = [...issues]
+  const inRange = (number: number) => number >= 1 && number <= sources.length
+  const answerText = collapse(answer)
+
+  const citations: Citation[] = []
+  for (const citation of metadata?.citations ?? []) {
+    const quote = collapse(citation.quote)
+    if (!answerText.includes(quote)) {
+      envelopeIssues.push(`Cited text is not in the answer: "${quote.slice(0, 80)}"`)
+      continue
+    }
+    const unknown = citation.sources.filter(number => !inRange(number))
+    if (unknown.length > 0) {
+      envelopeIssues.push(`Citation refers to statements that were not retrieved: ${unknown.join(', ')}`)
+    }
+    const cited = [...new Set(citation.sources.filter(inRange))].sort((a, b) => a - b)
+    if (cited.length > 0) citations.push({ quote, sources: cited })
+  }
+
+  const referenced = new Set(citations.flatMap(citation => citation.sources))
+  for (const [, marker] of answer.matchAll(/\[(\d+)\]/g)) {
+    const number = Number(marker)
+    if (inRange(number)) referenced.add(number)
+    else envelopeIssues.push(`Answer cites [${number}], which was not retrieved`)
+  }
+
+  return {
+    answer,
+    confidence: metadata ? metadata.confidence.toLowerCase() as AnswerEnvelope['confidence'] : null,
+    citations,
+    sources: [...referenced].sort((a, b) => a - b).map(number => ({ ...sources[number - 1], number })),
+    issues: envelopeIssues
+  }
+}
+
+// Asks for the metadata alone when the model left it out or got it wrong
+async function repairMetadata(provider: LlmProvider, answer: string, sources: ChainSource[]): Promise<AnswerMetadata> {
+  const { value } = await requestStructured(
+    provider,
+    'ask-veritas-metadata',
+    [
+      { role: 'system', content: `You are a precise fact-checking assistant. Always respond with valid JSON only. ${UNTRUSTED_INPUT_NOTICE}` },
+      {
+        role: 'user',
+        content: `This answer was written from the numbered statements below.
+
+Answer:
+${quoteUntrusted('answer', answer)}
+
+Statements:
+${sources.length > 0 ? formatSources(sources) : '(none)'}
+
+Give the confidence the answer states or implies, and the claims in it that rest on the statements.
+
+Respond with a single JSON object and nothing else, with exactly these keys:
+${METADATA_FORMAT}`
+      }
+    ],
+    AnswerMetadataSchema,
+    METADATA_FORMAT,
+    { maxTokens: 600, temperature: 0 }
+  )
+  return value
+}
+
+// Turns the model's raw output into the envelope, repairing missing or
+// invalid metadata once before giving up on it
+export async function resolveAnswer(provider: LlmProvider, raw: string, sources: ChainSource[]): Promise<AnswerEnvelope> {
+  const { answer, metadata } = splitAnswer(raw)
+
+  const parsed = metadata === null
+    ? { ok: false as const, issues: ['The answer has no metadata'] }
+    : parseStructured(metadata, AnswerMetadataSchema)
+  if (parsed.ok) return buildEnvelope(answer, parsed.value, sources)
+
+  console.warn('Answer metadata rejected:', parsed.issues)
+  try {
+    return buildEnvelope(answer, await repairMetadata(provider, answer, sources), sources, parsed.issues)
+  } catch (repairError) {
+    if (!(repairError instanceof VerificationFormatError || repairError instanceof LlmError)) throw repairError
+    console.error('Failed to repair the answer metadata:', repairError.message)
+    return buildEnvelope(answer, null, sources, parsed.issues)
+  }
+}
@@ -0,0 +1,232 @@
+// Canonical block serialization for the Veritas chain.
+//
+// Every hash on the chain is computed from an explicit, versioned list of
+// row columns so that any block can be reproduced from its stored row alone.
+// This module has no Deno- or Supabase-specific imports so the same code can
+// run in edge functions, the browser and standalone tooling.
+
+export const CURRENT_HASH_VERSION = 3
+export const GENESIS_PREVIOUS_HASH = '0'
+
+// Corrections and retractions supersede an earlier block by its hash
+export type BlockType = 'statement' | 'correction' | 'retraction'
+export const BLOCK_TYPES: BlockType[] = ['statement', 'correction', 'retraction']
+
+export interface BlockRow {
+  statement: string
+  speaker: string
+  source_url: string | null
+  statement_date: string | null
+  statement_hash: string
+  previous_hash: string | null
+  block_hash: string
+  block_timestamp: string | null
+  hash_version: number | null
+  block_number: number | null
+  block_type: BlockType | null
+  supersedes_hash: string | null
+}
+
+interface BlockLayout {
+  statementFields: ReadonlyArray<keyof BlockRow>
+  blockFields: ReadonlyArray<keyof BlockRow>
+}
+
+// Canonical field order per hash version. Never edit an existing entry:
+// add a new version instead, otherwise existing blocks stop verifying.
+const BLOCK_LAYOUTS: Record<number, BlockLayout> = {
+  1: {
+    statementFields: ['statement', 'speaker', 'source_url', 'statement_date'],
+    blockFields: ['statement_hash', 'previous_hash', 'block_timestamp'],
+  },
+  2: {
+    statementFields: ['statement', 'speaker', 'source_url', 'statement_date'],
+    blockFields: ['block_number', 'statement_hash', 'previous_hash', 'block_timestamp'],
+  },
+  3: {
+    statementFields: ['block_type', 'supersedes_hash', 'statement', 'speaker', 'source_url', 'statement_date'],
+    blockFields: ['block_number', 'statement_hash', 'previous_hash', 'block_timestamp'],
+  },
+}
+
+export function isSupportedHashVersion(version: number | null): boolean {
+  return version !== null && version in BLOCK_LAYOUTS
+}
+
+// Unicode NFC, collapsed whitespace, trimmed. Empty strings become null so
+// that a missing field and an empty field hash identically.
+export function normalizeText(value: string | null | undefined): string | null {
+  if (value === null || value === undefined) return null
+  const normalized = value.normalize('NFC').replace(/\s+/g, ' ').trim()
+  return normalized === '' ? null : normalized
+}
+
+export function normalizeTimestamp(value: string | Date): string {
+  return new Date(value).toISOString()
+}
+
+export class BlockContentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BlockContentError'
+  }
+}
+
+// Year, month and day with or without zero padding; anything after the day
+// (an ISO time) is ignored, as Postgres does when casting to DATE
+const STATEMENT_DATE_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/
+
+// statement_date is a DATE column, which Postgres stores as YYYY-MM-DD. The
+// hash has to cover that form, or the stored row could never verify.
+// Empty dates are null; anything that is not a calendar date throws.
+export function canonicalStatementDate(value: string | null | undefined): string | null {
+  const text = normalizeText(value)
+  if (text === null) return null
+
+  const match = STATEMENT_DATE_PATTERN.exec(text)
+  const [year, month, day] = match ? match.slice(1, 4).map(Number) : [NaN, NaN, NaN]
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (!match || date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new BlockContentError(`Statement date ${JSON.stringify(value)} is not a date (YYYY-MM-DD)`)
+  }
+  return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`
+}
+
+export function isValidStatementDate(value: unknown): boolean {
+  if (value === null || value === undefined) return true
+  if (typeof value !== 'string') return false
+  try {
+    canonicalStatementDate(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Block ids are UUIDs; anything else would fail the uuid cast in Postgres
+const BLOCK_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export function isBlockId(value: unknown): value is string {
+  return typeof value === 'string' && BLOCK_ID_PATTERN.test(value)
+}
+
+function canonicalValue(field: keyof BlockRow, row: Partial<BlockRow>): string | number | null {
+  const value = row[field]
+  if (value === null || value === undefined) return null
+  if (field === 'block_timestamp') return normalizeTimestamp(value as string)
+  if (typeof value === 'number') return value
+  return normalizeText(String(value))
+}
+
+function layoutFor(version: number): BlockLayout {
+  const layout = BLOCK_LAYOUTS[version]
+  if (!layout) {
+    throw new Error(`Unsupported hash version: ${version}`)
+  }
+  return layout
+}
+
+export function encodeStatement(row: Partial<BlockRow>, version: number): string {
+  const values = layoutFor(version).statementFields.map(field => canonicalValue(field, row))
+  return JSON.stringify(['veritas-statement', version, ...values])
+}
+
+export function encodeBlock(row: Partial<BlockRow>, version: number): string {
+  const values = layoutFor(version).blockFields.map(field => canonicalValue(field, row))
+  return JSON.stringify(['veritas-block', version, ...values])
+}
+
+export function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(bytes)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+export async function sha256Hex(data: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(data)))
+}
+
+// The 32-bit hash add-statement used before hash versioning existed
+function legacySimpleHash(data: string): string {
+  let hash = 0
+  for (let i = 0; i < data.length; i++) {
+    hash = ((hash << 5) - hash) + data.charCodeAt(i)
+    hash = hash & hash
+  }
+  return Math.abs(hash).toString(16)
+}
+
+// Version 0 covers every block written before hash versioning. Rows from
+// verify-statement carry a SHA-256 over statement + speaker, rows from
+// add-statement a 32-bit hash that also covers the source URL.
+async function legacyStatementHash(row: BlockRow): Promise<string> {
+  if (/^[0-9a-f]{64}$/.test(row.statement_hash)) {
+    return sha256Hex(row.statement + row.speaker)
+  }
+  return legacySimpleHash(row.statement + row.speaker + (row.source_url || ''))
+}
+
+export interface RecomputedHashes {
+  statementHash: string
+  // null when the block hash cannot be reproduced from the row
+  blockHash: string | null
+}
+
+export async function recomputeHashes(row: BlockRow): Promise<RecomputedHashes> {
+  const version = row.hash_version ?? 0
+  if (version === 0) {
+    // Legacy blocks mixed an unstored Date.now() into the block hash
+    return { statementHash: await legacyStatementHash(row), blockHash: null }
+  }
+
+  const statementHash = await sha256Hex(encodeStatement(row, version))
+  const blockHash = await sha256Hex(encodeBlock({ ...row, statement_hash: statementHash }, version))
+  return { statementHash, blockHash }
+}
+
+export interface BlockContentInput {
+  statement: string
+  speaker: string
+  sourceUrl?: string | null
+  statementDate?: string | null
+  blockType?: BlockType
+  supersedesHash?: string | null
+}
+
+function normalizeContent(input: BlockContentInput) {
+  return {
+    block_type: input.blockType ?? 'statement',
+    supersedes_hash: normalizeText(input.supersedesHash),
+    statement: normalizeText(input.statement) ?? '',
+    speaker: normalizeText(input.speaker) ?? '',
+    source_url: normalizeText(input.sourceUrl),
+    statement_date: canonicalStatementDate(input.statementDate),
+  }
+}
+
+// The statement hash a new block with this content will carry. Editors sign
+// this value before submitting, since the block hash depends on the head.
+export function computeStatementHash(input: BlockContentInput): Promise<string> {
+  return sha256Hex(encodeStatement(normalizeContent(input), CURRENT_HASH_VERSION))
+}
+
+export interface NewBlockInput extends BlockContentInput {
+  previousHash: string
+  blockNumber: number
+  timestamp?: Date
+}
+
+// Builds the hashed columns of a new block at the current hash version.
+// Content is stored normalized so the row matches exactly what was hashed.
+export async function buildBlock(input: NewBlockInput): Promise<BlockRow> {
+  const row = {
+    ...normalizeContent(input),
+    previous_hash: input.previousHash,
+    block_timestamp: normalizeTimestamp(input.timestamp ?? new Date()),
+    hash_version: CURRENT_HASH_VERSION,
+    block_number: input.blockNumber,
+    statement_hash: '',
+    block_hash: '',
+  }
+  row.statement_hash = await computeStatementHash(input)
+  row.block_hash = await sha256Hex(encodeBlock(row, CURRENT_HASH_VERSION))
+  return row
+}
@@ -0,0 +1,136 @@
+// Walks a contiguous range of blocks and recomputes every hash, link and
+// signature. verify-chain runs it over the whole chain on the server; the
+// block explorer runs the same code in the browser (or a web worker) so
+// readers do not have to take the server's word for it.
+// Like block.ts this module is runtime-agnostic.
+
+import { type BlockRow, GENESIS_PREVIOUS_HASH, isSupportedHashVersion, recomputeHashes } from './block.ts'
+import { checkBlockSignature, type EditorKey, type SignedBlock } from './signatures.ts'
+
+// Columns the audit needs; callers select exactly these from veritas_chain
+export const AUDIT_COLUMNS = 'id, statement, speaker, source_url, statement_date, statement_hash, previous_hash, block_hash, block_timestamp, hash_version, block_number, block_type, supersedes_hash, signer_key_id, signature, signed_at, created_at'
+
+export type AuditRow = BlockRow & SignedBlock & {
+  id: string
+}
+
+export interface BlockMismatch {
+  index: number
+  id: string
+  block_number: number | null
+  block_hash: string
+  problems: string[]
+}
+
+export interface BrokenLink {
+  index: number
+  id: string
+  block_number: number | null
+  block_hash: string
+  expected_previous_hash: string
+  actual_previous_hash: string | null
+}
+
+export interface ChainAuditResult {
+  checkedBlocks: number
+  unverifiableBlocks: number
+  unsignedBlocks: number
+  firstBrokenLink: BrokenLink | null
+  mismatches: BlockMismatch[]
+}
+
+export interface ChainAuditOptions {
+  editorKeys: Map<string, EditorKey>
+  // Hash of the block just before the range; the genesis marker for a full walk
+  previousHash?: string
+  // Block number the first row is expected to carry
+  firstBlockNumber?: number
+  onProgress?: (checked: number, total: number) => void
+}
+
+const PROGRESS_INTERVAL = 50
+
+export async function auditBlocks(rows: AuditRow[], options: ChainAuditOptions): Promise<ChainAuditResult> {
+  const { editorKeys, previousHash = GENESIS_PREVIOUS_HASH, firstBlockNumber = 1, onProgress } = options
+
+  const mismatches: BlockMismatch[] = []
+  let firstBrokenLink: BrokenLink | null = null
+  let unverifiableBlocks = 0
+  let unsignedBlocks = 0
+  // Superseded blocks can only be checked when they fall inside the range
+  const fromGenesis = firstBlockNumber === 1
+  const earlierBlockTypes = new Map<string, string>()
+
+  for (let index = 0; index < rows.length; index++) {
+    const row = rows[index]
+    const problems: string[] = []
+
+    if (row.block_number !== firstBlockNumber + index) {
+      problems.push('block_number_gap')
+    }
+
+    const version = row.hash_version ?? 0
+    if (version !== 0 && !isSupportedHashVersion(version)) {
+      problems.push('unsupported_hash_version')
+    } else {
+      const recomputed = await recomputeHashes(row)
+      if (recomputed.statementHash !== row.statement_hash) {
+        problems.push('statement_hash_mismatch')
+      }
+      if (recomputed.blockHash === null) {
+        unverifiableBlocks++
+      } else if (recomputed.blockHash !== row.block_hash) {
+        problems.push('block_hash_mismatch')
+      }
+    }
+
+    const expectedPreviousHash = index === 0 ? previousHash : rows[index - 1].block_hash
+    if ((row.previous_hash || GENESIS_PREVIOUS_HASH) !== expectedPreviousHash) {
+      problems.push('previous_hash_mismatch')
+      if (!firstBrokenLink) {
+        firstBrokenLink = {
+          index,
+          id: row.id,
+          block_number: row.block_number,
+          block_hash: row.block_hash,
+          expected_previous_hash: expectedPreviousHash,
+          actual_previous_hash: row.previous_hash
+        }
+      }
+    }
+
+    // A correction or retraction must supersede an earlier, non-retracted block
+    if (row.supersedes_hash) {
+      const supersededType = earlierBlockTypes.get(row.supersedes_hash)
+      if (!supersededType) {
+        if (fromGenesis) problems.push('supersedes_unknown_block')
+      } else if (supersededType === 'retraction') {
+        problems.push('supersedes_retraction')
+      }
+    }
+    earlierBlockTypes.set(row.block_hash, row.block_type ?? 'statement')
+
+    let signatureStatus
+    try {
+      signatureStatus = await checkBlockSignature(row, editorKeys)
+    } catch (signatureError) {
+      console.warn(`Malformed signature on block ${row.block_number}:`, signatureError)
+      signatureStatus = 'invalid'
+    }
+    if (signatureStatus === 'unsigned') {
+      unsignedBlocks++
+    } else if (signatureStatus !== 'valid') {
+      problems.push(`signature_${signatureStatus}`)
+    }
+
+    if (problems.length > 0) {
+      mismatches.push({ index, id: row.id, block_number: row.block_number, block_hash: row.block_hash, problems })
+    }
+
+    if (onProgress && ((index + 1) % PROGRESS_INTERVAL === 0 || index === rows.length - 1)) {
+      onProgress(index + 1, rows.length)
+    }
+  }
+
+  return { checkedBlocks: rows.length, unverifiableBlocks, unsignedBlocks, firstBrokenLink, mismatches }
+}
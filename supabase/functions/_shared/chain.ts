@@ -0,0 +1,58 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { buildBlock, GENESIS_PREVIOUS_HASH, type NewBlockInput } from './block.ts'
+
+const MAX_APPEND_ATTEMPTS = 5
+
+// Postgres error codes append_veritas_block uses to reject a stale head
+const RETRYABLE_APPEND_CODES = ['40001', '23505']
+
+export class ChainConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ChainConflictError'
+  }
+}
+
+export type AppendBlockInput = Omit<NewBlockInput, 'previousHash' | 'blockNumber'>
+
+// Appends a block through the append_veritas_block database function, which
+// serializes writers and rejects any block whose parent is no longer the
+// head. The block is rebuilt on top of the new head and retried when another
+// writer got there first. `extra` carries unhashed columns to store with it.
+export async function appendBlock(
+  supabase: SupabaseClient,
+  input: AppendBlockInput,
+  extra: Record<string, unknown> = {}
+) {
+  for (let attempt = 1; attempt <= MAX_APPEND_ATTEMPTS; attempt++) {
+    const { data: head, error: headError } = await supabase
+      .from('veritas_chain')
+      .select('block_hash, block_number')
+      .order('block_number', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (headError) throw headError
+
+    const block = await buildBlock({
+      ...input,
+      previousHash: head?.block_hash ?? GENESIS_PREVIOUS_HASH,
+      blockNumber: (head?.block_number ?? 0) + 1
+    })
+
+    const { data, error } = await supabase.rpc('append_veritas_block', {
+      p_block: { ...extra, ...block }
+    })
+
+    if (!error) {
+      // Callers return the block to clients; the vector is only for search
+      const { embedding: _embedding, ...stored } = data
+      return stored
+    }
+
+    if (!RETRYABLE_APPEND_CODES.includes(error.code)) throw error
+    console.warn(`Chain head moved during append (attempt ${attempt}):`, error.message)
+  }
+
+  throw new ChainConflictError('The chain head kept moving while appending; please retry')
+}
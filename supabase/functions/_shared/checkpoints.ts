@@ -0,0 +1,125 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { type MerkleProofStep, merkleProof, merkleRoot } from './merkle.ts'
+
+const PAGE_SIZE = 1000
+
+// A checkpoint is taken automatically once this many blocks are uncovered
+export const CHECKPOINT_INTERVAL = Number(Deno.env.get('CHECKPOINT_INTERVAL') ?? '100')
+
+export interface Checkpoint {
+  id: string
+  checkpoint_number: number
+  first_block_number: number
+  last_block_number: number
+  block_count: number
+  merkle_root: string
+  created_at: string
+}
+
+export async function fetchBlockHashes(
+  supabase: SupabaseClient,
+  firstBlockNumber: number,
+  lastBlockNumber: number
+): Promise<string[]> {
+  const hashes: string[] = []
+  for (let from = firstBlockNumber; from <= lastBlockNumber; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('veritas_chain')
+      .select('block_hash')
+      .gte('block_number', from)
+      .lte('block_number', Math.min(from + PAGE_SIZE - 1, lastBlockNumber))
+      .order('block_number', { ascending: true })
+
+    if (error) throw error
+    hashes.push(...data.map((row: { block_hash: string }) => row.block_hash))
+  }
+  return hashes
+}
+
+export async function latestCheckpoint(supabase: SupabaseClient): Promise<Checkpoint | null> {
+  const { data, error } = await supabase
+    .from('veritas_checkpoints')
+    .select('*')
+    .order('checkpoint_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+// Seals every block since the previous checkpoint under a new Merkle root.
+// Returns null when fewer than `minBlocks` blocks are uncovered, or when a
+// concurrent caller created the same checkpoint first.
+export async function createCheckpoint(
+  supabase: SupabaseClient,
+  minBlocks = 1
+): Promise<Checkpoint | null> {
+  const previous = await latestCheckpoint(supabase)
+  const firstBlockNumber = (previous?.last_block_number ?? 0) + 1
+
+  const { data: head, error: headError } = await supabase
+    .from('veritas_chain')
+    .select('block_number')
+    .order('block_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (headError) throw headError
+  if (!head || head.block_number - firstBlockNumber + 1 < minBlocks) return null
+
+  const blockHashes = await fetchBlockHashes(supabase, firstBlockNumber, head.block_number)
+
+  const { data, error } = await supabase
+    .from('veritas_checkpoints')
+    .insert({
+      checkpoint_number: (previous?.checkpoint_number ?? 0) + 1,
+      first_block_number: firstBlockNumber,
+      last_block_number: head.block_number,
+      block_count: blockHashes.length,
+      merkle_root: await merkleRoot(blockHashes)
+    })
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === '23505') return null
+    throw error
+  }
+  return data
+}
+
+export interface InclusionProof {
+  checkpoint: Checkpoint
+  leafIndex: number
+  proof: MerkleProofStep[]
+}
+
+// Null when the block has not been sealed in a checkpoint yet
+export async function buildInclusionProof(
+  supabase: SupabaseClient,
+  blockNumber: number
+): Promise<InclusionProof | null> {
+  const { data: checkpoint, error } = await supabase
+    .from('veritas_checkpoints')
+    .select('*')
+    .lte('first_block_number', blockNumber)
+    .gte('last_block_number', blockNumber)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!checkpoint) return null
+
+  const blockHashes = await fetchBlockHashes(
+    supabase,
+    checkpoint.first_block_number,
+    checkpoint.last_block_number
+  )
+  const leafIndex = blockNumber - checkpoint.first_block_number
+  return { checkpoint, leafIndex, proof: await merkleProof(blockHashes, leafIndex) }
+}
+
+// Called after every append; only checkpoints once a full interval is due
+export function checkpointIfDue(supabase: SupabaseClient): Promise<Checkpoint | null> {
+  return createCheckpoint(supabase, CHECKPOINT_INTERVAL)
+}
@@ -0,0 +1,114 @@
+import { z } from 'https://esm.sh/zod@3.23.8'
+import type { LlmProvider } from './llm.ts'
+import type { ConsensusSummary } from './consensus.ts'
+import { CONFIDENCE_LEVELS, requestStructured, VERIFICATION_STATUSES, type Verification } from './verification.ts'
+import { quoteUntrusted, UNTRUSTED_INPUT_NOTICE } from './untrusted.ts'
+
+// Claims beyond this are dropped; each one costs a model call (or a panel's worth)
+export const MAX_CLAIMS = Number(Deno.env.get('VERIFICATION_MAX_CLAIMS') ?? '6')
+
+export const ClaimsSchema = z.object({
+  claims: z.array(z.string().min(1)).min(1).max(20),
+})
+
+export const CLAIMS_FORMAT = `Respond with a single JSON object and nothing else, with exactly this key:
+{
+  "claims": string[] (each an atomic, self-contained factual claim; at least one)
+}`
+
+export interface StatementContext {
+  statement: string
+  speaker?: string | null
+  statementDate?: string | null
+  sourceUrl?: string | null
+}
+
+// Splits a statement into claims that can each be checked on their own
+export async function extractClaims(provider: LlmProvider, context: StatementContext): Promise<string[]> {
+  const prompt = `Split this statement into atomic factual claims that can each be verified on their own.
+
+Statement: ${quoteUntrusted('statement', context.statement)}
+Speaker: ${context.speaker ? quoteUntrusted('speaker', context.speaker) : 'Unknown'}
+Date: ${context.statementDate ? quoteUntrusted('date', context.statementDate) : 'Unknown'}
+
+Rules:
+- One checkable fact per claim; split "and"-joined facts apart
+- Make each claim self-contained: replace pronouns with who or what they refer to
+- Leave out opinions, questions and predictions that cannot be checked
+- If the statement is already a single claim, return it unchanged
+
+${CLAIMS_FORMAT}`
+
+  const { value } = await requestStructured(
+    provider,
+    'extract-claims',
+    [
+      { role: 'system', content: `You are a professional fact-checker. Always respond with valid JSON only. ${UNTRUSTED_INPUT_NOTICE}` },
+      { role: 'user', content: prompt }
+    ],
+    ClaimsSchema,
+    CLAIMS_FORMAT,
+    { maxTokens: 800, temperature: 0 }
+  )
+
+  return [...new Set(value.claims.map(claim => claim.trim()))].slice(0, MAX_CLAIMS)
+}
+
+export interface ClaimVerdict {
+  claim: string
+  status: Verification['status']
+  confidence: Verification['confidence']
+  // Facts the verdict rests on
+  evidence: string[]
+  issues: string[]
+  context: string
+  recommendation: string
+  reasoning: string
+  model: string
+  consensus: ConsensusSummary | null
+}
+
+export function toClaimVerdict(
+  claim: string,
+  verification: Verification,
+  model: string,
+  consensus: ConsensusSummary | null
+): ClaimVerdict {
+  const { status, confidence, keyFacts, issues, context, recommendation, reasoning } = verification
+  return { claim, status, confidence, evidence: keyFacts, issues, context, recommendation, reasoning, model, consensus }
+}
+
+// Any disputed claim disputes the statement; it is verified only when every
+// claim is. A disputed statement takes the confidence of its most confidently
+// disputed claim, any other the confidence of its least certain claim.
+export function deriveStatementVerdict(claims: ClaimVerdict[]): Verification {
+  const disputed = claims.filter(claim => claim.status === 'DISPUTED')
+  const status: Verification['status'] = disputed.length > 0
+    ? 'DISPUTED'
+    : claims.every(claim => claim.status === 'VERIFIED') ? 'VERIFIED' : 'UNVERIFIED'
+
+  const byConfidence = (claim: ClaimVerdict) => CONFIDENCE_LEVELS.indexOf(claim.confidence)
+  const confidence = status === 'DISPUTED'
+    ? [...disputed].sort((a, b) => byConfidence(a) - byConfidence(b))[0].confidence
+    : [...claims].sort((a, b) => byConfidence(b) - byConfidence(a))[0].confidence
+
+  const counts = VERIFICATION_STATUSES
+    .map(candidate => [candidate, claims.filter(claim => claim.status === candidate).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([candidate, count]) => `${count} ${candidate.toLowerCase()}`)
+    .join(', ')
+
+  return {
+    status,
+    confidence,
+    keyFacts: [...new Set(claims.flatMap(claim => claim.evidence))].slice(0, 10),
+    issues: claims
+      .flatMap((claim, i) => claim.issues.map(issue => `Claim ${i + 1}: ${issue}`))
+      .slice(0, 10),
+    context: [...new Set(claims.map(claim => claim.context).filter(Boolean))].join(' '),
+    recommendation: status === 'DISPUTED'
+      ? `Do not trust this statement as a whole: ${disputed.length} of ${claims.length} claims are disputed.`
+      : claims.map(claim => claim.recommendation).find(Boolean) ?? '',
+    reasoning: `Derived from ${claims.length} claims (${counts}).`
+  }
+}
@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { aggregateVerdicts, requestConsensus, type ConsensusVote } from './consensus.ts'
+import { createMockProvider } from './llm.ts'
+import type { Verification } from './verification.ts'
+
+function verdict(status: Verification['status'], confidence: Verification['confidence'] = 'HIGH'): Verification {
+  return {
+    status,
+    confidence,
+    keyFacts: [`${status} fact`],
+    issues: [`${status} issue`],
+    context: `${status} context`,
+    recommendation: `${status} recommendation`,
+    reasoning: `${status} reasoning`
+  }
+}
+
+function vote(model: string, verification?: Verification, weight = 1): ConsensusVote {
+  return verification ? { model, weight, verification } : { model, weight, error: 'Timed out' }
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('aggregateVerdicts', () => {
+  it('follows a clear majority at the agreement level', () => {
+    const { verification, consensus } = aggregateVerdicts([
+      vote('a', verdict('VERIFIED')),
+      vote('b', verdict('VERIFIED')),
+      vote('c', verdict('DISPUTED'))
+    ], 'majority')
+
+    expect(consensus.reached).toBe(true)
+    expect(consensus.agreement).toBeCloseTo(2 / 3)
+    expect(verification.status).toBe('VERIFIED')
+    expect(verification.confidence).toBe('MEDIUM')
+    expect(verification.keyFacts).toEqual(['VERIFIED fact'])
+    expect(verification.issues).toEqual(['VERIFIED issue', 'DISPUTED issue'])
+  })
+
+  it('is unverified at low confidence without a majority', () => {
+    const { verification, consensus } = aggregateVerdicts([
+      vote('a', verdict('VERIFIED')),
+      vote('b', verdict('DISPUTED'))
+    ], 'majority')
+
+    expect(consensus.reached).toBe(false)
+    expect(verification.status).toBe('UNVERIFIED')
+    expect(verification.confidence).toBe('LOW')
+    expect(verification.reasoning).toContain('No consensus under the majority policy')
+  })
+
+  it('never exceeds the confidence of the most confident agreeing model', () => {
+    const { verification } = aggregateVerdicts([
+      vote('a', verdict('DISPUTED', 'LOW')),
+      vote('b', verdict('DISPUTED', 'MEDIUM'))
+    ], 'majority')
+
+    expect(verification.status).toBe('DISPUTED')
+    expect(verification.confidence).toBe('MEDIUM')
+  })
+
+  it('weighs votes by model weight and confidence', () => {
+    const votes = [
+      vote('a', verdict('VERIFIED', 'HIGH'), 3),
+      vote('b', verdict('DISPUTED', 'HIGH')),
+      vote('c', verdict('DISPUTED', 'LOW'))
+    ]
+
+    expect(aggregateVerdicts(votes, 'majority').verification.status).toBe('DISPUTED')
+    const { verification, consensus } = aggregateVerdicts(votes, 'weighted')
+    expect(verification.status).toBe('VERIFIED')
+    expect(consensus.agreement).toBeCloseTo(3 / (3 + 1 + 1 / 3))
+  })
+
+  it('needs every model to answer and agree when unanimous', () => {
+    const agreeing = [vote('a', verdict('VERIFIED')), vote('b', verdict('VERIFIED'))]
+    expect(aggregateVerdicts(agreeing, 'unanimous').verification).toMatchObject({ status: 'VERIFIED', confidence: 'HIGH' })
+
+    const { verification, consensus } = aggregateVerdicts([...agreeing, vote('c')], 'unanimous')
+    expect(consensus.reached).toBe(false)
+    expect(verification.status).toBe('UNVERIFIED')
+    expect(verification.reasoning).toContain('1 of 3 models failed')
+  })
+
+  it('lets failed models abstain under majority', () => {
+    const { verification, consensus } = aggregateVerdicts([
+      vote('a', verdict('DISPUTED')),
+      vote('b', verdict('DISPUTED')),
+      vote('c')
+    ], 'majority')
+
+    expect(verification.status).toBe('DISPUTED')
+    expect(consensus.votes[2]).toMatchObject({ model: 'c', status: null, error: 'Timed out' })
+  })
+})
+
+describe('requestConsensus', () => {
+  const messages = [{ role: 'user' as const, content: 'Verify this statement.' }]
+  const panelMember = (model: string, response: string, weight = 1) => ({
+    provider: createMockProvider(model, { 'verify-statement': response }),
+    weight
+  })
+
+  it('asks every model on the panel', async () => {
+    const { verification, consensus } = await requestConsensus([
+      panelMember('one', JSON.stringify(verdict('DISPUTED'))),
+      panelMember('two', JSON.stringify(verdict('DISPUTED'))),
+      panelMember('three', JSON.stringify(verdict('VERIFIED')))
+    ], messages, 'majority')
+
+    expect(verification.status).toBe('DISPUTED')
+    expect(consensus.votes.map(v => v.model)).toEqual(['mock/one', 'mock/two', 'mock/three'])
+  })
+
+  it('counts a model that never returns a valid verdict as an abstention', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const { verification, consensus } = await requestConsensus([
+      panelMember('one', JSON.stringify(verdict('VERIFIED'))),
+      panelMember('two', 'not json')
+    ], messages, 'majority')
+
+    expect(verification.status).toBe('VERIFIED')
+    expect(consensus.votes[1].error).toBe('The model did not return a valid verification')
+  })
+
+  it('rethrows when no model answers', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    await expect(requestConsensus([
+      panelMember('one', 'not json'),
+      panelMember('two', 'still not json')
+    ], messages, 'majority')).rejects.toThrow('did not return a valid verification')
+  })
+})
@@ -0,0 +1,161 @@
+// Combines verdicts from several models into one.
+//
+//   majority   the status more than half of the answering models chose
+//   weighted   as majority, but each vote counts its model's weight times
+//              its own confidence (HIGH 1, MEDIUM 2/3, LOW 1/3)
+//   unanimous  every configured model answered and chose the same status
+//
+// Without a consensus the verdict is UNVERIFIED at LOW confidence. With one,
+// confidence follows the agreement level and never exceeds the confidence of
+// the most confident agreeing model.
+
+import type { ChatMessage, WeightedProvider } from './llm.ts'
+import {
+  CONFIDENCE_LEVELS,
+  requestVerification,
+  VERIFICATION_STATUSES,
+  type Verification,
+} from './verification.ts'
+
+export const CONSENSUS_POLICIES = ['majority', 'weighted', 'unanimous'] as const
+export type ConsensusPolicy = typeof CONSENSUS_POLICIES[number]
+
+type Status = Verification['status']
+type Confidence = Verification['confidence']
+
+export interface ConsensusVote {
+  model: string
+  weight: number
+  verification?: Verification
+  // Why the model did not answer, if it did not
+  error?: string
+}
+
+export interface ConsensusSummary {
+  policy: ConsensusPolicy
+  reached: boolean
+  // Share of counted weight behind the final status, 0 to 1
+  agreement: number
+  votes: {
+    model: string
+    weight: number
+    status: Status | null
+    confidence: Confidence | null
+    reasoning: string | null
+    error: string | null
+  }[]
+}
+
+export interface ConsensusResult {
+  verification: Verification
+  consensus: ConsensusSummary
+}
+
+const CONFIDENCE_WEIGHT: Record<Confidence, number> = { HIGH: 1, MEDIUM: 2 / 3, LOW: 1 / 3 }
+
+function confidenceFor(agreement: number): Confidence {
+  if (agreement >= 0.999) return 'HIGH'
+  if (agreement >= 2 / 3) return 'MEDIUM'
+  return 'LOW'
+}
+
+function lowerConfidence(a: Confidence, b: Confidence): Confidence {
+  return CONFIDENCE_LEVELS.indexOf(a) >= CONFIDENCE_LEVELS.indexOf(b) ? a : b
+}
+
+function unique(items: string[], limit: number): string[] {
+  return [...new Set(items.map(item => item.trim()).filter(Boolean))].slice(0, limit)
+}
+
+export function aggregateVerdicts(votes: ConsensusVote[], policy: ConsensusPolicy): ConsensusResult {
+  const answered = votes.filter((vote): vote is ConsensusVote & { verification: Verification } => !!vote.verification)
+
+  const voteWeight = (vote: ConsensusVote & { verification: Verification }) =>
+    policy === 'weighted' ? vote.weight * CONFIDENCE_WEIGHT[vote.verification.confidence] : 1
+
+  const tally = new Map<Status, number>(VERIFICATION_STATUSES.map(status => [status, 0]))
+  for (const vote of answered) {
+    tally.set(vote.verification.status, tally.get(vote.verification.status)! + voteWeight(vote))
+  }
+  const total = [...tally.values()].reduce((sum, weight) => sum + weight, 0)
+  const [leader, leaderWeight] = [...tally.entries()].sort((a, b) => b[1] - a[1])[0]
+  const agreement = total > 0 ? leaderWeight / total : 0
+
+  const reached = policy === 'unanimous'
+    ? answered.length === votes.length && agreement === 1
+    : agreement > 0.5
+
+  const agreeing = answered.filter(vote => vote.verification.status === leader)
+  const bestConfidence = agreeing
+    .map(vote => vote.verification.confidence)
+    .sort((a, b) => CONFIDENCE_LEVELS.indexOf(a) - CONFIDENCE_LEVELS.indexOf(b))[0]
+
+  const status: Status = reached ? leader : 'UNVERIFIED'
+  const confidence: Confidence = reached ? lowerConfidence(confidenceFor(agreement), bestConfidence) : 'LOW'
+
+  // Facts and context come from the models that back the verdict; issues
+  // from every model, since a dissenting concern is still worth reading
+  const backing = reached ? agreeing : answered
+  const split = VERIFICATION_STATUSES
+    .filter(candidate => tally.get(candidate)! > 0)
+    .map(candidate => `${candidate} ${answered.filter(vote => vote.verification.status === candidate).length}`)
+    .join(', ')
+
+  const verification: Verification = {
+    status,
+    confidence,
+    keyFacts: unique(backing.flatMap(vote => vote.verification.keyFacts), 10),
+    issues: unique(answered.flatMap(vote => vote.verification.issues), 10),
+    context: backing[0]?.verification.context ?? '',
+    recommendation: reached
+      ? backing[0].verification.recommendation
+      : 'The models disagree; treat this statement as unverified until it is reviewed.',
+    reasoning: `${reached ? 'Consensus' : 'No consensus'} under the ${policy} policy ` +
+      `(${Math.round(agreement * 100)}% agreement; ${split || 'no answers'}` +
+      `${answered.length < votes.length ? `; ${votes.length - answered.length} of ${votes.length} models failed` : ''}).`
+  }
+
+  return {
+    verification,
+    consensus: {
+      policy,
+      reached,
+      agreement,
+      votes: votes.map(vote => ({
+        model: vote.model,
+        weight: vote.weight,
+        status: vote.verification?.status ?? null,
+        confidence: vote.verification?.confidence ?? null,
+        reasoning: vote.verification?.reasoning ?? null,
+        error: vote.error ?? null
+      }))
+    }
+  }
+}
+
+// Asks every model in the panel in parallel. Models that fail count as
+// abstentions; if none answers, the first failure is rethrown.
+export async function requestConsensus(
+  panel: WeightedProvider[],
+  messages: ChatMessage[],
+  policy: ConsensusPolicy,
+  options: { maxTokens?: number, temperature?: number } = {}
+): Promise<ConsensusResult> {
+  const results = await Promise.allSettled(
+    panel.map(({ provider }) => requestVerification(provider, messages, options))
+  )
+
+  if (results.every(result => result.status === 'rejected')) {
+    throw (results[0] as PromiseRejectedResult).reason
+  }
+
+  const votes = results.map((result, i): ConsensusVote => {
+    const { provider, weight } = panel[i]
+    const model = `${provider.name}/${provider.model}`
+    if (result.status === 'fulfilled') return { model, weight, verification: result.value.verification }
+    console.warn(`Consensus vote from ${model} failed:`, result.reason)
+    return { model, weight, error: result.reason instanceof Error ? result.reason.message : String(result.reason) }
+  })
+
+  return aggregateVerdicts(votes, policy)
+}
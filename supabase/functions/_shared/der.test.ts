@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import {
+  decodeGeneralizedTime,
+  decodeOid,
+  decodeSmallInteger,
+  DerError,
+  encodeGeneralizedTime,
+  encodeOctetString,
+  encodeOid,
+  encodeSequence,
+  encodeUnsignedInteger,
+  readChildren,
+  readTlv,
+  TAG,
+} from './der.ts'
+
+describe('encoding', () => {
+  it('encodes an OID the way other ASN.1 tools do', () => {
+    // SHA-256, as it appears in every RFC 3161 request
+    expect(Array.from(encodeOid('2.16.840.1.101.3.4.2.1'))).toEqual([
+      0x06, 0x09, 0x60, 0x86, 0x48, 0x01, 0x65, 0x03, 0x04, 0x02, 0x01
+    ])
+  })
+
+  it('keeps unsigned integers positive and minimal', () => {
+    expect(Array.from(encodeUnsignedInteger(0))).toEqual([0x02, 0x01, 0x00])
+    expect(Array.from(encodeUnsignedInteger(128))).toEqual([0x02, 0x02, 0x00, 0x80])
+    expect(Array.from(encodeUnsignedInteger(Uint8Array.of(0, 0, 0x7f)))).toEqual([0x02, 0x01, 0x7f])
+  })
+
+  it('uses long-form lengths past 127 bytes', () => {
+    const encoded = encodeOctetString(new Uint8Array(300))
+    expect(Array.from(encoded.subarray(0, 4))).toEqual([0x04, 0x82, 0x01, 0x2c])
+    expect(readTlv(encoded).value.length).toBe(300)
+  })
+})
+
+describe('decoding', () => {
+  it('round-trips OIDs', () => {
+    for (const oid of ['1.2.840.113549.1.7.2', '2.999.3161', '0.9.2342']) {
+      expect(decodeOid(readTlv(encodeOid(oid)).value)).toBe(oid)
+    }
+  })
+
+  it('round-trips GeneralizedTime to the millisecond', () => {
+    const date = new Date('2025-07-23T09:12:48.123Z')
+    expect(decodeGeneralizedTime(readTlv(encodeGeneralizedTime(date)).value)).toEqual(date)
+  })
+
+  it('accepts GeneralizedTime without fractional seconds', () => {
+    const value = new TextEncoder().encode('20250723091248Z')
+    expect(decodeGeneralizedTime(value)).toEqual(new Date('2025-07-23T09:12:48Z'))
+  })
+
+  it('refuses GeneralizedTime with a local offset', () => {
+    const value = new TextEncoder().encode('20250723091248+0200')
+    expect(() => decodeGeneralizedTime(value)).toThrow(DerError)
+  })
+
+  it('reads the children of a sequence in order', () => {
+    const sequence = readTlv(encodeSequence(encodeUnsignedInteger(1), encodeUnsignedInteger(513)))
+    expect(sequence.tag).toBe(TAG.SEQUENCE)
+    expect(readChildren(sequence.value).map(child => decodeSmallInteger(child.value))).toEqual([1, 513])
+  })
+
+  it('refuses truncated elements', () => {
+    const encoded = encodeOctetString(new Uint8Array(10))
+    expect(() => readTlv(encoded.subarray(0, 1))).toThrow('Truncated')
+    expect(() => readTlv(encoded.subarray(0, 8))).toThrow('runs past the end')
+  })
+
+  it('refuses indefinite lengths and high tag numbers', () => {
+    expect(() => readTlv(Uint8Array.of(0x30, 0x80, 0x00, 0x00))).toThrow('Unsupported DER length')
+    expect(() => readTlv(Uint8Array.of(0x1f, 0x01, 0x00))).toThrow('High tag numbers')
+  })
+})
@@ -0,0 +1,190 @@
+// Just enough ASN.1 DER to build and read RFC 3161 timestamp messages.
+// Definite-length encodings only, which is all DER allows.
+// Like block.ts this module is runtime-agnostic.
+
+export const TAG = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OBJECT_IDENTIFIER: 0x06,
+  GENERALIZED_TIME: 0x18,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+} as const
+
+// Constructed, context-specific tag [n]
+export function contextTag(n: number): number {
+  return 0xa0 | n
+}
+
+function encodeLength(length: number): Uint8Array {
+  if (length < 0x80) return Uint8Array.of(length)
+  const bytes: number[] = []
+  for (let rest = length; rest > 0; rest = Math.floor(rest / 256)) {
+    bytes.unshift(rest & 0xff)
+  }
+  return Uint8Array.of(0x80 | bytes.length, ...bytes)
+}
+
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+export function encodeTlv(tag: number, value: Uint8Array): Uint8Array {
+  return concatBytes(Uint8Array.of(tag), encodeLength(value.length), value)
+}
+
+export function encodeSequence(...items: Uint8Array[]): Uint8Array {
+  return encodeTlv(TAG.SEQUENCE, concatBytes(...items))
+}
+
+export function encodeSet(...items: Uint8Array[]): Uint8Array {
+  return encodeTlv(TAG.SET, concatBytes(...items))
+}
+
+export function encodeBoolean(value: boolean): Uint8Array {
+  return encodeTlv(TAG.BOOLEAN, Uint8Array.of(value ? 0xff : 0x00))
+}
+
+export function encodeNull(): Uint8Array {
+  return encodeTlv(TAG.NULL, new Uint8Array())
+}
+
+export function encodeOctetString(value: Uint8Array): Uint8Array {
+  return encodeTlv(TAG.OCTET_STRING, value)
+}
+
+// Non-negative integers given as big-endian bytes (e.g. a random nonce)
+export function encodeUnsignedInteger(value: Uint8Array | number): Uint8Array {
+  let bytes = typeof value === 'number' ? bigEndianBytes(value) : value
+  let start = 0
+  while (start < bytes.length - 1 && bytes[start] === 0) start++
+  bytes = bytes.slice(start)
+  if (bytes.length === 0) bytes = Uint8Array.of(0)
+  // A leading 1 bit would make the integer negative
+  if (bytes[0] & 0x80) bytes = concatBytes(Uint8Array.of(0), bytes)
+  return encodeTlv(TAG.INTEGER, bytes)
+}
+
+function bigEndianBytes(value: number): Uint8Array {
+  const bytes: number[] = []
+  for (let rest = value; rest > 0; rest = Math.floor(rest / 256)) {
+    bytes.unshift(rest & 0xff)
+  }
+  return Uint8Array.from(bytes)
+}
+
+export function encodeOid(oid: string): Uint8Array {
+  const [first, second, ...rest] = oid.split('.').map(Number)
+  const bytes: number[] = []
+  for (const arc of [first * 40 + second, ...rest]) {
+    const chunk: number[] = [arc & 0x7f]
+    for (let value = Math.floor(arc / 128); value > 0; value = Math.floor(value / 128)) {
+      chunk.unshift(0x80 | (value & 0x7f))
+    }
+    bytes.push(...chunk)
+  }
+  return encodeTlv(TAG.OBJECT_IDENTIFIER, Uint8Array.from(bytes))
+}
+
+// GeneralizedTime in UTC with millisecond precision, e.g. 20250723091248.123Z
+export function encodeGeneralizedTime(date: Date): Uint8Array {
+  const iso = date.toISOString()
+  const text = iso.slice(0, 19).replace(/[-:T]/g, '') + iso.slice(19, 23) + 'Z'
+  return encodeTlv(TAG.GENERALIZED_TIME, new TextEncoder().encode(text))
+}
+
+export interface Tlv {
+  tag: number
+  value: Uint8Array
+  // Full encoding including tag and length, for re-hashing or re-emitting
+  raw: Uint8Array
+}
+
+export class DerError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DerError'
+  }
+}
+
+export function readTlv(bytes: Uint8Array, offset = 0): Tlv & { end: number } {
+  if (offset + 2 > bytes.length) throw new DerError('Truncated DER element')
+  const tag = bytes[offset]
+  if ((tag & 0x1f) === 0x1f) throw new DerError('High tag numbers are not supported')
+
+  let length = bytes[offset + 1]
+  let headerLength = 2
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7f
+    if (lengthBytes === 0 || lengthBytes > 4) throw new DerError('Unsupported DER length')
+    length = 0
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + bytes[offset + 2 + i]
+    }
+    headerLength += lengthBytes
+  }
+
+  const end = offset + headerLength + length
+  if (end > bytes.length) throw new DerError('DER element runs past the end of its parent')
+  return {
+    tag,
+    value: bytes.subarray(offset + headerLength, end),
+    raw: bytes.subarray(offset, end),
+    end
+  }
+}
+
+// Children of a constructed element (SEQUENCE, SET or [n])
+export function readChildren(value: Uint8Array): Tlv[] {
+  const children: Tlv[] = []
+  for (let offset = 0; offset < value.length;) {
+    const child = readTlv(value, offset)
+    children.push(child)
+    offset = child.end
+  }
+  return children
+}
+
+export function expectTag(tlv: Tlv | undefined, tag: number, what: string): Tlv {
+  if (!tlv || tlv.tag !== tag) throw new DerError(`Expected ${what}`)
+  return tlv
+}
+
+export function decodeOid(value: Uint8Array): string {
+  const arcs: number[] = []
+  let arc = 0
+  for (const byte of value) {
+    arc = arc * 128 + (byte & 0x7f)
+    if (!(byte & 0x80)) {
+      arcs.push(arc)
+      arc = 0
+    }
+  }
+  const [first, ...rest] = arcs
+  const head = first < 80 ? [Math.floor(first / 40), first % 40] : [2, first - 80]
+  return [...head, ...rest].join('.')
+}
+
+export function decodeSmallInteger(value: Uint8Array): number {
+  return value.reduce((total, byte) => total * 256 + byte, 0)
+}
+
+export function decodeGeneralizedTime(value: Uint8Array): Date {
+  const text = new TextDecoder().decode(value)
+  const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(?:[.,](\d+))?Z$/.exec(text)
+  if (!match) throw new DerError(`Unsupported GeneralizedTime ${text}`)
+  const [, year, month, day, hour, minute, second, fraction = '0'] = match
+  return new Date(Date.UTC(
+    Number(year), Number(month) - 1, Number(day),
+    Number(hour), Number(minute), Number(second),
+    Math.round(Number(`0.${fraction}`) * 1000)
+  ))
+}
@@ -0,0 +1,44 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+
+// Thresholds for near-duplicates; exact duplicates are always reported
+const MIN_TEXT_SIMILARITY = Number(Deno.env.get('DUPLICATE_MIN_TEXT_SIMILARITY') ?? '0.6')
+const MIN_SEMANTIC_SIMILARITY = Number(Deno.env.get('DUPLICATE_MIN_SEMANTIC_SIMILARITY') ?? '0.9')
+
+// An earlier block that may record the same statement
+export interface DuplicateMatch {
+  id: string
+  block_hash: string
+  block_number: number
+  block_type: string
+  statement: string
+  speaker: string
+  source_url: string | null
+  statement_date: string | null
+  // exact: same statement and speaker once case, punctuation and spacing
+  // are ignored; near: similar wording or meaning, from any speaker
+  match_type: 'exact' | 'near'
+  same_speaker: boolean
+  text_similarity: number
+  semantic_similarity: number | null
+}
+
+// `embedding` is only compared with vectors from `embeddingModel`
+export async function findDuplicateStatements(
+  supabase: SupabaseClient,
+  statement: string,
+  speaker: string,
+  embedding: string | null,
+  embeddingModel: string | null
+): Promise<DuplicateMatch[]> {
+  const { data, error } = await supabase.rpc('find_duplicate_statements', {
+    p_statement: statement,
+    p_speaker: speaker,
+    p_embedding: embedding,
+    p_embedding_model: embeddingModel,
+    p_min_text_similarity: MIN_TEXT_SIMILARITY,
+    p_min_semantic_similarity: MIN_SEMANTIC_SIMILARITY
+  })
+
+  if (error) throw error
+  return data ?? []
+}
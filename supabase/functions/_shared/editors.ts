@@ -0,0 +1,203 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { computeStatementHash, type BlockContentInput } from './block.ts'
+import {
+  checkpointSignaturePayload,
+  type EditorKey,
+  keyStatusAt,
+  type PromptTemplateChange,
+  promptTemplateSignaturePayload,
+  type ReviewDecision,
+  reviewSignaturePayload,
+  signaturePayload,
+  type VerificationRequest,
+  verificationRequestSignaturePayload,
+  verifyPayloadSignature
+} from './signatures.ts'
+
+export async function loadEditorKeys(supabase: SupabaseClient): Promise<Map<string, EditorKey>> {
+  const { data, error } = await supabase
+    .from('editor_keys')
+    .select('key_id, editor_name, public_key, valid_from, valid_until, revoked_at')
+
+  if (error) throw error
+  return new Map(data.map((key: EditorKey) => [key.key_id, key]))
+}
+
+export type SignatureCheck =
+  | { ok: true }
+  | { ok: false; status: number; error: string }
+
+// Whether the request carries the service role key, as scheduled jobs and
+// other functions calling this one do, rather than an editor's signature
+export function hasServiceRole(req: Request): boolean {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  return !!serviceRoleKey && req.headers.get('Authorization') === `Bearer ${serviceRoleKey}`
+}
+
+// How long after signing a signature is accepted, and how far ahead of the
+// server's clock an editor's may run
+const SIGNATURE_MAX_AGE_MS = 5 * 60 * 1000
+const SIGNATURE_CLOCK_SKEW_MS = 60 * 1000
+
+// Confirms that `signature` is a currently valid editor key's signature
+// over `payload`, made within the last few minutes and not used before.
+// The signature is recorded as used once it checks out.
+async function authorizeEditorKey(
+  supabase: SupabaseClient,
+  payload: Uint8Array,
+  signerKeyId: string | undefined,
+  signature: string | undefined,
+  signedAt: string | undefined,
+  purpose: string,
+  mismatchError: string
+): Promise<SignatureCheck> {
+  if (!signerKeyId || !signature) {
+    return { ok: false, status: 401, error: 'An editor signature is required' }
+  }
+
+  const signedTime = typeof signedAt === 'string' ? new Date(signedAt).getTime() : NaN
+  if (Number.isNaN(signedTime)) {
+    return { ok: false, status: 400, error: 'signedAt must be the ISO time the signature was made' }
+  }
+  const age = Date.now() - signedTime
+  if (age > SIGNATURE_MAX_AGE_MS || age < -SIGNATURE_CLOCK_SKEW_MS) {
+    return { ok: false, status: 403, error: 'The signature has expired or is dated in the future; sign again' }
+  }
+
+  const { data: key, error } = await supabase
+    .from('editor_keys')
+    .select('key_id, public_key, valid_from, valid_until, revoked_at')
+    .eq('key_id', signerKeyId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!key) {
+    return { ok: false, status: 403, error: `Unknown signing key: ${signerKeyId}` }
+  }
+
+  const keyStatus = keyStatusAt(key, new Date())
+  if (keyStatus !== 'valid') {
+    return { ok: false, status: 403, error: `Signing key ${signerKeyId} is ${keyStatus.replace(/_/g, ' ')}` }
+  }
+
+  let valid = false
+  try {
+    valid = await verifyPayloadSignature(key.public_key, signature, payload)
+  } catch (verifyError) {
+    console.warn('Malformed signature or key:', verifyError)
+  }
+
+  if (!valid) {
+    return { ok: false, status: 403, error: mismatchError }
+  }
+
+  // Signatures are public once stored, so each one is only good once
+  const { error: useError } = await supabase
+    .from('editor_signature_uses')
+    .insert({ signature, signer_key_id: signerKeyId, purpose })
+
+  if (useError) {
+    if (useError.code === '23505') {
+      return { ok: false, status: 409, error: 'This signature has already been used; sign again' }
+    }
+    throw useError
+  }
+  return { ok: true }
+}
+
+// Confirms that `signature` is a currently valid editor key's signature over
+// the statement hash the submitted content will be appended with.
+export async function authorizeEditorSignature(
+  supabase: SupabaseClient,
+  content: BlockContentInput,
+  signerKeyId: string | undefined,
+  signature: string | undefined,
+  signedAt: string | undefined
+): Promise<SignatureCheck> {
+  const statementHash = await computeStatementHash(content)
+  return authorizeEditorKey(
+    supabase,
+    signaturePayload(statementHash, typeof signedAt === 'string' ? signedAt : null),
+    signerKeyId,
+    signature,
+    signedAt,
+    'block',
+    'Signature does not match the submitted statement'
+  )
+}
+
+// Confirms that a reviewer's action on a verdict review was signed by a
+// currently valid editor key
+export async function authorizeReviewSignature(
+  supabase: SupabaseClient,
+  decision: ReviewDecision,
+  signerKeyId: string | undefined,
+  signature: string | undefined
+): Promise<SignatureCheck> {
+  return authorizeEditorKey(
+    supabase,
+    reviewSignaturePayload(decision),
+    signerKeyId,
+    signature,
+    decision.signedAt,
+    'review',
+    'Signature does not match the submitted review decision'
+  )
+}
+
+// Confirms that a change to the prompt template registry was signed by a
+// currently valid editor key
+export async function authorizePromptTemplateSignature(
+  supabase: SupabaseClient,
+  change: PromptTemplateChange,
+  signerKeyId: string | undefined,
+  signature: string | undefined
+): Promise<SignatureCheck> {
+  return authorizeEditorKey(
+    supabase,
+    promptTemplateSignaturePayload(change),
+    signerKeyId,
+    signature,
+    change.signedAt,
+    'prompt_template',
+    'Signature does not match the submitted prompt template change'
+  )
+}
+
+// Confirms that recording a new verdict for a block was requested with a
+// currently valid editor key
+export async function authorizeVerificationSignature(
+  supabase: SupabaseClient,
+  request: VerificationRequest,
+  signerKeyId: string | undefined,
+  signature: string | undefined
+): Promise<SignatureCheck> {
+  return authorizeEditorKey(
+    supabase,
+    verificationRequestSignaturePayload(request),
+    signerKeyId,
+    signature,
+    request.signedAt,
+    'verification',
+    'Signature does not match the verification request'
+  )
+}
+
+// Confirms that an on-demand checkpoint was requested with a currently
+// valid editor key
+export async function authorizeCheckpointSignature(
+  supabase: SupabaseClient,
+  signerKeyId: string | undefined,
+  signature: string | undefined,
+  signedAt: string | undefined
+): Promise<SignatureCheck> {
+  return authorizeEditorKey(
+    supabase,
+    checkpointSignaturePayload(typeof signedAt === 'string' ? signedAt : ''),
+    signerKeyId,
+    signature,
+    signedAt,
+    'checkpoint',
+    'Signature does not match the checkpoint request'
+  )
+}
@@ -0,0 +1,157 @@
+// Statement embeddings for semantic search, chosen through env:
+//
+//   EMBEDDING_PROVIDER  mistral | openai | mock; unset disables embeddings
+//   EMBEDDING_MODEL     defaults to mistral-embed for mistral
+//   EMBEDDING_BASE_URL  OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+//   EMBEDDING_API_KEY   bearer token; falls back to LLM_API_KEY, and to
+//                       MISTRAL_API_KEY for mistral
+//
+// Every provider must return EMBEDDING_DIMENSIONS values, the size of the
+// veritas_chain.embedding column, or null for a text with nothing to embed.
+// The mock hashes words and word trigrams into a vector, so statements
+// sharing words are similar, with no network.
+
+import { LlmError, stableHash } from './llm.ts'
+
+export const EMBEDDING_DIMENSIONS = 1024
+
+const MISTRAL_BASE_URL = 'https://api.mistral.ai/v1'
+const OPENAI_BASE_URL = 'https://api.openai.com/v1'
+const REQUEST_TIMEOUT_MS = Number(Deno.env.get('LLM_TIMEOUT_MS') ?? '60000')
+
+export interface EmbeddingProvider {
+  name: string
+  model: string
+  embed(texts: string[]): Promise<(number[] | null)[]>
+}
+
+// The embedding_model recorded with a vector and searched by
+export function embeddingModelName(provider: EmbeddingProvider): string {
+  return `${provider.name}/${provider.model}`
+}
+
+function createOpenAiCompatibleEmbeddings(name: string, baseUrl: string, model: string, apiKey?: string): EmbeddingProvider {
+  return {
+    name,
+    model,
+    async embed(texts) {
+      let response: Response
+      try {
+        response = await fetch(`${baseUrl.replace(/\/+$/, '')}/embeddings`, {
+          method: 'POST',
+          headers: {
+            ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            model,
+            input: texts,
+            // Mistral's embeddings are fixed at 1024; OpenAI's can be shortened
+            ...(name === 'openai' ? { dimensions: EMBEDDING_DIMENSIONS } : {})
+          }),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+        })
+      } catch (fetchError) {
+        throw new LlmError(`Failed to connect to ${name} embeddings`, 'network', undefined, String(fetchError))
+      }
+
+      if (!response.ok) {
+        throw new LlmError(`${name} embeddings returned an error`, 'http', response.status, await response.text())
+      }
+
+      const data = await response.json().catch(() => null)
+      const vectors = data?.data?.map((item: { embedding: number[] }) => item.embedding)
+      if (!Array.isArray(vectors) || vectors.length !== texts.length) {
+        throw new LlmError(`Unexpected response structure from ${name} embeddings`, 'invalid_response', undefined, data)
+      }
+      if (vectors.some((vector: number[]) => vector?.length !== EMBEDDING_DIMENSIONS)) {
+        throw new LlmError(
+          `${name}/${model} does not produce ${EMBEDDING_DIMENSIONS}-dimensional embeddings`,
+          'invalid_response'
+        )
+      }
+      return vectors
+    }
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+}
+
+export function createMockEmbeddings(model = 'mock-embed-1'): EmbeddingProvider {
+  // A text without words would hash to the zero vector, whose cosine
+  // distance to anything is NaN
+  const embedOne = (text: string) => {
+    const words = tokenize(text)
+    if (words.length === 0) return null
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0)
+    for (const word of words) {
+      const features = [word]
+      for (let i = 0; i + 3 <= word.length; i++) features.push(`#${word.slice(i, i + 3)}`)
+      for (const feature of features) {
+        const hash = stableHash(feature)
+        vector[hash % EMBEDDING_DIMENSIONS] += (hash & 0x80000000) ? -1 : 1
+      }
+    }
+    const norm = Math.hypot(...vector)
+    return norm ? vector.map(value => value / norm) : null
+  }
+
+  return {
+    name: 'mock',
+    model,
+    embed(texts) {
+      return Promise.resolve(texts.map(embedOne))
+    }
+  }
+}
+
+// Null when embeddings are not configured
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  const providerName = Deno.env.get('EMBEDDING_PROVIDER')
+  if (!providerName) return null
+
+  const model = Deno.env.get('EMBEDDING_MODEL')
+  const apiKey = Deno.env.get('EMBEDDING_API_KEY') ?? Deno.env.get('LLM_API_KEY')
+
+  switch (providerName) {
+    case 'mistral': {
+      const mistralApiKey = apiKey ?? Deno.env.get('MISTRAL_API_KEY')
+      if (!mistralApiKey) throw new LlmError('Mistral API key not configured', 'configuration')
+      return createOpenAiCompatibleEmbeddings('mistral', MISTRAL_BASE_URL, model ?? 'mistral-embed', mistralApiKey)
+    }
+    case 'openai': {
+      if (!model) throw new LlmError('EMBEDDING_MODEL is required for the openai provider', 'configuration')
+      return createOpenAiCompatibleEmbeddings('openai', Deno.env.get('EMBEDDING_BASE_URL') ?? OPENAI_BASE_URL, model, apiKey)
+    }
+    case 'mock':
+      return createMockEmbeddings(model)
+    default:
+      throw new LlmError(`Unknown EMBEDDING_PROVIDER "${providerName}"`, 'configuration')
+  }
+}
+
+// pgvector accepts the JSON array notation
+export function toPgVector(vector: number[]): string {
+  return JSON.stringify(vector)
+}
+
+// Columns to append with a new block. Embedding is best effort: a block is
+// never held back for it, and ones stored without can be backfilled. A
+// statement with nothing to embed records only the model, so the backfill
+// does not try it again.
+export async function statementEmbeddingColumns(statement: string): Promise<{ embedding?: string, embedding_model?: string }> {
+  try {
+    const provider = getEmbeddingProvider()
+    if (!provider) return {}
+    const [vector] = await provider.embed([statement])
+    return {
+      ...(vector ? { embedding: toPgVector(vector) } : {}),
+      embedding_model: embeddingModelName(provider)
+    }
+  } catch (embeddingError) {
+    console.error('Failed to embed statement:', embeddingError)
+    return {}
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { createMockProvider, stableHash } from './llm.ts'
+import { parseVerification } from './verification.ts'
+
+const messages = [{ role: 'user' as const, content: 'Verify: the sky is blue.' }]
+
+async function collect(stream: AsyncIterable<string>): Promise<string> {
+  let text = ''
+  for await (const chunk of stream) text += chunk
+  return text
+}
+
+describe('createMockProvider', () => {
+  it('gives the same answer to the same prompt', async () => {
+    const first = await createMockProvider().complete({ task: 'verify-statement', messages })
+    const second = await createMockProvider().complete({ task: 'verify-statement', messages })
+    expect(first.content).toBe(second.content)
+    expect(first).toMatchObject({ provider: 'mock', model: 'mock-1' })
+  })
+
+  it('answers verifications in the format the verifier expects', async () => {
+    for (const model of ['mock-1', 'mock-2', 'mock-3']) {
+      const { content } = await createMockProvider(model).complete({ task: 'verify-statement', messages })
+      expect(parseVerification(content).ok).toBe(true)
+    }
+  })
+
+  it('replays canned responses in order, repeating the last', async () => {
+    const provider = createMockProvider('mock-1', { 'verify-statement': ['first', 'second'] })
+    const replies = []
+    for (let i = 0; i < 3; i++) replies.push((await provider.complete({ task: 'verify-statement', messages })).content)
+    expect(replies).toEqual(['first', 'second', 'second'])
+  })
+
+  it('streams the same text it completes', async () => {
+    const provider = createMockProvider()
+    const request = { task: 'ask-veritas', messages }
+    expect(await collect(provider.stream(request))).toBe((await provider.complete(request)).content)
+  })
+
+  it('stops streaming once aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const text = await collect(createMockProvider().stream({ task: 'ask-veritas', messages, signal: controller.signal }))
+    expect(text).toBe('')
+  })
+})
+
+describe('stableHash', () => {
+  it('is FNV-1a', () => {
+    expect(stableHash('')).toBe(0x811c9dc5)
+    expect(stableHash('a')).toBe(0xe40c292c)
+  })
+})
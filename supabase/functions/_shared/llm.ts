@@ -0,0 +1,352 @@
+// Chat-completion providers behind one interface, chosen through env:
+//
+//   LLM_PROVIDER    mistral (default) | openai | mock
+//   LLM_MODEL       model name; defaults to mistral-small-latest for mistral
+//   LLM_BASE_URL    OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+//                   for Ollama or http://localhost:8080/v1 for llama.cpp
+//   LLM_API_KEY     bearer token; MISTRAL_API_KEY is still honoured for mistral
+//   LLM_TIMEOUT_MS  per-request timeout, 60s by default
+//   LLM_JSON_MODE   set to false for servers that reject response_format
+//
+// Providers can also stream a completion as text deltas, which ask-veritas
+// relays to the Chatbot; aborting the request's signal stops generation.
+//
+// Consensus verification fans out to the models in LLM_CONSENSUS_MODELS, a
+// JSON array of provider configs such as
+//   [{"provider": "mistral", "model": "mistral-large-latest", "weight": 2},
+//    {"provider": "openai", "model": "gpt-4o-mini", "apiKeyEnv": "OPENAI_API_KEY"}]
+// where apiKeyEnv names the variable holding that model's key.
+//
+// The mock provider needs no network and answers deterministically per task,
+// so the functions can run offline and in tests.
+
+import { readServerSentEvents } from './sse.ts'
+import { readUntrusted } from './untrusted.ts'
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface CompletionRequest {
+  // Names the caller (e.g. 'verify-statement') so the mock can answer in kind
+  task: string
+  messages: ChatMessage[]
+  maxTokens?: number
+  temperature?: number
+  // Ask for a single JSON object; providers without JSON mode ignore it
+  json?: boolean
+  signal?: AbortSignal
+}
+
+export interface Completion {
+  content: string
+  provider: string
+  model: string
+}
+
+export interface LlmProvider {
+  name: string
+  model: string
+  supportsJsonMode: boolean
+  complete(request: CompletionRequest): Promise<Completion>
+  // Yields the completion's text as it is generated
+  stream(request: CompletionRequest): AsyncIterable<string>
+}
+
+export type LlmErrorKind = 'configuration' | 'network' | 'http' | 'invalid_response'
+
+export class LlmError extends Error {
+  kind: LlmErrorKind
+  status?: number
+  details?: unknown
+
+  constructor(message: string, kind: LlmErrorKind, status?: number, details?: unknown) {
+    super(message)
+    this.name = 'LlmError'
+    this.kind = kind
+    this.status = status
+    this.details = details
+  }
+}
+
+const MISTRAL_BASE_URL = 'https://api.mistral.ai/v1'
+const MISTRAL_DEFAULT_MODEL = 'mistral-small-latest'
+const OPENAI_BASE_URL = 'https://api.openai.com/v1'
+const REQUEST_TIMEOUT_MS = Number(Deno.env.get('LLM_TIMEOUT_MS') ?? '60000')
+
+interface OpenAiCompatibleOptions {
+  name: string
+  baseUrl: string
+  model: string
+  apiKey?: string
+  jsonMode?: boolean
+}
+
+// Mistral, OpenAI, Ollama, llama.cpp and vLLM all speak this protocol
+export function createOpenAiCompatibleProvider({ name, baseUrl, model, apiKey, jsonMode = true }: OpenAiCompatibleOptions): LlmProvider {
+  const post = async ({ messages, maxTokens, temperature, json, signal }: CompletionRequest, stream: boolean) => {
+    const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    let response: Response
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          max_tokens: maxTokens,
+          temperature,
+          ...(stream ? { stream: true } : {}),
+          ...(json && jsonMode ? { response_format: { type: 'json_object' } } : {})
+        }),
+        signal: signal ? AbortSignal.any([timeout, signal]) : timeout
+      })
+    } catch (fetchError) {
+      throw new LlmError(`Failed to connect to ${name}`, 'network', undefined, String(fetchError))
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      let details: unknown
+      try {
+        details = JSON.parse(errorText)
+      } catch {
+        details = errorText
+      }
+      throw new LlmError(`${name} returned an error`, 'http', response.status, details)
+    }
+    return response
+  }
+
+  return {
+    name,
+    model,
+    supportsJsonMode: jsonMode,
+    async complete(request) {
+      const response = await post(request, false)
+
+      let data
+      try {
+        data = await response.json()
+      } catch {
+        throw new LlmError(`Invalid response from ${name}`, 'invalid_response', undefined, 'Response could not be parsed as JSON')
+      }
+
+      const content = data?.choices?.[0]?.message?.content
+      if (typeof content !== 'string' || !content) {
+        throw new LlmError(`Unexpected response structure from ${name}`, 'invalid_response', undefined, data)
+      }
+
+      return { content, provider: name, model }
+    },
+    async *stream(request) {
+      const response = await post(request, true)
+      if (!response.body) {
+        throw new LlmError(`Invalid response from ${name}`, 'invalid_response', undefined, 'Response has no body')
+      }
+
+      try {
+        for await (const { data } of readServerSentEvents(response.body, request.signal)) {
+          if (data === '[DONE]') return
+          let chunk
+          try {
+            chunk = JSON.parse(data)
+          } catch {
+            throw new LlmError(`Invalid response from ${name}`, 'invalid_response', undefined, data)
+          }
+          const delta = chunk?.choices?.[0]?.delta?.content
+          if (typeof delta === 'string' && delta) yield delta
+        }
+      } catch (streamError) {
+        if (streamError instanceof LlmError) throw streamError
+        throw new LlmError(`Lost the connection to ${name}`, 'network', undefined, String(streamError))
+      }
+    }
+  }
+}
+
+export function createMistralProvider(apiKey: string, model = MISTRAL_DEFAULT_MODEL): LlmProvider {
+  return createOpenAiCompatibleProvider({ name: 'mistral', baseUrl: MISTRAL_BASE_URL, model, apiKey, jsonMode: true })
+}
+
+// FNV-1a, so mock answers vary with the prompt but never between runs
+export function stableHash(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193) >>> 0
+  }
+  return hash
+}
+
+type MockResponder = (request: CompletionRequest, seed: number) => string
+
+const MOCK_STATUSES = ['VERIFIED', 'UNVERIFIED', 'DISPUTED']
+const MOCK_CONFIDENCES = ['HIGH', 'MEDIUM', 'LOW']
+
+const mockResponders: Record<string, MockResponder> = {
+  'verify-statement': (_request, seed) => JSON.stringify({
+    status: MOCK_STATUSES[seed % 3],
+    confidence: MOCK_CONFIDENCES[Math.floor(seed / 3) % 3],
+    keyFacts: ['Mock key fact'],
+    issues: [],
+    context: 'Generated by the mock LLM provider.',
+    recommendation: 'Mock verdict; do not rely on it.',
+    reasoning: `Deterministic mock verdict (seed ${seed}).`
+  }),
+  // One claim per sentence of the quoted statement
+  'extract-claims': (request) => {
+    const prompt = request.messages.filter(message => message.role === 'user').at(-1)?.content ?? ''
+    const statement = readUntrusted(prompt, 'statement') ?? prompt
+    return JSON.stringify({ claims: statement.split(/(?<=[.!?])\s+/).filter(sentence => sentence.trim()) })
+  },
+  'summarize-conversation': (request) => {
+    const prompt = request.messages.filter(message => message.role === 'user').at(-1)?.content ?? ''
+    const questions = prompt.split('\n\n').filter(line => line.startsWith('User: ')).length
+    return `Mock summary of ${questions} earlier question${questions === 1 ? '' : 's'}.`
+  },
+  // Markdown, then the metadata block ask-veritas asks for; cites the first
+  // recorded statement when there is one
+  'ask-veritas': (request, seed) => {
+    const prompt = request.messages.filter(message => message.role === 'user').at(-1)?.content ?? ''
+    const question = readUntrusted(prompt, 'query') ?? prompt
+    const cited = prompt.includes('\n[1] ') ? 'The first recorded statement bears on this [1].' : null
+    return `Mock answer from the **offline provider** (seed ${seed}).\n\n` +
+      `You asked about: ${question.slice(0, 200)}\n\n` +
+      `${cited ?? 'No recorded statement bears on this.'}\n` +
+      `<<<VERITAS-METADATA>>>\n` +
+      JSON.stringify({
+        confidence: MOCK_CONFIDENCES[seed % 3],
+        citations: cited ? [{ quote: cited, sources: [1] }] : []
+      })
+  },
+  'ask-veritas-metadata': (_request, seed) => JSON.stringify({
+    confidence: MOCK_CONFIDENCES[seed % 3],
+    citations: []
+  }),
+}
+
+// Canned responses per task can be pinned with LLM_MOCK_RESPONSES, a JSON
+// object such as {"verify-statement": "{\"status\": \"DISPUTED\", ...}"}.
+// A list is replayed one entry per call, repeating the last, to script retries.
+export function createMockProvider(model = 'mock-1', canned: Record<string, string | string[]> = {}): LlmProvider {
+  const calls: Record<string, number> = {}
+
+  const cannedResponse = (task: string) => {
+    const responses = canned[task]
+    if (!Array.isArray(responses)) return responses
+    calls[task] = (calls[task] ?? 0) + 1
+    return responses[Math.min(calls[task], responses.length) - 1]
+  }
+
+  const respond = (request: CompletionRequest) => {
+    // The model name is part of the seed so a panel of mocks can disagree
+    const seed = stableHash([model, ...request.messages.map(message => `${message.role}:${message.content}`)].join('\n'))
+    return cannedResponse(request.task) ??
+      mockResponders[request.task]?.(request, seed) ??
+      `Mock response for task "${request.task}" (seed ${seed}).`
+  }
+
+  return {
+    name: 'mock',
+    model,
+    supportsJsonMode: true,
+    complete(request) {
+      return Promise.resolve({ content: respond(request), provider: 'mock', model })
+    },
+    // Word by word, like a real model
+    async *stream(request) {
+      for (const word of respond(request).match(/\S+\s*|\s+/g) ?? []) {
+        if (request.signal?.aborted) return
+        yield word
+      }
+    }
+  }
+}
+
+function parseCannedResponses(raw: string | undefined): Record<string, string | string[]> {
+  if (!raw) return {}
+  try {
+    return JSON.parse(raw)
+  } catch {
+    throw new LlmError('LLM_MOCK_RESPONSES is not valid JSON', 'configuration')
+  }
+}
+
+export interface LlmProviderConfig {
+  provider: string
+  model?: string
+  baseUrl?: string
+  // Name of the env variable holding the key; LLM_API_KEY by default
+  apiKeyEnv?: string
+  jsonMode?: boolean
+}
+
+export function createLlmProvider(config: LlmProviderConfig): LlmProvider {
+  const { provider: providerName, model } = config
+  const apiKey = Deno.env.get(config.apiKeyEnv ?? 'LLM_API_KEY')
+
+  switch (providerName) {
+    case 'mistral': {
+      const mistralApiKey = apiKey ?? Deno.env.get('MISTRAL_API_KEY')
+      if (!mistralApiKey) throw new LlmError('Mistral API key not configured', 'configuration')
+      return createMistralProvider(mistralApiKey, model)
+    }
+    case 'openai': {
+      if (!model) throw new LlmError('LLM_MODEL is required for the openai provider', 'configuration')
+      return createOpenAiCompatibleProvider({
+        name: 'openai',
+        baseUrl: config.baseUrl ?? OPENAI_BASE_URL,
+        model,
+        apiKey,
+        jsonMode: config.jsonMode ?? true
+      })
+    }
+    case 'mock':
+      return createMockProvider(model, parseCannedResponses(Deno.env.get('LLM_MOCK_RESPONSES')))
+    default:
+      throw new LlmError(`Unknown LLM_PROVIDER "${providerName}"`, 'configuration')
+  }
+}
+
+export function getLlmProvider(): LlmProvider {
+  return createLlmProvider({
+    provider: Deno.env.get('LLM_PROVIDER') ?? 'mistral',
+    model: Deno.env.get('LLM_MODEL'),
+    baseUrl: Deno.env.get('LLM_BASE_URL'),
+    jsonMode: Deno.env.get('LLM_JSON_MODE') !== 'false'
+  })
+}
+
+export interface WeightedProvider {
+  provider: LlmProvider
+  weight: number
+}
+
+// The consensus panel; throws a configuration error when none is set up
+export function getConsensusProviders(): WeightedProvider[] {
+  const raw = Deno.env.get('LLM_CONSENSUS_MODELS')
+  if (!raw) throw new LlmError('LLM_CONSENSUS_MODELS is not configured', 'configuration')
+
+  let configs: (LlmProviderConfig & { weight?: number })[]
+  try {
+    configs = JSON.parse(raw)
+  } catch {
+    throw new LlmError('LLM_CONSENSUS_MODELS is not valid JSON', 'configuration')
+  }
+  if (!Array.isArray(configs) || configs.length < 2) {
+    throw new LlmError('LLM_CONSENSUS_MODELS must list at least two models', 'configuration')
+  }
+
+  return configs.map(config => {
+    const weight = config.weight ?? 1
+    if (typeof weight !== 'number' || !(weight > 0)) {
+      throw new LlmError(`Invalid consensus weight for ${config.provider}/${config.model}`, 'configuration')
+    }
+    return { provider: createLlmProvider(config), weight }
+  })
+}
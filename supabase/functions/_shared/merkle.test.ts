@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { sha256Hex } from './block.ts'
+import { merkleLeaf, merkleProof, merkleRoot, verifyMerkleProof } from './merkle.ts'
+
+const hashes = (count: number) => Array.from({ length: count }, (_, i) => `block-hash-${i + 1}`)
+
+describe('merkleRoot', () => {
+  it('is the leaf hash for a single block', async () => {
+    expect(await merkleRoot(['abc'])).toBe(await merkleLeaf('abc'))
+  })
+
+  it('prefixes leaves so a block hash is not its own leaf', async () => {
+    expect(await merkleLeaf('abc')).not.toBe(await sha256Hex('abc'))
+  })
+
+  it('depends on the order of the blocks', async () => {
+    expect(await merkleRoot(['a', 'b'])).not.toBe(await merkleRoot(['b', 'a']))
+  })
+
+  it('carries an unpaired node up instead of pairing it with itself', async () => {
+    expect(await merkleRoot(['a', 'b', 'c'])).not.toBe(await merkleRoot(['a', 'b', 'c', 'c']))
+  })
+
+  it('refuses an empty tree', async () => {
+    await expect(merkleRoot([])).rejects.toThrow('without blocks')
+  })
+})
+
+describe('merkleProof', () => {
+  it.each([1, 2, 3, 5, 8, 13])('proves every leaf of a %i-block tree', async (count) => {
+    const blocks = hashes(count)
+    const root = await merkleRoot(blocks)
+    for (const [index, blockHash] of blocks.entries()) {
+      const proof = await merkleProof(blocks, index)
+      expect(await verifyMerkleProof(blockHash, proof, root)).toBe(true)
+    }
+  })
+
+  it('stays short for a large tree', async () => {
+    const proof = await merkleProof(hashes(1000), 500)
+    expect(proof.length).toBeLessThanOrEqual(10)
+  })
+
+  it('does not prove another block or another root', async () => {
+    const blocks = hashes(5)
+    const proof = await merkleProof(blocks, 2)
+    expect(await verifyMerkleProof(blocks[3], proof, await merkleRoot(blocks))).toBe(false)
+    expect(await verifyMerkleProof(blocks[2], proof, await merkleRoot(hashes(6)))).toBe(false)
+  })
+
+  it('fails when a step is tampered with', async () => {
+    const blocks = hashes(4)
+    const proof = await merkleProof(blocks, 1)
+    const tampered = proof.map((step, i) => i === 0 ? { ...step, position: step.position === 'left' ? 'right' as const : 'left' as const } : step)
+    expect(await verifyMerkleProof(blocks[1], tampered, await merkleRoot(blocks))).toBe(false)
+  })
+
+  it('refuses an index outside the tree', async () => {
+    await expect(merkleProof(hashes(3), 3)).rejects.toThrow('outside the tree')
+  })
+})
@@ -0,0 +1,99 @@
+// Merkle trees over block hashes, used for chain checkpoints.
+//
+// Leaves are SHA-256(0x00 || block_hash) and inner nodes are
+// SHA-256(0x01 || left || right), so a leaf can never be passed off as an
+// inner node. A node without a sibling is carried up to the next level
+// unchanged rather than paired with a copy of itself.
+// Like block.ts this module is runtime-agnostic.
+
+import { toHex } from './block.ts'
+
+export interface MerkleProofStep {
+  position: 'left' | 'right'
+  hash: string
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
+}
+
+async function hashWithPrefix(prefix: number, ...parts: Uint8Array[]): Promise<string> {
+  const length = parts.reduce((sum, part) => sum + part.length, 1)
+  const buffer = new Uint8Array(length)
+  buffer[0] = prefix
+  let offset = 1
+  for (const part of parts) {
+    buffer.set(part, offset)
+    offset += part.length
+  }
+  return toHex(await crypto.subtle.digest('SHA-256', buffer))
+}
+
+export function merkleLeaf(blockHash: string): Promise<string> {
+  return hashWithPrefix(0x00, new TextEncoder().encode(blockHash))
+}
+
+function merkleNode(left: string, right: string): Promise<string> {
+  return hashWithPrefix(0x01, fromHex(left), fromHex(right))
+}
+
+async function buildLevels(blockHashes: string[]): Promise<string[][]> {
+  if (blockHashes.length === 0) {
+    throw new Error('Cannot build a Merkle tree without blocks')
+  }
+
+  const levels = [await Promise.all(blockHashes.map(merkleLeaf))]
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1]
+    const next: string[] = []
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? await merkleNode(level[i], level[i + 1]) : level[i])
+    }
+    levels.push(next)
+  }
+  return levels
+}
+
+export async function merkleRoot(blockHashes: string[]): Promise<string> {
+  const levels = await buildLevels(blockHashes)
+  return levels[levels.length - 1][0]
+}
+
+export async function merkleProof(blockHashes: string[], index: number): Promise<MerkleProofStep[]> {
+  if (index < 0 || index >= blockHashes.length) {
+    throw new Error(`Leaf index ${index} is outside the tree`)
+  }
+
+  const levels = await buildLevels(blockHashes)
+  const proof: MerkleProofStep[] = []
+  let position = index
+  for (const level of levels.slice(0, -1)) {
+    const siblingIndex = position % 2 === 0 ? position + 1 : position - 1
+    if (siblingIndex < level.length) {
+      proof.push({
+        position: siblingIndex < position ? 'left' : 'right',
+        hash: level[siblingIndex]
+      })
+    }
+    position = Math.floor(position / 2)
+  }
+  return proof
+}
+
+export async function verifyMerkleProof(
+  blockHash: string,
+  proof: MerkleProofStep[],
+  expectedRoot: string
+): Promise<boolean> {
+  let current = await merkleLeaf(blockHash)
+  for (const step of proof) {
+    current = step.position === 'left'
+      ? await merkleNode(step.hash, current)
+      : await merkleNode(current, step.hash)
+  }
+  return current === expectedRoot
+}
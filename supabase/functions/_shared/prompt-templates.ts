@@ -0,0 +1,111 @@
+// Prompt templates for the fact-check use cases, stored with versions in
+// prompt_templates and edited from Admin. Templates fill in {{variables}}
+// computed by the functions; user input arrives already quoted as untrusted,
+// and is substituted in a single pass so it can never expand a variable.
+// Like block.ts this module is runtime-agnostic, so Admin can preview.
+
+export type PromptUseCase = 'verify' | 'ask'
+export const PROMPT_USE_CASES: PromptUseCase[] = ['verify', 'ask']
+
+export interface PromptVariable {
+  name: string
+  description: string
+  // Without it the function's output cannot be parsed or is not grounded
+  required: boolean
+}
+
+export const PROMPT_VARIABLES: Record<PromptUseCase, PromptVariable[]> = {
+  verify: [
+    { name: 'subject', description: '"claim" or "statement"', required: false },
+    { name: 'input', description: 'The quoted claim and the statement it comes from, or the statement alone', required: true },
+    { name: 'speaker', description: 'The quoted speaker, or "Unknown"', required: false },
+    { name: 'date', description: 'The quoted statement date, or "Unknown"', required: false },
+    { name: 'source', description: 'The quoted source URL, or "No source provided"', required: false },
+    { name: 'format', description: 'The JSON verdict format the response is parsed with', required: true },
+  ],
+  ask: [
+    { name: 'query', description: 'The quoted user question', required: true },
+    { name: 'conversation_note', description: 'A note that the question follows earlier turns, or nothing', required: false },
+    { name: 'sources', description: 'The numbered statements retrieved from the chain, or a note that none matched', required: true },
+    { name: 'format', description: 'The answer and metadata format the response is parsed with', required: true },
+  ],
+}
+
+export interface PromptTemplateText {
+  systemPrompt: string
+  template: string
+}
+
+// Version 1 of each use case, and what the functions fall back to when no
+// template is active or the registry cannot be read
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptUseCase, PromptTemplateText> = {
+  verify: {
+    systemPrompt: 'You are a professional fact-checker. Always respond with valid JSON only.',
+    template: `As a fact-checking expert, analyze this {{subject}} for accuracy:
+
+{{input}}
+Speaker: {{speaker}}
+Date: {{date}}
+Source: {{source}}
+
+Please provide:
+1. Verification Status: VERIFIED, UNVERIFIED, or DISPUTED
+2. Confidence Level: HIGH, MEDIUM, or LOW
+3. Key Facts: List 2-3 key factual claims that can be verified
+4. Issues Found: Any factual errors, misleading context, or concerns
+5. Additional Context: Relevant background information
+6. Recommendation: Whether this {{subject}} should be trusted
+
+{{format}}`
+  },
+  ask: {
+    systemPrompt: 'You are Veritas, a precise fact-checking assistant that provides accurate information based on verified facts.',
+    template: `You are Veritas, a fact-checking assistant. A user has asked the following question{{conversation_note}}:
+
+User Query: {{query}}
+
+{{sources}}
+
+Please provide a factual response that:
+1. Directly addresses the query with accurate information
+2. Relies on the recorded statements above where they are relevant and cites them by number, e.g. [1]; say so when they do not settle the question
+3. Never attributes a quote to a speaker unless it appears in the recorded statements
+4. Never presents a provisional AI verdict as settled; only reviewed verdicts are final
+5. Acknowledges any limitations or uncertainties
+6. Is objective and unbiased
+
+Your response should be informative, helpful, and factually accurate.
+
+{{format}}`
+  },
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g
+
+export function templateVariables(template: string): string[] {
+  return [...new Set([...template.matchAll(VARIABLE_PATTERN)].map(match => match[1]))]
+}
+
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) => values[name] ?? match)
+}
+
+// Problems that would stop a template from being saved
+export function validatePromptTemplate(useCase: PromptUseCase, { systemPrompt, template }: PromptTemplateText): string[] {
+  const issues: string[] = []
+  const known = PROMPT_VARIABLES[useCase]
+  const used = templateVariables(template)
+
+  if (!systemPrompt.trim()) issues.push('The system prompt is empty')
+  if (!template.trim()) issues.push('The template is empty')
+  // Variables carry user input, which stays out of the system role
+  if (templateVariables(systemPrompt).length > 0) issues.push('The system prompt cannot use variables')
+
+  for (const name of used) {
+    if (!known.some(variable => variable.name === name)) issues.push(`Unknown variable {{${name}}}`)
+  }
+  for (const variable of known) {
+    if (variable.required && !used.includes(variable.name)) issues.push(`Missing required variable {{${variable.name}}}`)
+  }
+  return issues
+}
@@ -0,0 +1,46 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { DEFAULT_PROMPT_TEMPLATES, type PromptUseCase, renderTemplate } from './prompt-templates.ts'
+import { UNTRUSTED_INPUT_NOTICE } from './untrusted.ts'
+
+// The template a verdict or answer was produced with. `id` and `version`
+// are null when the built-in default was used.
+export interface ActivePrompt {
+  id: string | null
+  version: number | null
+  systemPrompt: string
+  template: string
+}
+
+export async function getActivePrompt(supabase: SupabaseClient, useCase: PromptUseCase): Promise<ActivePrompt> {
+  try {
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select('id, version, system_prompt, template')
+      .eq('use_case', useCase)
+      .eq('is_active', true)
+      .maybeSingle()
+
+    if (error) throw error
+    if (data) {
+      return { id: data.id, version: data.version, systemPrompt: data.system_prompt, template: data.template }
+    }
+    console.warn(`No active ${useCase} prompt template, using the built-in one`)
+  } catch (templateError) {
+    console.error(`Failed to load the ${useCase} prompt template, using the built-in one:`, templateError)
+  }
+  return { id: null, version: null, ...DEFAULT_PROMPT_TEMPLATES[useCase] }
+}
+
+// The system and user messages; the untrusted-input notice is always added,
+// whatever the template says
+export function promptMessages(prompt: ActivePrompt, values: Record<string, string>) {
+  return [
+    { role: 'system' as const, content: `${prompt.systemPrompt} ${UNTRUSTED_INPUT_NOTICE}` },
+    { role: 'user' as const, content: renderTemplate(prompt.template, values) }
+  ]
+}
+
+// Columns recording which template version was used
+export function promptColumns(prompt: ActivePrompt) {
+  return { prompt_template_id: prompt.id, prompt_version: prompt.version }
+}
@@ -0,0 +1,125 @@
+// Self-contained proof receipts for a single block.
+//
+// A receipt carries everything needed to check a statement offline: the
+// block's hashed columns, its neighbours' hashes, the signing key and the
+// Merkle inclusion proof for its checkpoint. verifyReceipt only proves the
+// receipt is internally consistent; the checkpoint root and the public key
+// should still be compared against independently published copies.
+// Like block.ts this module is runtime-agnostic.
+
+import { type BlockRow, GENESIS_PREVIOUS_HASH, isSupportedHashVersion, recomputeHashes } from './block.ts'
+import { type MerkleProofStep, verifyMerkleProof } from './merkle.ts'
+import { checkBlockSignature, type EditorKey } from './signatures.ts'
+
+export const RECEIPT_FORMAT = 'veritas-proof-receipt'
+export const RECEIPT_VERSION = 1
+
+export interface ReceiptBlock extends BlockRow {
+  id: string
+  signer_key_id: string | null
+  signature: string | null
+  // Absent from receipts of blocks signed before signatures carried a time
+  signed_at?: string | null
+  created_at: string
+}
+
+export interface ReceiptNeighbour {
+  block_number: number
+  block_hash: string
+  previous_hash: string | null
+}
+
+export interface ReceiptCheckpoint {
+  checkpoint_number: number
+  first_block_number: number
+  last_block_number: number
+  merkle_root: string
+  leaf_index: number
+  proof: MerkleProofStep[]
+}
+
+export interface ProofReceipt {
+  format: typeof RECEIPT_FORMAT
+  version: typeof RECEIPT_VERSION
+  issued_at: string
+  block: ReceiptBlock
+  previous_block: ReceiptNeighbour | null
+  next_block: ReceiptNeighbour | null
+  signing_key: EditorKey | null
+  checkpoint: ReceiptCheckpoint | null
+}
+
+export interface ReceiptCheck {
+  name: string
+  status: 'pass' | 'fail' | 'skipped'
+  detail: string
+}
+
+export async function verifyReceipt(receipt: ProofReceipt): Promise<ReceiptCheck[]> {
+  if (receipt.format !== RECEIPT_FORMAT || receipt.version !== RECEIPT_VERSION) {
+    return [{ name: 'format', status: 'fail', detail: `Not a ${RECEIPT_FORMAT} v${RECEIPT_VERSION} document` }]
+  }
+
+  const { block } = receipt
+  const checks: ReceiptCheck[] = []
+  const version = block.hash_version ?? 0
+
+  if (version !== 0 && !isSupportedHashVersion(version)) {
+    checks.push({ name: 'hashes', status: 'fail', detail: `Unsupported hash version ${version}` })
+  } else {
+    const recomputed = await recomputeHashes(block)
+    checks.push(recomputed.statementHash === block.statement_hash
+      ? { name: 'statement_hash', status: 'pass', detail: 'Statement hash matches the statement content' }
+      : { name: 'statement_hash', status: 'fail', detail: `Recomputed ${recomputed.statementHash}, receipt says ${block.statement_hash}` })
+
+    if (recomputed.blockHash === null) {
+      checks.push({ name: 'block_hash', status: 'skipped', detail: 'Legacy block (hash version 0) cannot be recomputed' })
+    } else {
+      checks.push(recomputed.blockHash === block.block_hash
+        ? { name: 'block_hash', status: 'pass', detail: `Block hash matches its fields (hash version ${version})` }
+        : { name: 'block_hash', status: 'fail', detail: `Recomputed ${recomputed.blockHash}, receipt says ${block.block_hash}` })
+    }
+  }
+
+  const expectedPrevious = receipt.previous_block?.block_hash ?? GENESIS_PREVIOUS_HASH
+  checks.push((block.previous_hash ?? GENESIS_PREVIOUS_HASH) === expectedPrevious
+    ? { name: 'previous_link', status: 'pass', detail: `Links to ${receipt.previous_block ? `block #${receipt.previous_block.block_number}` : 'genesis'}` }
+    : { name: 'previous_link', status: 'fail', detail: `Block points to ${block.previous_hash}, previous block is ${expectedPrevious}` })
+
+  if (!receipt.next_block) {
+    checks.push({ name: 'next_link', status: 'skipped', detail: 'Block was the chain head when the receipt was issued' })
+  } else {
+    checks.push(receipt.next_block.previous_hash === block.block_hash
+      ? { name: 'next_link', status: 'pass', detail: `Block #${receipt.next_block.block_number} builds on this block` }
+      : { name: 'next_link', status: 'fail', detail: `Block #${receipt.next_block.block_number} does not point to this block` })
+  }
+
+  if (!block.signature) {
+    checks.push({ name: 'signature', status: 'skipped', detail: 'Block is not signed' })
+  } else {
+    const keys = new Map<string, EditorKey>(receipt.signing_key ? [[receipt.signing_key.key_id, receipt.signing_key]] : [])
+    let status: string
+    try {
+      status = await checkBlockSignature(block, keys)
+    } catch {
+      status = 'invalid'
+    }
+    checks.push(status === 'valid'
+      ? { name: 'signature', status: 'pass', detail: `Ed25519 signature by ${block.signer_key_id} is valid` }
+      : { name: 'signature', status: 'fail', detail: `Signature check failed: ${status.replace(/_/g, ' ')}` })
+  }
+
+  if (!receipt.checkpoint) {
+    checks.push({ name: 'checkpoint', status: 'skipped', detail: 'Block was not yet sealed in a checkpoint' })
+  } else {
+    const { checkpoint } = receipt
+    const included = block.block_number !== null &&
+      block.block_number - checkpoint.first_block_number === checkpoint.leaf_index &&
+      await verifyMerkleProof(block.block_hash, checkpoint.proof, checkpoint.merkle_root)
+    checks.push(included
+      ? { name: 'checkpoint', status: 'pass', detail: `Included in checkpoint #${checkpoint.checkpoint_number} (root ${checkpoint.merkle_root})` }
+      : { name: 'checkpoint', status: 'fail', detail: `Inclusion proof does not lead to the root of checkpoint #${checkpoint.checkpoint_number}` })
+  }
+
+  return checks
+}
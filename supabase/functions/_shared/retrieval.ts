@@ -0,0 +1,115 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { embeddingModelName, getEmbeddingProvider, toPgVector } from './embeddings.ts'
+import { quoteUntrusted } from './untrusted.ts'
+
+// Statements retrieved to ground an answer
+export const RETRIEVAL_LIMIT = Number(Deno.env.get('RETRIEVAL_LIMIT') ?? '5')
+
+// Vector matches below this cosine similarity are ignored; tune per embedding model
+const MIN_SIMILARITY = Number(Deno.env.get('SEARCH_MIN_SIMILARITY') ?? '0')
+
+export const SEARCH_MODES = ['hybrid', 'keyword', 'semantic'] as const
+export type SearchMode = typeof SEARCH_MODES[number]
+
+// A chain statement as cited to the model and returned to the Chatbot
+export interface ChainSource {
+  statement: string
+  speaker: string
+  date: string | null
+  source_url: string | null
+  block_hash: string
+  block_number: number
+  block_type: string
+  // First version of the statement, when the hit was a later correction
+  original_hash: string
+  verification_status: string | null
+  verification_confidence: string | null
+  // 'ai' verdicts are provisional until a reviewer approves one ('human')
+  verification_source: string | null
+  // Positions in the keyword and vector rankings, null where it did not match
+  keyword_rank: number | null
+  semantic_rank: number | null
+  similarity: number | null
+  score: number
+}
+
+export interface SearchResult {
+  // The mode actually used; hybrid and semantic fall back to keyword
+  // search when no embedding provider is configured or it fails
+  mode: SearchMode
+  sources: ChainSource[]
+}
+
+// The query's vector and the model that made it, or null to search by
+// keyword alone
+async function embedQuery(query: string): Promise<{ embedding: string, model: string } | null> {
+  try {
+    const provider = getEmbeddingProvider()
+    if (!provider) return null
+    const [vector] = await provider.embed([query])
+    return vector ? { embedding: toPgVector(vector), model: embeddingModelName(provider) } : null
+  } catch (embeddingError) {
+    console.error('Failed to embed query, falling back to keyword search:', embeddingError)
+    return null
+  }
+}
+
+// Keyword and vector search over the latest version of every non-retracted
+// statement, fused by hybrid_search_veritas_statements
+export async function searchStatements(
+  supabase: SupabaseClient,
+  query: string,
+  { limit = RETRIEVAL_LIMIT, mode = 'hybrid' }: { limit?: number, mode?: SearchMode } = {}
+): Promise<SearchResult> {
+  const embedded = mode === 'keyword' ? null : await embedQuery(query)
+  const usedMode: SearchMode = embedded ? mode : 'keyword'
+
+  const { data, error } = await supabase.rpc('hybrid_search_veritas_statements', {
+    p_query: query,
+    p_embedding: embedded?.embedding ?? null,
+    p_embedding_model: embedded?.model ?? null,
+    p_limit: limit,
+    p_keyword_weight: usedMode === 'semantic' ? 0 : 1,
+    p_semantic_weight: 1,
+    p_min_similarity: MIN_SIMILARITY
+  })
+
+  if (error) throw error
+  return {
+    mode: usedMode,
+    sources: (data ?? []).map((row: Record<string, unknown>) => ({
+      statement: row.statement,
+      speaker: row.speaker,
+      date: row.statement_date,
+      source_url: row.source_url,
+      block_hash: row.block_hash,
+      block_number: row.block_number,
+      block_type: row.block_type,
+      original_hash: row.original_hash,
+      verification_status: row.verification_status,
+      verification_confidence: row.verification_confidence,
+      verification_source: row.verification_source,
+      keyword_rank: row.keyword_rank,
+      semantic_rank: row.semantic_rank,
+      similarity: row.similarity,
+      score: row.score
+    }) as ChainSource)
+  }
+}
+
+// Numbered so the model can cite them as [1], [2], ...; the statements and
+// speakers are quoted as untrusted input
+export function formatSources(sources: ChainSource[]): string {
+  return sources.map((source, i) => {
+    const details = [
+      source.date,
+      `block #${source.block_number}`,
+      source.block_type === 'correction' ? 'corrected statement' : null,
+      source.verification_status
+        ? `${source.verification_source === 'human' ? 'reviewed verdict' : 'provisional AI verdict'} ${source.verification_status}` +
+          `${source.verification_confidence ? ` (${source.verification_confidence} confidence)` : ''}`
+        : 'not yet verified',
+    ].filter(Boolean).join(', ')
+    return `[${i + 1}] ${quoteUntrusted('statement', source.statement)} — ${quoteUntrusted('speaker', source.speaker)} (${details})`
+  }).join('\n')
+}
@@ -0,0 +1,44 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import type { InjectionCheck } from './untrusted.ts'
+import type { Verification, VerificationFormatError } from './verification.ts'
+
+// Why an AI verdict needs a human before it can be considered final
+export type ReviewReason = 'disputed' | 'low_confidence' | 'format_error' | 'suspected_injection'
+
+export interface QueuedReview {
+  id: string
+  status: 'pending' | 'claimed' | 'approved'
+  reasons: ReviewReason[]
+}
+
+export function reviewReasons(verification: Verification, injection?: InjectionCheck): ReviewReason[] {
+  const reasons: ReviewReason[] = []
+  if (verification.status === 'DISPUTED') reasons.push('disputed')
+  if (verification.confidence === 'LOW') reasons.push('low_confidence')
+  // The input may have talked the model into its verdict
+  if (injection?.suspicious) reasons.push('suspected_injection')
+  return reasons
+}
+
+// Queues the block for review, or updates its open review with the newer
+// AI output. `verificationId` is null when the model output failed to parse.
+export async function enqueueReview(
+  supabase: SupabaseClient,
+  blockId: string,
+  verificationId: string | null,
+  reasons: ReviewReason[],
+  formatError?: VerificationFormatError
+): Promise<QueuedReview> {
+  const { data, error } = await supabase.rpc('enqueue_verification_review', {
+    p_block_id: blockId,
+    p_verification_id: verificationId,
+    p_reasons: reasons,
+    p_ai_output: formatError
+      ? { issues: formatError.issues, output: formatError.lastOutput.slice(0, 2000) }
+      : null
+  })
+
+  if (error) throw error
+  const { id, status, reasons: queuedReasons } = data as QueuedReview
+  return { id, status, reasons: queuedReasons }
+}
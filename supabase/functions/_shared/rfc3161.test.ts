@@ -0,0 +1,153 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  contextTag,
+  encodeGeneralizedTime,
+  encodeNull,
+  encodeOctetString,
+  encodeOid,
+  encodeSequence,
+  encodeSet,
+  encodeTlv,
+  encodeUnsignedInteger,
+} from './der.ts'
+import {
+  buildTimeStampRequest,
+  encodeMessageImprint,
+  fromHex,
+  OID,
+  parseTimeStampRequest,
+  parseTimeStampResponse,
+  parseTimeStampToken,
+  requestTimestamp,
+  TimestampError,
+  timestampImprint,
+} from './rfc3161.ts'
+
+const BLOCK_HASH = 'ab'.repeat(32)
+const GEN_TIME = new Date('2025-07-23T09:12:48.123Z')
+
+// Same shape as the mock-tsa function's tokens: TSTInfo inside unsigned SignedData
+function buildToken(hashedMessage: Uint8Array, nonce: Uint8Array | null): Uint8Array {
+  const tstInfo = encodeSequence(
+    encodeUnsignedInteger(1),
+    encodeOid('2.999.3161'),
+    encodeMessageImprint(hashedMessage),
+    encodeUnsignedInteger(0x0102),
+    encodeGeneralizedTime(GEN_TIME),
+    ...(nonce ? [encodeUnsignedInteger(nonce)] : [])
+  )
+  const signedData = encodeSequence(
+    encodeUnsignedInteger(3),
+    encodeSet(encodeSequence(encodeOid(OID.SHA256), encodeNull())),
+    encodeSequence(encodeOid(OID.TST_INFO), encodeTlv(contextTag(0), encodeOctetString(tstInfo))),
+    encodeSet()
+  )
+  return encodeSequence(encodeOid(OID.SIGNED_DATA), encodeTlv(contextTag(0), signedData))
+}
+
+function statusResponse(status: number, token?: Uint8Array): Uint8Array {
+  const statusInfo = encodeSequence(encodeUnsignedInteger(status))
+  return token ? encodeSequence(statusInfo, token) : encodeSequence(statusInfo)
+}
+
+// Answers requestTimestamp's fetch; `reply` may rewrite the parsed request first
+function stubTsa(reply: (request: ReturnType<typeof parseTimeStampRequest>) => Uint8Array | Response) {
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+    const body = reply(parseTimeStampRequest(init.body as Uint8Array))
+    return body instanceof Response ? body : new Response(body)
+  }))
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('timestampImprint', () => {
+  it('uses a SHA-256 block hash as-is', async () => {
+    expect(await timestampImprint(BLOCK_HASH)).toEqual(fromHex(BLOCK_HASH))
+  })
+
+  it('digests legacy hashes in other formats', async () => {
+    const imprint = await timestampImprint('legacy-hash')
+    expect(imprint.length).toBe(32)
+    expect(imprint).not.toEqual(fromHex('legacy-hash'))
+  })
+})
+
+describe('request and token parsing', () => {
+  it('round-trips a request', () => {
+    const imprint = fromHex(BLOCK_HASH)
+    const request = parseTimeStampRequest(buildTimeStampRequest(imprint, Uint8Array.of(0x81, 0x02)))
+    expect(request).toEqual({
+      hashAlgorithm: OID.SHA256,
+      hashedMessage: imprint,
+      policy: null,
+      nonce: Uint8Array.of(0x81, 0x02),
+      certReq: true
+    })
+  })
+
+  it('reads the TSTInfo fields out of a granted response', () => {
+    const imprint = fromHex(BLOCK_HASH)
+    const token = parseTimeStampResponse(statusResponse(0, buildToken(imprint, Uint8Array.of(7))))
+    expect(parseTimeStampToken(token)).toEqual({
+      policy: '2.999.3161',
+      hashAlgorithm: OID.SHA256,
+      hashedMessage: imprint,
+      serialNumber: '0102',
+      genTime: GEN_TIME,
+      nonce: Uint8Array.of(7)
+    })
+  })
+
+  it('reports the status of a rejected request', () => {
+    expect(() => parseTimeStampResponse(statusResponse(2))).toThrow('TSA rejected the request (status 2)')
+  })
+
+  it('refuses a granted response without a token', () => {
+    expect(() => parseTimeStampResponse(statusResponse(0))).toThrow('returned no token')
+  })
+})
+
+describe('requestTimestamp', () => {
+  it('returns a token that answers the request', async () => {
+    stubTsa(request => statusResponse(0, buildToken(request.hashedMessage, request.nonce)))
+    const result = await requestTimestamp('https://tsa.example', BLOCK_HASH)
+    expect(result.info.hashedMessage).toEqual(fromHex(BLOCK_HASH))
+    expect(result.info.genTime).toEqual(GEN_TIME)
+    expect(parseTimeStampToken(result.token)).toEqual(result.info)
+  })
+
+  it('refuses a token over another imprint', async () => {
+    stubTsa(request => statusResponse(0, buildToken(new Uint8Array(32), request.nonce)))
+    await expect(requestTimestamp('https://tsa.example', BLOCK_HASH)).rejects.toThrow('different message imprint')
+  })
+
+  it('refuses a token that does not echo the nonce', async () => {
+    stubTsa(request => statusResponse(0, buildToken(request.hashedMessage, Uint8Array.of(1))))
+    await expect(requestTimestamp('https://tsa.example', BLOCK_HASH)).rejects.toThrow('does not echo our nonce')
+  })
+
+  it('turns a malformed reply into a TimestampError', async () => {
+    stubTsa(() => Uint8Array.of(0x30, 0x05, 0x02))
+    await expect(requestTimestamp('https://tsa.example', BLOCK_HASH)).rejects.toThrow(TimestampError)
+    await expect(requestTimestamp('https://tsa.example', BLOCK_HASH)).rejects.toThrow('malformed response')
+  })
+
+  it('reports HTTP errors', async () => {
+    stubTsa(() => new Response('Unavailable', { status: 503 }))
+    await expect(requestTimestamp('https://tsa.example', BLOCK_HASH)).rejects.toThrow('TSA responded with HTTP 503')
+  })
+
+  it('reports network failures', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('connection refused') }))
+    await expect(requestTimestamp('https://tsa.example', BLOCK_HASH)).rejects.toThrow('Failed to reach the TSA')
+  })
+
+  it('gives up on a TSA that does not answer in time', async () => {
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(init.signal?.reason))
+    })))
+    await expect(requestTimestamp('https://tsa.example', BLOCK_HASH, {}, 20)).rejects.toThrow('did not respond within 20 ms')
+  })
+})
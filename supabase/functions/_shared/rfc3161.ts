@@ -0,0 +1,227 @@
+// RFC 3161 trusted timestamps for chain heads.
+//
+// The message imprint is the head's block hash itself (a SHA-256 digest),
+// so a TSA token over it proves the whole chain up to that block existed no
+// later than the token's genTime. We check that the token answers our
+// request (imprint and nonce); the TSA's CMS signature and certificate chain
+// are left to standard tooling such as `openssl ts -verify`.
+// Like block.ts this module is runtime-agnostic.
+
+import { sha256Hex, toHex } from './block.ts'
+import {
+  contextTag,
+  decodeGeneralizedTime,
+  decodeOid,
+  decodeSmallInteger,
+  DerError,
+  encodeBoolean,
+  encodeNull,
+  encodeOctetString,
+  encodeOid,
+  encodeSequence,
+  encodeUnsignedInteger,
+  expectTag,
+  readChildren,
+  readTlv,
+  TAG,
+  type Tlv,
+} from './der.ts'
+
+export const OID = {
+  SHA256: '2.16.840.1.101.3.4.2.1',
+  SIGNED_DATA: '1.2.840.113549.1.7.2',
+  TST_INFO: '1.2.840.113549.1.9.16.1.4',
+} as const
+
+export const TIMESTAMP_QUERY_TYPE = 'application/timestamp-query'
+export const TIMESTAMP_REPLY_TYPE = 'application/timestamp-reply'
+
+export class TimestampError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TimestampError'
+  }
+}
+
+export function fromHex(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g) ?? [], byte => parseInt(byte, 16))
+}
+
+// Current block hashes are SHA-256 hex digests and are used as-is; legacy
+// hashes in other formats are digested first.
+export async function timestampImprint(blockHash: string): Promise<Uint8Array> {
+  if (/^[0-9a-f]{64}$/.test(blockHash)) return fromHex(blockHash)
+  return fromHex(await sha256Hex(blockHash))
+}
+
+function stripLeadingZeros(bytes: Uint8Array): Uint8Array {
+  let start = 0
+  while (start < bytes.length - 1 && bytes[start] === 0) start++
+  return bytes.subarray(start)
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i])
+}
+
+export function encodeMessageImprint(hashedMessage: Uint8Array): Uint8Array {
+  return encodeSequence(
+    encodeSequence(encodeOid(OID.SHA256), encodeNull()),
+    encodeOctetString(hashedMessage)
+  )
+}
+
+function decodeMessageImprint(tlv: Tlv | undefined) {
+  const [algorithm, hashed] = readChildren(expectTag(tlv, TAG.SEQUENCE, 'MessageImprint').value)
+  const [oid] = readChildren(expectTag(algorithm, TAG.SEQUENCE, 'AlgorithmIdentifier').value)
+  return {
+    hashAlgorithm: decodeOid(expectTag(oid, TAG.OBJECT_IDENTIFIER, 'hash algorithm').value),
+    hashedMessage: expectTag(hashed, TAG.OCTET_STRING, 'hashed message').value
+  }
+}
+
+// TimeStampReq v1 asking for the TSA certificate to be included in the token
+export function buildTimeStampRequest(hashedMessage: Uint8Array, nonce: Uint8Array): Uint8Array {
+  return encodeSequence(
+    encodeUnsignedInteger(1),
+    encodeMessageImprint(hashedMessage),
+    encodeUnsignedInteger(nonce),
+    encodeBoolean(true)
+  )
+}
+
+export interface TimeStampRequest {
+  hashAlgorithm: string
+  hashedMessage: Uint8Array
+  policy: string | null
+  nonce: Uint8Array | null
+  certReq: boolean
+}
+
+export function parseTimeStampRequest(bytes: Uint8Array): TimeStampRequest {
+  const [version, imprint, ...rest] = readChildren(expectTag(readTlv(bytes), TAG.SEQUENCE, 'TimeStampReq').value)
+  if (decodeSmallInteger(expectTag(version, TAG.INTEGER, 'version').value) !== 1) {
+    throw new TimestampError('Unsupported TimeStampReq version')
+  }
+
+  const request: TimeStampRequest = { ...decodeMessageImprint(imprint), policy: null, nonce: null, certReq: false }
+  for (const field of rest) {
+    if (field.tag === TAG.OBJECT_IDENTIFIER) request.policy = decodeOid(field.value)
+    else if (field.tag === TAG.INTEGER) request.nonce = stripLeadingZeros(field.value)
+    else if (field.tag === TAG.BOOLEAN) request.certReq = field.value[0] !== 0
+  }
+  return request
+}
+
+// The TSTInfo fields we store and check; the token itself is kept verbatim
+export interface TimeStampTokenInfo {
+  policy: string
+  hashAlgorithm: string
+  hashedMessage: Uint8Array
+  serialNumber: string
+  genTime: Date
+  nonce: Uint8Array | null
+}
+
+export function parseTimeStampToken(token: Uint8Array): TimeStampTokenInfo {
+  const [contentType, signedDataWrapper] = readChildren(expectTag(readTlv(token), TAG.SEQUENCE, 'ContentInfo').value)
+  if (decodeOid(expectTag(contentType, TAG.OBJECT_IDENTIFIER, 'content type').value) !== OID.SIGNED_DATA) {
+    throw new TimestampError('Timestamp token is not CMS SignedData')
+  }
+
+  const [signedData] = readChildren(expectTag(signedDataWrapper, contextTag(0), 'SignedData').value)
+  const [, , encapContentInfo] = readChildren(expectTag(signedData, TAG.SEQUENCE, 'SignedData').value)
+  const [eContentType, eContentWrapper] = readChildren(expectTag(encapContentInfo, TAG.SEQUENCE, 'EncapsulatedContentInfo').value)
+  if (decodeOid(expectTag(eContentType, TAG.OBJECT_IDENTIFIER, 'eContentType').value) !== OID.TST_INFO) {
+    throw new TimestampError('Timestamp token does not carry a TSTInfo')
+  }
+
+  const [eContent] = readChildren(expectTag(eContentWrapper, contextTag(0), 'eContent').value)
+  const tstInfo = readTlv(expectTag(eContent, TAG.OCTET_STRING, 'eContent').value)
+  const [, policy, imprint, serialNumber, genTime, ...optional] = readChildren(expectTag(tstInfo, TAG.SEQUENCE, 'TSTInfo').value)
+
+  return {
+    policy: decodeOid(expectTag(policy, TAG.OBJECT_IDENTIFIER, 'policy').value),
+    ...decodeMessageImprint(imprint),
+    serialNumber: toHex(expectTag(serialNumber, TAG.INTEGER, 'serial number').value),
+    genTime: decodeGeneralizedTime(expectTag(genTime, TAG.GENERALIZED_TIME, 'genTime').value),
+    // accuracy is a SEQUENCE and ordering a BOOLEAN, so the only INTEGER left is the nonce
+    nonce: optional.find(field => field.tag === TAG.INTEGER)?.value ?? null
+  }
+}
+
+// PKIStatus values 0 (granted) and 1 (grantedWithMods) carry a token
+export function parseTimeStampResponse(bytes: Uint8Array): Uint8Array {
+  const [statusInfo, token] = readChildren(expectTag(readTlv(bytes), TAG.SEQUENCE, 'TimeStampResp').value)
+  const [status, statusStrings] = readChildren(expectTag(statusInfo, TAG.SEQUENCE, 'PKIStatusInfo').value)
+  const code = decodeSmallInteger(expectTag(status, TAG.INTEGER, 'PKIStatus').value)
+
+  if (code > 1) {
+    const text = statusStrings?.tag === TAG.SEQUENCE
+      ? readChildren(statusStrings.value).map(item => new TextDecoder().decode(item.value)).join('; ')
+      : ''
+    throw new TimestampError(`TSA rejected the request (status ${code}${text ? `: ${text}` : ''})`)
+  }
+  if (!token) throw new TimestampError('TSA granted the request but returned no token')
+  return new Uint8Array(token.raw)
+}
+
+export interface TimestampResult {
+  token: Uint8Array
+  info: TimeStampTokenInfo
+  nonce: Uint8Array
+}
+
+// Requests a token for the block hash and checks it answers this request.
+// Appends wait for this, so a TSA that does not answer within `timeoutMs`
+// fails like one that refuses.
+export async function requestTimestamp(
+  tsaUrl: string,
+  blockHash: string,
+  headers: Record<string, string> = {},
+  timeoutMs = 10_000
+): Promise<TimestampResult> {
+  const imprint = await timestampImprint(blockHash)
+  const nonce = crypto.getRandomValues(new Uint8Array(8))
+  nonce[0] |= 0x01 // keep the nonce free of leading zero bytes
+
+  let reply: Uint8Array
+  try {
+    const response = await fetch(tsaUrl, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': TIMESTAMP_QUERY_TYPE, 'Accept': TIMESTAMP_REPLY_TYPE },
+      body: buildTimeStampRequest(imprint, nonce),
+      signal: AbortSignal.timeout(timeoutMs)
+    })
+    if (!response.ok) {
+      throw new TimestampError(`TSA responded with HTTP ${response.status}`)
+    }
+    reply = new Uint8Array(await response.arrayBuffer())
+  } catch (fetchError) {
+    if (fetchError instanceof TimestampError) throw fetchError
+    throw new TimestampError(fetchError instanceof DOMException && fetchError.name === 'TimeoutError'
+      ? `TSA did not respond within ${timeoutMs} ms`
+      : `Failed to reach the TSA: ${fetchError}`)
+  }
+
+  let token: Uint8Array
+  let info: TimeStampTokenInfo
+  try {
+    token = parseTimeStampResponse(reply)
+    info = parseTimeStampToken(token)
+  } catch (parseError) {
+    if (parseError instanceof DerError) {
+      throw new TimestampError(`TSA returned a malformed response: ${parseError.message}`)
+    }
+    throw parseError
+  }
+
+  if (info.hashAlgorithm !== OID.SHA256 || !sameBytes(info.hashedMessage, imprint)) {
+    throw new TimestampError('Timestamp token covers a different message imprint')
+  }
+  if (!info.nonce || !sameBytes(stripLeadingZeros(info.nonce), stripLeadingZeros(nonce))) {
+    throw new TimestampError('Timestamp token does not echo our nonce')
+  }
+
+  return { token, info, nonce }
+}
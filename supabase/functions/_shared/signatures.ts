@@ -0,0 +1,184 @@
+// Detached Ed25519 signatures from editors over a block's statement hash.
+//
+// Public keys are stored base64-encoded (raw 32 bytes) in editor_keys and
+// signatures base64-encoded (64 bytes) on the block. The signed message is
+// derived from the statement hash and the time of signing, not the block
+// hash, which depends on the chain head at append time and cannot be known
+// by the editor. Every signed message carries that time so the functions
+// can refuse stale signatures; each signature is accepted only once.
+// Like block.ts this module is runtime-agnostic.
+
+export interface EditorKey {
+  key_id: string
+  editor_name?: string
+  public_key: string
+  valid_from: string
+  valid_until: string | null
+  revoked_at: string | null
+}
+
+export interface SignedBlock {
+  statement_hash: string
+  signer_key_id: string | null
+  signature: string | null
+  // Null for blocks signed before signatures carried a time
+  signed_at?: string | null
+  block_timestamp: string | null
+  created_at: string
+}
+
+export type KeyStatus = 'valid' | 'not_yet_valid' | 'expired' | 'revoked'
+
+export type SignatureStatus =
+  | 'valid'
+  | 'invalid'
+  | 'unsigned'
+  | 'unknown_key'
+  | 'key_not_yet_valid'
+  | 'key_expired'
+  | 'key_revoked'
+
+export function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0))
+}
+
+export function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+}
+
+export function signaturePayload(statementHash: string, signedAt: string | null = null): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(signedAt === null
+    ? ['veritas-signature', 1, statementHash]
+    : ['veritas-signature', 2, statementHash, signedAt]))
+}
+
+export type ReviewAction = 'claim' | 'release' | 'approve'
+export const REVIEW_ACTIONS: ReviewAction[] = ['claim', 'release', 'approve']
+
+// What a reviewer signs to claim, release or approve a verdict review.
+// Tagged differently from block signatures so neither can stand in for the other.
+export interface ReviewDecision {
+  reviewId: string
+  action: ReviewAction
+  status?: string | null
+  confidence?: string | null
+  notes?: string | null
+  // The AI verdict the reviewer approves, as they saw it; null when its
+  // output could not be parsed
+  verificationId?: string | null
+  // ISO time the reviewer signed at
+  signedAt: string
+}
+
+export function reviewSignaturePayload(decision: ReviewDecision): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify([
+    'veritas-review',
+    2,
+    decision.reviewId,
+    decision.action,
+    decision.status ?? null,
+    decision.confidence ?? null,
+    decision.notes ?? null,
+    decision.verificationId ?? null,
+    decision.signedAt
+  ]))
+}
+
+export type PromptTemplateAction = 'create' | 'activate'
+export const PROMPT_TEMPLATE_ACTIONS: PromptTemplateAction[] = ['create', 'activate']
+
+// What an editor signs to add a prompt template version or make one active
+export interface PromptTemplateChange {
+  action: PromptTemplateAction
+  useCase?: string | null
+  templateId?: string | null
+  systemPrompt?: string | null
+  template?: string | null
+  notes?: string | null
+  // ISO time the editor signed at
+  signedAt: string
+}
+
+export function promptTemplateSignaturePayload(change: PromptTemplateChange): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify([
+    'veritas-prompt-template',
+    2,
+    change.action,
+    change.useCase ?? null,
+    change.templateId ?? null,
+    change.systemPrompt ?? null,
+    change.template ?? null,
+    change.notes ?? null,
+    change.signedAt
+  ]))
+}
+
+// What an editor signs to have a recorded block verified again, adding the
+// verdict to its history
+export interface VerificationRequest {
+  blockId: string
+  consensus?: string | null
+  // ISO time the editor signed at
+  signedAt: string
+}
+
+export function verificationRequestSignaturePayload(request: VerificationRequest): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify([
+    'veritas-verification',
+    1,
+    request.blockId,
+    request.consensus ?? null,
+    request.signedAt
+  ]))
+}
+
+// What an editor signs to seal the uncovered blocks in a checkpoint on
+// demand; only the time, as any editor may seal whatever is uncovered
+export function checkpointSignaturePayload(signedAt: string): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(['veritas-checkpoint', 1, signedAt]))
+}
+
+// A key signs validly from valid_from until it expires or is revoked;
+// signatures made before a revocation remain valid.
+export function keyStatusAt(key: EditorKey, at: string | Date): KeyStatus {
+  const time = new Date(at).getTime()
+  if (key.revoked_at && time >= new Date(key.revoked_at).getTime()) return 'revoked'
+  if (time < new Date(key.valid_from).getTime()) return 'not_yet_valid'
+  if (key.valid_until && time >= new Date(key.valid_until).getTime()) return 'expired'
+  return 'valid'
+}
+
+export async function verifyPayloadSignature(
+  publicKey: string,
+  signature: string,
+  payload: Uint8Array
+): Promise<boolean> {
+  const key = await crypto.subtle.importKey('raw', fromBase64(publicKey), { name: 'Ed25519' }, false, ['verify'])
+  return crypto.subtle.verify({ name: 'Ed25519' }, key, fromBase64(signature), payload)
+}
+
+export async function verifySignature(
+  publicKey: string,
+  signature: string,
+  statementHash: string,
+  signedAt: string | null = null
+): Promise<boolean> {
+  return verifyPayloadSignature(publicKey, signature, signaturePayload(statementHash, signedAt))
+}
+
+export async function checkBlockSignature(
+  block: SignedBlock,
+  keys: Map<string, EditorKey>
+): Promise<SignatureStatus> {
+  if (!block.signer_key_id || !block.signature) return 'unsigned'
+
+  const key = keys.get(block.signer_key_id)
+  if (!key) return 'unknown_key'
+
+  const keyStatus = keyStatusAt(key, block.block_timestamp ?? block.created_at)
+  if (keyStatus !== 'valid') return `key_${keyStatus}`
+
+  return await verifySignature(key.public_key, block.signature, block.statement_hash, block.signed_at ?? null)
+    ? 'valid'
+    : 'invalid'
+}
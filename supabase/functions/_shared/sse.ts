@@ -0,0 +1,63 @@
+// Server-sent events, as streamed by chat-completion endpoints and by
+// ask-veritas to the Chatbot. Runtime-agnostic so the browser can import it.
+
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+function parseEvent(raw: string): ServerSentEvent | null {
+  let event = 'message'
+  const data: string[] = []
+  for (const line of raw.split(/\r?\n/)) {
+    if (!line || line.startsWith(':')) continue
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '')
+    if (field === 'event') event = value
+    else if (field === 'data') data.push(value)
+  }
+  return data.length > 0 ? { event, data: data.join('\n') } : null
+}
+
+// Yields events as they arrive. Aborting the signal cancels the body, which
+// closes the connection so the sender can stop generating.
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  const cancel = () => { reader.cancel().catch(() => {}) }
+  signal?.addEventListener('abort', cancel)
+  if (signal?.aborted) cancel()
+
+  let buffer = ''
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+
+      let boundary = buffer.search(/\r?\n\r?\n/)
+      while (boundary !== -1) {
+        const event = parseEvent(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '')
+        if (event) yield event
+        boundary = buffer.search(/\r?\n\r?\n/)
+      }
+    }
+    if (!signal?.aborted) {
+      const event = parseEvent(buffer + decoder.decode())
+      if (event) yield event
+    }
+  } finally {
+    signal?.removeEventListener('abort', cancel)
+    // A consumer that stops early leaves the rest of the body unread
+    cancel()
+  }
+}
@@ -0,0 +1,103 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { toHex } from './block.ts'
+import { requestTimestamp, TimestampError } from './rfc3161.ts'
+import { toBase64 } from './signatures.ts'
+
+// RFC 3161 endpoint; unset disables timestamping. Point it at the mock-tsa
+// function (with MOCK_TSA_ENABLED=true) for local development.
+export const TSA_URL = Deno.env.get('TSA_URL') ?? ''
+
+// Sent as the Authorization header for TSAs that require credentials
+const TSA_AUTHORIZATION = Deno.env.get('TSA_AUTHORIZATION')
+
+// How long an append waits for the TSA before giving up on the timestamp
+const TSA_TIMEOUT_MS = Number(Deno.env.get('TSA_TIMEOUT_MS') ?? '5000')
+
+// The head is timestamped after an append once the previous token is this old
+export const TIMESTAMP_INTERVAL_MINUTES = Number(Deno.env.get('TIMESTAMP_INTERVAL_MINUTES') ?? '60')
+
+export interface ChainTimestamp {
+  id: string
+  block_number: number
+  block_hash: string
+  tsa_url: string
+  token: string
+  message_imprint: string
+  nonce: string
+  serial_number: string
+  policy_oid: string
+  gen_time: string
+  created_at: string
+}
+
+export async function latestTimestamp(supabase: SupabaseClient): Promise<ChainTimestamp | null> {
+  const { data, error } = await supabase
+    .from('chain_timestamps')
+    .select('*')
+    .order('block_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+// Requests a token over the current head's block hash. Returns null when the
+// chain is empty, the head already has a token, or a concurrent caller
+// stored one first.
+export async function timestampHead(supabase: SupabaseClient): Promise<ChainTimestamp | null> {
+  if (!TSA_URL) throw new TimestampError('TSA_URL is not configured')
+
+  const { data: head, error: headError } = await supabase
+    .from('veritas_chain')
+    .select('block_number, block_hash')
+    .order('block_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (headError) throw headError
+  if (!head) return null
+
+  const previous = await latestTimestamp(supabase)
+  if (previous && previous.block_number >= head.block_number) return null
+
+  const { token, info, nonce } = await requestTimestamp(
+    TSA_URL,
+    head.block_hash,
+    TSA_AUTHORIZATION ? { Authorization: TSA_AUTHORIZATION } : {},
+    TSA_TIMEOUT_MS
+  )
+
+  const { data, error } = await supabase
+    .from('chain_timestamps')
+    .insert({
+      block_number: head.block_number,
+      block_hash: head.block_hash,
+      tsa_url: TSA_URL,
+      token: toBase64(token),
+      message_imprint: toHex(info.hashedMessage),
+      nonce: toHex(nonce),
+      serial_number: info.serialNumber,
+      policy_oid: info.policy,
+      gen_time: info.genTime.toISOString()
+    })
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === '23505') return null
+    throw error
+  }
+  return data
+}
+
+// Called after every append; a no-op without a TSA or before the interval passes
+export async function timestampIfDue(supabase: SupabaseClient): Promise<ChainTimestamp | null> {
+  if (!TSA_URL) return null
+
+  const previous = await latestTimestamp(supabase)
+  if (previous && Date.now() - Date.parse(previous.created_at) < TIMESTAMP_INTERVAL_MINUTES * 60_000) {
+    return null
+  }
+  return timestampHead(supabase)
+}
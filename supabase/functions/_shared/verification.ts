@@ -0,0 +1,148 @@
+import { z, type ZodType } from 'https://esm.sh/zod@3.23.8'
+import type { ChatMessage, Completion, LlmProvider } from './llm.ts'
+
+// Extra attempts after the first when the model's output fails the schema
+const MAX_REPAIR_ATTEMPTS = Number(Deno.env.get('VERIFICATION_REPAIR_ATTEMPTS') ?? '2')
+
+export const VERIFICATION_STATUSES = ['VERIFIED', 'UNVERIFIED', 'DISPUTED'] as const
+export const CONFIDENCE_LEVELS = ['HIGH', 'MEDIUM', 'LOW'] as const
+
+export const VerificationSchema = z.object({
+  status: z.enum(VERIFICATION_STATUSES),
+  confidence: z.enum(CONFIDENCE_LEVELS),
+  keyFacts: z.array(z.string().min(1)).max(10),
+  issues: z.array(z.string().min(1)).max(10),
+  context: z.string(),
+  recommendation: z.string(),
+  reasoning: z.string().min(1),
+})
+
+export type Verification = z.infer<typeof VerificationSchema>
+
+// Spelled out in the prompt so the model sees the same contract we enforce
+export const VERIFICATION_FORMAT = `Respond with a single JSON object and nothing else, with exactly these keys:
+{
+  "status": "VERIFIED" | "UNVERIFIED" | "DISPUTED",
+  "confidence": "HIGH" | "MEDIUM" | "LOW",
+  "keyFacts": string[] (2-3 verifiable factual claims, at most 10),
+  "issues": string[] (factual errors, misleading context or concerns; [] if none),
+  "context": string (relevant background, may be empty),
+  "recommendation": string (whether this statement should be trusted),
+  "reasoning": string (why you reached this verdict)
+}`
+
+export class VerificationFormatError extends Error {
+  attempts: number
+  issues: string[]
+  lastOutput: string
+
+  constructor(attempts: number, issues: string[], lastOutput: string) {
+    super('The model did not return a valid verification')
+    this.name = 'VerificationFormatError'
+    this.attempts = attempts
+    this.issues = issues
+    this.lastOutput = lastOutput
+  }
+}
+
+// Models without JSON mode like to wrap their answer in prose or code fences
+function extractJsonObject(text: string): string {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '')
+  const start = unfenced.indexOf('{')
+  const end = unfenced.lastIndexOf('}')
+  return start !== -1 && end > start ? unfenced.slice(start, end + 1) : unfenced
+}
+
+export type StructuredParseResult<T> =
+  | { ok: true, value: T }
+  | { ok: false, issues: string[] }
+
+export function parseStructured<T>(content: string, schema: ZodType<T>): StructuredParseResult<T> {
+  let json: unknown
+  try {
+    json = JSON.parse(extractJsonObject(content))
+  } catch (parseError) {
+    return { ok: false, issues: [`Output is not valid JSON: ${(parseError as Error).message}`] }
+  }
+
+  const result = schema.safeParse(json)
+  if (result.success) return { ok: true, value: result.data }
+  return {
+    ok: false,
+    issues: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+  }
+}
+
+export type VerificationParseResult =
+  | { ok: true, verification: Verification }
+  | { ok: false, issues: string[] }
+
+export function parseVerification(content: string): VerificationParseResult {
+  const result = parseStructured(content, VerificationSchema)
+  return result.ok ? { ok: true, verification: result.value } : result
+}
+
+function repairPrompt(issues: string[], format: string): string {
+  return `Your previous reply did not match the required format:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+${format}`
+}
+
+export interface StructuredResult<T> {
+  value: T
+  completion: Completion
+  attempts: number
+}
+
+// Asks for a JSON object in JSON mode and feeds schema errors back to the
+// model for a bounded number of repairs. Throws VerificationFormatError
+// rather than inventing an answer when the model never complies.
+export async function requestStructured<T>(
+  provider: LlmProvider,
+  task: string,
+  messages: ChatMessage[],
+  schema: ZodType<T>,
+  format: string,
+  options: { maxTokens?: number, temperature?: number } = {}
+): Promise<StructuredResult<T>> {
+  let conversation = messages
+  let issues: string[] = []
+  let completion: Completion | undefined
+
+  for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS + 1; attempt++) {
+    completion = await provider.complete({ task, messages: conversation, json: true, ...options })
+
+    const result = parseStructured(completion.content, schema)
+    if (result.ok) {
+      return { value: result.value, completion, attempts: attempt }
+    }
+
+    issues = result.issues
+    console.warn(`${task} output rejected (attempt ${attempt}):`, issues)
+    conversation = [
+      ...conversation,
+      { role: 'assistant', content: completion.content },
+      { role: 'user', content: repairPrompt(issues, format) }
+    ]
+  }
+
+  throw new VerificationFormatError(MAX_REPAIR_ATTEMPTS + 1, issues, completion?.content ?? '')
+}
+
+export interface VerificationResult {
+  verification: Verification
+  completion: Completion
+  attempts: number
+}
+
+export async function requestVerification(
+  provider: LlmProvider,
+  messages: ChatMessage[],
+  options: { maxTokens?: number, temperature?: number } = {}
+): Promise<VerificationResult> {
+  const { value, completion, attempts } = await requestStructured(
+    provider, 'verify-statement', messages, VerificationSchema, VERIFICATION_FORMAT, options
+  )
+  return { verification: value, completion, attempts }
+}
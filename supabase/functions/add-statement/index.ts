@@ -1,22 +1,18 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { BLOCK_TYPES, type BlockType, isValidStatementDate } from '../_shared/block.ts'
+import { appendBlock, ChainConflictError } from '../_shared/chain.ts'
+import { checkpointIfDue } from '../_shared/checkpoints.ts'
+import { findDuplicateStatements } from '../_shared/duplicates.ts'
+import { authorizeEditorSignature } from '../_shared/editors.ts'
+import { statementEmbeddingColumns } from '../_shared/embeddings.ts'
+import { timestampIfDue } from '../_shared/timestamps.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-// Simple hash function for demonstration
-function simpleHash(data: string): string {
-  let hash = 0;
-  for (let i = 0; i < data.length; i++) {
-    const char = data.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32-bit integer
-  }
-  return Math.abs(hash).toString(16);
-}
-
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -29,7 +25,18 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
-    const { statement, speaker, sourceUrl, statementDate } = await req.json()
+    const {
+      statement,
+      speaker,
+      sourceUrl,
+      statementDate,
+      blockType = 'statement',
+      supersedesHash,
+      signerKeyId,
+      signature,
+      signedAt,
+      force = false
+    } = await req.json()
 
     if (!statement || !speaker) {
       return new Response(
@@ -38,49 +45,156 @@ serve(async (req) => {
       )
     }
 
-    // Get the last block to chain hashes
-    const { data: lastBlock } = await supabase
-      .from('veritas_chain')
-      .select('block_hash')
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .single()
-
-    const previousHash = lastBlock?.block_hash || '0'
-    
-    // Create statement hash
-    const statementHash = simpleHash(statement + speaker + (sourceUrl || ''))
-    
-    // Create block hash (combines statement hash with previous hash)
-    const blockHash = simpleHash(statementHash + previousHash + Date.now().toString())
-
-    // Insert the new statement
-    const { data, error } = await supabase
-      .from('veritas_chain')
-      .insert({
+    if (!isValidStatementDate(statementDate)) {
+      return new Response(
+        JSON.stringify({ error: 'statementDate must be a date (YYYY-MM-DD)' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if (typeof force !== 'boolean') {
+      return new Response(
+        JSON.stringify({ error: 'force must be a boolean' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if (!BLOCK_TYPES.includes(blockType)) {
+      return new Response(
+        JSON.stringify({ error: `Block type must be one of: ${BLOCK_TYPES.join(', ')}` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    // Corrections and retractions must name the block they supersede; plain statements must not
+    if ((blockType === 'statement') !== !supersedesHash) {
+      return new Response(
+        JSON.stringify({
+          error: blockType === 'statement'
+            ? 'Only corrections and retractions can supersede a block'
+            : `A ${blockType} must reference the block it supersedes`
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if (supersedesHash) {
+      const [{ data: superseded, error: supersededError }, { data: successor, error: successorError }] = await Promise.all([
+        supabase
+          .from('veritas_chain')
+          .select('block_type')
+          .eq('block_hash', supersedesHash)
+          .limit(1)
+          .maybeSingle(),
+        supabase
+          .from('veritas_chain')
+          .select('block_hash')
+          .eq('supersedes_hash', supersedesHash)
+          .maybeSingle()
+      ])
+
+      if (supersededError) throw supersededError
+      if (successorError) throw successorError
+
+      const supersedeError = !superseded
+        ? 'The superseded block does not exist'
+        : superseded.block_type === 'retraction'
+          ? 'A retraction cannot be corrected or retracted again'
+          : successor
+            ? `This block was already superseded by ${successor.block_hash}; amend the latest version instead`
+            : null
+
+      if (supersedeError) {
+        return new Response(
+          JSON.stringify({ error: supersedeError }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 422 }
+        )
+      }
+    }
+
+    const content = {
+      statement,
+      speaker,
+      sourceUrl,
+      statementDate,
+      blockType: blockType as BlockType,
+      supersedesHash
+    }
+
+    // Every block must be signed by a registered, currently valid editor key
+    const signatureCheck = await authorizeEditorSignature(supabase, content, signerKeyId, signature, signedAt)
+    if (!signatureCheck.ok) {
+      return new Response(
+        JSON.stringify({ error: signatureCheck.error }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: signatureCheck.status }
+      )
+    }
+
+    const embeddingColumns = await statementEmbeddingColumns(statement)
+
+    // Corrections restate the block they supersede, so only new statements
+    // are checked. The editor can still add one after reviewing the matches.
+    if (blockType === 'statement' && !force) {
+      const duplicates = await findDuplicateStatements(
+        supabase,
         statement,
         speaker,
-        source_url: sourceUrl,
-        statement_date: statementDate,
-        statement_hash: statementHash,
-        previous_hash: previousHash,
-        block_hash: blockHash
-      })
-      .select()
+        embeddingColumns.embedding ?? null,
+        embeddingColumns.embedding_model ?? null
+      )
 
-    if (error) {
-      console.error('Database error:', error)
+      if (duplicates.length > 0) {
+        const exact = duplicates.some(duplicate => duplicate.match_type === 'exact')
+        return new Response(
+          JSON.stringify({
+            error: exact
+              ? 'This statement is already on the Veritas chain'
+              : 'Similar statements are already on the Veritas chain',
+            duplicates
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+        )
+      }
+    }
+
+    // Append the new statement on top of the current chain head
+    let block
+    try {
+      block = await appendBlock(supabase, content, {
+        signer_key_id: signerKeyId,
+        signature,
+        signed_at: signedAt,
+        ...embeddingColumns
+      })
+    } catch (appendError) {
+      console.error('Database error:', appendError)
+      const conflict = appendError instanceof ChainConflictError
       return new Response(
-        JSON.stringify({ error: 'Failed to add statement' }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+        JSON.stringify({ error: conflict ? appendError.message : 'Failed to add statement' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: conflict ? 409 : 500 }
       )
     }
 
-    console.log('Statement added successfully:', data)
+    console.log('Statement added successfully:', block)
+
+    try {
+      await checkpointIfDue(supabase)
+    } catch (checkpointError) {
+      // The block is already on the chain; the next append will retry
+      console.error('Failed to create checkpoint:', checkpointError)
+    }
+
+    try {
+      await timestampIfDue(supabase)
+    } catch (timestampError) {
+      // The head is still due, so the next append retries
+      console.error('Failed to timestamp the chain head:', timestampError)
+    }
+
     return new Response(
       JSON.stringify({ 
         success: true, 
-        data: data[0],
+        data: block,
         message: 'Statement added to the Veritas chain' 
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
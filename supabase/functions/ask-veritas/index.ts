@@ -1,11 +1,85 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { type CompletionRequest, getLlmProvider, LlmError, type LlmProvider } from '../_shared/llm.ts'
+import { type ChainSource, formatSources, searchStatements } from '../_shared/retrieval.ts'
+import { formatServerSentEvent } from '../_shared/sse.ts'
+import { buildConversationContext, type ConversationTurn, loadSessionTurns, parseTurns } from '../_shared/conversation.ts'
+import { ANSWER_FORMAT, createAnswerStreamFilter, resolveAnswer } from '../_shared/answers.ts'
+import { detectInjection, quoteUntrusted } from '../_shared/untrusted.ts'
+import { type ActivePrompt, getActivePrompt, promptMessages } from '../_shared/prompts.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// What the Chatbot shows when the model could not be reached
+function llmErrorResult(llmError: LlmError) {
+  return {
+    answer: llmError.kind === 'network'
+      ? `I'm sorry, I couldn't connect to the fact-checking service. Please try again later.`
+      : `I'm sorry, I encountered an error while fact-checking. Please try again later.`,
+    confidence: 'low',
+    citations: [],
+    error: llmError.status ? `${llmError.message} (${llmError.status})` : llmError.message
+  }
+}
+
+// Relays the answer as server-sent events: `sources` first, a `token` per
+// text delta of the Markdown answer, then `done` with the envelope once the
+// metadata after it is checked, or `error` if the model fails midway. A
+// client that disconnects aborts the completion.
+function streamAnswer(
+  provider: LlmProvider,
+  request: CompletionRequest,
+  sources: ChainSource[],
+  prompt: ActivePrompt
+): Response {
+  const encoder = new TextEncoder()
+  const abort = new AbortController()
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(formatServerSentEvent(event, data)))
+
+      send('sources', { sources })
+      const filter = createAnswerStreamFilter()
+      let answer = ''
+      try {
+        for await (const delta of provider.stream({ ...request, signal: abort.signal })) {
+          if (abort.signal.aborted) return
+          const text = filter.push(delta)
+          answer += text
+          if (text) send('token', { text })
+        }
+        if (abort.signal.aborted) return
+        const rest = filter.flush()
+        if (rest) send('token', { text: rest })
+
+        const envelope = await resolveAnswer(provider, filter.raw, sources)
+        if (abort.signal.aborted) return
+        send('done', { ...envelope, prompt: { templateId: prompt.id, version: prompt.version } })
+      } catch (streamError) {
+        if (abort.signal.aborted) return
+        console.error('Error streaming the answer:', streamError)
+        send('error', streamError instanceof LlmError
+          ? { ...llmErrorResult(streamError), partial: answer }
+          : { error: 'Internal server error', partial: answer })
+      }
+      controller.close()
+    },
+    cancel() {
+      console.log('Client cancelled the answer')
+      abort.abort()
+    }
+  })
+
+  return new Response(body, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' }
+  })
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -13,7 +87,7 @@ serve(async (req) => {
   }
 
   try {
-    const { query } = await req.json()
+    const { query, stream = false, sessionId, history } = await req.json()
 
     if (!query) {
       return new Response(
@@ -22,160 +96,117 @@ serve(async (req) => {
       )
     }
 
-    console.log('Processing query:', query)
-
-    const mistralApiKey = Deno.env.get('MISTRAL_API_KEY')
-    
-    if (!mistralApiKey) {
+    if (typeof stream !== 'boolean') {
       return new Response(
-        JSON.stringify({ error: 'Mistral API key not configured' }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+        JSON.stringify({ error: 'stream must be a boolean' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
       )
     }
 
-    // Use Mistral AI directly without querying the database first
-    const prompt = `You are Veritas, a fact-checking assistant. A user has asked the following question:
-
-User Query: ${query}
+    if (sessionId !== undefined && (typeof sessionId !== 'string' || !sessionId.trim())) {
+      return new Response(
+        JSON.stringify({ error: 'sessionId must be a non-empty string' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
 
-Please provide a factual response that:
-1. Directly addresses the query with accurate information
-2. Cites sources where appropriate
-3. Indicates your confidence level in the answer (HIGH, MEDIUM, or LOW)
-4. Acknowledges any limitations or uncertainties
-5. Is objective and unbiased
+    const givenTurns = history === undefined ? null : parseTurns(history)
+    if (history !== undefined && !givenTurns) {
+      return new Response(
+        JSON.stringify({ error: 'history must be a list of { role: "user" | "assistant", content } turns; only user turns are used' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
 
-Your response should be informative, helpful, and factually accurate.`
+    console.log('Processing query:', query)
 
-    let aiResponse;
-    try {
-      aiResponse = await fetch('https://api.mistral.ai/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${mistralApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'mistral-small-latest',
-          messages: [
-            { role: 'system', content: 'You are Veritas, a precise fact-checking assistant that provides accurate information based on verified facts.' },
-            { role: 'user', content: prompt }
-          ],
-          max_tokens: 800,
-          temperature: 0.1
-        }),
-      });
-    } catch (fetchError) {
-      console.error('Mistral API network error:', fetchError);
-      return new Response(
-        JSON.stringify({
-          answer: `I'm sorry, I couldn't connect to the fact-checking service. Please try again later.`,
-          sources: [],
-          confidence: 'low',
-          error: `API connection error: ${fetchError.message}`
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    // The query is only quoted, never obeyed; suspicious ones are logged
+    const injection = detectInjection({ query })
+    if (injection.suspicious) {
+      console.warn('Possible prompt injection in query:', injection.matches)
     }
 
-    if (!aiResponse.ok) {
-      const errorText = await aiResponse.text();
-      let errorDetails;
-      
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    )
+
+    // Earlier turns let the model follow up on what was just asked; callers
+    // either send their earlier questions or name the Chatbot session to
+    // load the whole conversation from
+    let turns: ConversationTurn[] = givenTurns ?? []
+    if (!givenTurns && sessionId) {
       try {
-        // Try to parse error as JSON
-        errorDetails = JSON.parse(errorText);
-      } catch {
-        // If not JSON, use text as is
-        errorDetails = errorText;
+        turns = await loadSessionTurns(supabase, sessionId, query)
+      } catch (historyError) {
+        console.error('Failed to load the conversation:', historyError)
       }
-      
-      console.error('Mistral API error response:', errorDetails);
-      
-      return new Response(
-        JSON.stringify({
-          answer: `I'm sorry, I encountered an error while fact-checking. Please try again later.`,
-          sources: [],
-          confidence: 'low',
-          error: `API error (${aiResponse.status}): ${JSON.stringify(errorDetails)}`
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
     }
 
-    let aiData;
+    // Ground the answer in statements recorded on the chain
+    let sources: ChainSource[] = []
     try {
-      aiData = await aiResponse.json();
-    } catch (jsonError) {
-      console.error('Failed to parse Mistral API response as JSON:', jsonError);
-      return new Response(
-        JSON.stringify({
-          answer: `I'm sorry, I received an invalid response from the fact-checking service. Please try again later.`,
-          sources: [],
-          confidence: 'low',
-          error: 'Invalid API response format'
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      ({ sources } = await searchStatements(supabase, query))
+    } catch (searchError) {
+      // Answer without sources rather than not at all
+      console.error('Failed to search the chain:', searchError)
     }
-    
-    if (!aiData.choices || !aiData.choices[0] || !aiData.choices[0].message || !aiData.choices[0].message.content) {
-      console.error('Unexpected Mistral API response structure:', aiData);
+
+    // The active template from the registry, recorded with the answer
+    const prompt = await getActivePrompt(supabase, 'ask')
+    const [systemMessage, questionMessage] = promptMessages(prompt, {
+      query: quoteUntrusted('query', query),
+      conversation_note: turns.length > 0
+        ? ', continuing the conversation above; use it to understand what a follow-up refers to'
+        : '',
+      sources: sources.length > 0
+        ? `Statements recorded on the Veritas chain that may be relevant:\n${formatSources(sources)}`
+        : 'No statements recorded on the Veritas chain matched this question.',
+      format: ANSWER_FORMAT
+    })
+
+    let provider: LlmProvider;
+    let completion;
+    try {
+      provider = getLlmProvider();
+      const conversation = await buildConversationContext(provider, turns);
+      if (turns.length > 0) {
+        console.log(`Conversation context: ${conversation.included} turns, ${conversation.summarized} summarized`);
+      }
+      if (conversation.injection.length > 0) {
+        console.warn('Possible prompt injection in the conversation, left out:', conversation.injection);
+      }
+
+      const request: CompletionRequest = {
+        task: 'ask-veritas',
+        messages: [systemMessage, ...conversation.messages, questionMessage],
+        maxTokens: 1000,
+        temperature: 0.1
+      };
+
+      if (stream) return streamAnswer(provider, request, sources, prompt);
+      completion = await provider.complete(request);
+    } catch (llmError) {
+      if (!(llmError instanceof LlmError)) throw llmError;
+      console.error('LLM provider error:', llmError.message, llmError.details);
+      if (llmError.kind === 'configuration') {
+        return new Response(
+          JSON.stringify({ error: llmError.message }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+        );
+      }
       return new Response(
-        JSON.stringify({
-          answer: `I'm sorry, I received an unexpected response from the fact-checking service. Please try again later.`,
-          sources: [],
-          confidence: 'low',
-          error: 'Unexpected API response structure'
-        }),
+        JSON.stringify({ ...llmErrorResult(llmError), sources: [] }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const answer = aiData.choices[0].message.content;
-    
-    // Extract confidence level from the answer
-    let confidence = 'medium';
-    if (answer.includes('HIGH CONFIDENCE') || answer.includes('high confidence')) {
-      confidence = 'high';
-    } else if (answer.includes('LOW CONFIDENCE') || answer.includes('low confidence')) {
-      confidence = 'low';
-    }
-    
-    // Store the query and response in chat_history if needed
-    try {
-      const supabase = createClient(
-        Deno.env.get('SUPABASE_URL') ?? '',
-        Deno.env.get('SUPABASE_ANON_KEY') ?? ''
-      )
-      
-      // Optional: Store the query and response in chat_history
-      // This is useful for analytics but not required for functionality
-      await supabase.from('chat_history').insert({
-        session_id: 'system',
-        message_type: 'user',
-        content: query,
-        created_at: new Date().toISOString()
-      });
-      
-      await supabase.from('chat_history').insert({
-        session_id: 'system',
-        message_type: 'bot',
-        content: answer,
-        confidence: confidence,
-        created_at: new Date().toISOString()
-      });
-    } catch (dbError) {
-      // Just log the error, don't fail the request
-      console.error('Failed to store chat history:', dbError);
-    }
+    // The Chatbot stores the exchange in its session, with the envelope and
+    // the prompt version returned here
+    const envelope = await resolveAnswer(provider, completion.content, sources);
 
     return new Response(
-      JSON.stringify({
-        answer,
-        sources: [], // No sources from database since we're using direct API
-        confidence
-      }),
+      JSON.stringify({ ...envelope, prompt: { templateId: prompt.id, version: prompt.version } }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
@@ -0,0 +1,64 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { createCheckpoint } from '../_shared/checkpoints.ts'
+import { authorizeCheckpointSignature, hasServiceRole } from '../_shared/editors.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Scheduled jobs call with the service role key; editors sign the request
+    if (!hasServiceRole(req)) {
+      const { signerKeyId, signature, signedAt } = await req.json().catch(() => ({}))
+      const authorization = await authorizeCheckpointSignature(supabase, signerKeyId, signature, signedAt)
+      if (!authorization.ok) {
+        return new Response(
+          JSON.stringify({ error: authorization.error }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: authorization.status }
+        )
+      }
+    }
+
+    // On-demand checkpoints seal whatever is uncovered, even a single block
+    const checkpoint = await createCheckpoint(supabase)
+
+    if (!checkpoint) {
+      return new Response(
+        JSON.stringify({
+          checkpoint: null,
+          message: 'No new blocks since the last checkpoint'
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    console.log('Checkpoint created:', checkpoint)
+    return new Response(
+      JSON.stringify({
+        checkpoint,
+        message: `Checkpoint #${checkpoint.checkpoint_number} created`
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in create-checkpoint function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
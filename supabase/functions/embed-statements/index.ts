@@ -0,0 +1,106 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { embeddingModelName, getEmbeddingProvider, toPgVector } from '../_shared/embeddings.ts'
+import { LlmError } from '../_shared/llm.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Statements embedded per call; call again until `remaining` is 0
+const BATCH_SIZE = 32
+
+// Backfills embeddings for blocks appended before embeddings were enabled,
+// or whose embedding failed at append time
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    let provider
+    try {
+      provider = getEmbeddingProvider()
+    } catch (configError) {
+      if (!(configError instanceof LlmError)) throw configError
+      return new Response(
+        JSON.stringify({ error: configError.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    if (!provider) {
+      return new Response(
+        JSON.stringify({ error: 'No embedding provider is configured' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 503 }
+      )
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // A block with a model but no embedding had nothing to embed
+    const { data: blocks, error: blocksError } = await supabase
+      .from('veritas_chain')
+      .select('id, statement')
+      .is('embedding', null)
+      .is('embedding_model', null)
+      .order('block_number', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    if (blocksError) throw blocksError
+
+    let vectors: (number[] | null)[] = []
+    if (blocks.length > 0) {
+      try {
+        vectors = await provider.embed(blocks.map(block => block.statement))
+      } catch (embeddingError) {
+        if (!(embeddingError instanceof LlmError)) throw embeddingError
+        console.error('Embedding provider error:', embeddingError.message, embeddingError.details)
+        return new Response(
+          JSON.stringify({ error: embeddingError.message }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 502 }
+        )
+      }
+    }
+
+    const embeddingModel = embeddingModelName(provider)
+    for (const [i, block] of blocks.entries()) {
+      const vector = vectors[i]
+      const { error: updateError } = await supabase
+        .from('veritas_chain')
+        .update({ embedding: vector ? toPgVector(vector) : null, embedding_model: embeddingModel })
+        .eq('id', block.id)
+
+      if (updateError) throw updateError
+    }
+
+    const { count: remaining, error: countError } = await supabase
+      .from('veritas_chain')
+      .select('id', { count: 'exact', head: true })
+      .is('embedding', null)
+      .is('embedding_model', null)
+
+    if (countError) throw countError
+
+    return new Response(
+      JSON.stringify({
+        embedded: vectors.filter(Boolean).length,
+        remaining: remaining ?? 0,
+        model: embeddingModel
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in embed-statements function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
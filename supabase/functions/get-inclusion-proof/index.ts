@@ -0,0 +1,87 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { isBlockId } from '../_shared/block.ts'
+import { buildInclusionProof } from '../_shared/checkpoints.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    )
+
+    const { statementId } = await req.json()
+
+    if (!statementId) {
+      return new Response(
+        JSON.stringify({ error: 'Statement id is required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if (!isBlockId(statementId)) {
+      return new Response(
+        JSON.stringify({ error: 'Statement id must be a UUID' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const { data: block, error: blockError } = await supabase
+      .from('veritas_chain')
+      .select('id, block_hash, block_number')
+      .eq('id', statementId)
+      .maybeSingle()
+
+    if (blockError) throw blockError
+
+    if (!block) {
+      return new Response(
+        JSON.stringify({ error: 'Statement not found' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+      )
+    }
+
+    const inclusion = await buildInclusionProof(supabase, block.block_number)
+
+    if (!inclusion) {
+      return new Response(
+        JSON.stringify({
+          statementId,
+          block_hash: block.block_hash,
+          block_number: block.block_number,
+          included: false,
+          message: 'This block has not been sealed in a checkpoint yet'
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({
+        statementId,
+        block_hash: block.block_hash,
+        block_number: block.block_number,
+        included: true,
+        ...inclusion
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in get-inclusion-proof function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
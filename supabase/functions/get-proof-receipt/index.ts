@@ -0,0 +1,101 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { isBlockId } from '../_shared/block.ts'
+import { buildInclusionProof } from '../_shared/checkpoints.ts'
+import { type ProofReceipt, RECEIPT_FORMAT, RECEIPT_VERSION } from '../_shared/receipt.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const BLOCK_COLUMNS = 'id, block_number, statement, speaker, source_url, statement_date, statement_hash, previous_hash, block_hash, block_timestamp, hash_version, block_type, supersedes_hash, signer_key_id, signature, signed_at, created_at'
+const NEIGHBOUR_COLUMNS = 'block_number, block_hash, previous_hash'
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    )
+
+    const { statementId, blockHash } = await req.json()
+
+    if (!statementId && !blockHash) {
+      return new Response(
+        JSON.stringify({ error: 'Statement id or block hash is required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if (statementId && !isBlockId(statementId)) {
+      return new Response(
+        JSON.stringify({ error: 'Statement id must be a UUID' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const blockQuery = supabase.from('veritas_chain').select(BLOCK_COLUMNS)
+    const { data: block, error: blockError } = await (statementId
+      ? blockQuery.eq('id', statementId)
+      : blockQuery.eq('block_hash', blockHash).order('block_number', { ascending: true }).limit(1)
+    ).maybeSingle()
+
+    if (blockError) throw blockError
+
+    if (!block) {
+      return new Response(
+        JSON.stringify({ error: 'Statement not found' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+      )
+    }
+
+    const [previousResult, nextResult, keyResult, inclusion] = await Promise.all([
+      supabase.from('veritas_chain').select(NEIGHBOUR_COLUMNS).eq('block_number', block.block_number - 1).maybeSingle(),
+      supabase.from('veritas_chain').select(NEIGHBOUR_COLUMNS).eq('block_number', block.block_number + 1).maybeSingle(),
+      block.signer_key_id
+        ? supabase.from('editor_keys').select('key_id, editor_name, public_key, valid_from, valid_until, revoked_at').eq('key_id', block.signer_key_id).maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+      buildInclusionProof(supabase, block.block_number)
+    ])
+
+    for (const result of [previousResult, nextResult, keyResult]) {
+      if (result.error) throw result.error
+    }
+
+    const receipt: ProofReceipt = {
+      format: RECEIPT_FORMAT,
+      version: RECEIPT_VERSION,
+      issued_at: new Date().toISOString(),
+      block,
+      previous_block: previousResult.data,
+      next_block: nextResult.data,
+      signing_key: keyResult.data,
+      checkpoint: inclusion && {
+        checkpoint_number: inclusion.checkpoint.checkpoint_number,
+        first_block_number: inclusion.checkpoint.first_block_number,
+        last_block_number: inclusion.checkpoint.last_block_number,
+        merkle_root: inclusion.checkpoint.merkle_root,
+        leaf_index: inclusion.leafIndex,
+        proof: inclusion.proof
+      }
+    }
+
+    return new Response(
+      JSON.stringify(receipt),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in get-proof-receipt function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
@@ -0,0 +1,87 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import {
+  contextTag,
+  encodeGeneralizedTime,
+  encodeNull,
+  encodeOctetString,
+  encodeOid,
+  encodeSequence,
+  encodeSet,
+  encodeTlv,
+  encodeUnsignedInteger,
+} from '../_shared/der.ts'
+import {
+  encodeMessageImprint,
+  OID,
+  parseTimeStampRequest,
+  TIMESTAMP_QUERY_TYPE,
+  TIMESTAMP_REPLY_TYPE,
+} from '../_shared/rfc3161.ts'
+
+// Stand-in RFC 3161 TSA for local development and tests. Its tokens are
+// well-formed but carry no CMS signature, so no real verifier will accept
+// them. Disabled unless MOCK_TSA_ENABLED=true.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// 2.999 is the ASN.1 arc reserved for examples
+const MOCK_POLICY_OID = '2.999.3161'
+
+function statusResponse(status: number, token?: Uint8Array): Uint8Array {
+  const statusInfo = encodeSequence(encodeUnsignedInteger(status))
+  return token ? encodeSequence(statusInfo, token) : encodeSequence(statusInfo)
+}
+
+function buildToken(hashedMessage: Uint8Array, nonce: Uint8Array | null): Uint8Array {
+  const tstInfo = encodeSequence(
+    encodeUnsignedInteger(1),
+    encodeOid(MOCK_POLICY_OID),
+    encodeMessageImprint(hashedMessage),
+    encodeUnsignedInteger(crypto.getRandomValues(new Uint8Array(8))),
+    encodeGeneralizedTime(new Date()),
+    ...(nonce ? [encodeUnsignedInteger(nonce)] : [])
+  )
+
+  const signedData = encodeSequence(
+    encodeUnsignedInteger(3),
+    encodeSet(encodeSequence(encodeOid(OID.SHA256), encodeNull())),
+    encodeSequence(
+      encodeOid(OID.TST_INFO),
+      encodeTlv(contextTag(0), encodeOctetString(tstInfo))
+    ),
+    encodeSet()
+  )
+
+  return encodeSequence(encodeOid(OID.SIGNED_DATA), encodeTlv(contextTag(0), signedData))
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  if (Deno.env.get('MOCK_TSA_ENABLED') !== 'true') {
+    return new Response('Not found', { headers: corsHeaders, status: 404 })
+  }
+
+  if (req.headers.get('Content-Type') !== TIMESTAMP_QUERY_TYPE) {
+    return new Response(`Expected ${TIMESTAMP_QUERY_TYPE}`, { headers: corsHeaders, status: 415 })
+  }
+
+  let body: Uint8Array
+  try {
+    const request = parseTimeStampRequest(new Uint8Array(await req.arrayBuffer()))
+    body = request.hashAlgorithm === OID.SHA256 && request.hashedMessage.length === 32
+      ? statusResponse(0, buildToken(request.hashedMessage, request.nonce))
+      : statusResponse(2)
+  } catch (error) {
+    console.error('Malformed timestamp request:', error)
+    body = statusResponse(2)
+  }
+
+  return new Response(body, { headers: { ...corsHeaders, 'Content-Type': TIMESTAMP_REPLY_TYPE } })
+})
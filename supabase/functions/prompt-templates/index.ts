@@ -0,0 +1,153 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { authorizePromptTemplateSignature } from '../_shared/editors.ts'
+import { PROMPT_USE_CASES, templateVariables, validatePromptTemplate } from '../_shared/prompt-templates.ts'
+import { PROMPT_TEMPLATE_ACTIONS, type PromptTemplateChange } from '../_shared/signatures.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Changes to the prompt template registry, each signed by an editor key:
+//   create    add the next version for a use case, inactive
+//   activate  make a version the one verify-statement or ask-veritas uses
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { action, useCase, templateId, systemPrompt, template, notes, signerKeyId, signature, signedAt } = await req.json()
+
+    if (!PROMPT_TEMPLATE_ACTIONS.includes(action)) {
+      return new Response(
+        JSON.stringify({ error: `An action (${PROMPT_TEMPLATE_ACTIONS.join(', ')}) is required` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if (action === 'activate') {
+      if (!templateId) {
+        return new Response(
+          JSON.stringify({ error: 'A template id is required' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        )
+      }
+
+      const change: PromptTemplateChange = { action, templateId, signedAt }
+      const signatureCheck = await authorizePromptTemplateSignature(supabase, change, signerKeyId, signature)
+      if (!signatureCheck.ok) {
+        return new Response(
+          JSON.stringify({ error: signatureCheck.error }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: signatureCheck.status }
+        )
+      }
+
+      const { data: activated, error: activateError } = await supabase.rpc('activate_prompt_template', {
+        p_template_id: templateId,
+        p_activated_by: signerKeyId
+      })
+
+      if (activateError) throw activateError
+      if (!activated?.id) {
+        return new Response(
+          JSON.stringify({ error: 'Prompt template not found' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+        )
+      }
+
+      console.log(`Activated ${activated.use_case} prompt template v${activated.version}`)
+      return new Response(
+        JSON.stringify({ template: activated }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!PROMPT_USE_CASES.includes(useCase)) {
+      return new Response(
+        JSON.stringify({ error: `A use case (${PROMPT_USE_CASES.join(', ')}) is required` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if (typeof systemPrompt !== 'string' || typeof template !== 'string' ||
+        (notes !== undefined && notes !== null && typeof notes !== 'string')) {
+      return new Response(
+        JSON.stringify({ error: 'systemPrompt and template must be strings, and notes a string if given' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const issues = validatePromptTemplate(useCase, { systemPrompt, template })
+    if (issues.length > 0) {
+      return new Response(
+        JSON.stringify({ error: 'The prompt template is not valid', issues }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const change: PromptTemplateChange = { action, useCase, systemPrompt, template, notes: notes ?? null, signedAt }
+    const signatureCheck = await authorizePromptTemplateSignature(supabase, change, signerKeyId, signature)
+    if (!signatureCheck.ok) {
+      return new Response(
+        JSON.stringify({ error: signatureCheck.error }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: signatureCheck.status }
+      )
+    }
+
+    const { data: latest, error: latestError } = await supabase
+      .from('prompt_templates')
+      .select('version')
+      .eq('use_case', useCase)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (latestError) throw latestError
+
+    const { data: created, error: createError } = await supabase
+      .from('prompt_templates')
+      .insert({
+        use_case: useCase,
+        version: (latest?.version ?? 0) + 1,
+        system_prompt: systemPrompt,
+        template,
+        variables: templateVariables(template),
+        notes: notes?.trim() || null,
+        created_by: signerKeyId
+      })
+      .select()
+      .single()
+
+    if (createError) {
+      // Another editor saved a version of this use case at the same time
+      if (createError.code === '23505') {
+        return new Response(
+          JSON.stringify({ error: 'Another version was saved in the meantime; reload and try again' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+        )
+      }
+      throw createError
+    }
+
+    console.log(`Created ${useCase} prompt template v${created.version}`)
+    return new Response(
+      JSON.stringify({ template: created }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in prompt-templates function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
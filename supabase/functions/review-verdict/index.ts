@@ -0,0 +1,181 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { authorizeReviewSignature } from '../_shared/editors.ts'
+import { REVIEW_ACTIONS, type ReviewDecision } from '../_shared/signatures.ts'
+import { CONFIDENCE_LEVELS, VERIFICATION_STATUSES } from '../_shared/verification.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Actions on a queued verdict review, each signed by the reviewer's editor key:
+//   claim    take a pending review so no one else works on it
+//   release  hand a claimed review back to the queue
+//   approve  record the final verdict; `status` and `confidence` may override
+//            the AI's, in which case `notes` must say why. `verificationId`
+//            names the AI verdict reviewed, so a newer one is not approved
+//            unseen
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { reviewId, action, status, confidence, notes, verificationId, signerKeyId, signature, signedAt } = await req.json()
+
+    if (!reviewId || !REVIEW_ACTIONS.includes(action)) {
+      return new Response(
+        JSON.stringify({ error: `A review id and an action (${REVIEW_ACTIONS.join(', ')}) are required` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if (action === 'approve' && (!VERIFICATION_STATUSES.includes(status) || !CONFIDENCE_LEVELS.includes(confidence))) {
+      return new Response(
+        JSON.stringify({
+          error: `Approving needs a status (${VERIFICATION_STATUSES.join(', ')}) and a confidence (${CONFIDENCE_LEVELS.join(', ')})`
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if (action === 'approve' && verificationId !== null && typeof verificationId !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'Approving needs the verificationId of the AI verdict reviewed, or null if there was none' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if (notes !== undefined && notes !== null && typeof notes !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'Notes must be a string' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const decision: ReviewDecision = action === 'approve'
+      ? { reviewId, action, status, confidence, notes: notes ?? null, verificationId, signedAt }
+      : { reviewId, action, signedAt }
+
+    const signatureCheck = await authorizeReviewSignature(supabase, decision, signerKeyId, signature)
+    if (!signatureCheck.ok) {
+      return new Response(
+        JSON.stringify({ error: signatureCheck.error }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: signatureCheck.status }
+      )
+    }
+
+    const { data: review, error: reviewError } = await supabase
+      .from('verification_review_queue')
+      .select('id, status, claimed_by, verification_id, ai_status, ai_confidence')
+      .eq('id', reviewId)
+      .maybeSingle()
+
+    if (reviewError) throw reviewError
+
+    if (!review) {
+      return new Response(
+        JSON.stringify({ error: 'Review not found' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+      )
+    }
+
+    const conflict = review.status === 'approved'
+      ? 'This review has already been approved'
+      : review.status === 'claimed' && review.claimed_by !== signerKeyId
+        ? `This review is claimed by ${review.claimed_by}`
+        : action === 'claim' && review.status === 'claimed'
+          ? 'You have already claimed this review'
+          : action !== 'claim' && review.status !== 'claimed'
+            ? `Claim this review before you ${action} it`
+            : null
+
+    if (conflict) {
+      return new Response(
+        JSON.stringify({ error: conflict }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+      )
+    }
+
+    if (action === 'approve') {
+      // The signed approval names the AI verdict the reviewer saw
+      if (verificationId !== review.verification_id) {
+        return new Response(
+          JSON.stringify({ error: 'The AI verdict under review has changed; reload and review it again' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+        )
+      }
+
+      const overrides = status !== review.ai_status || confidence !== review.ai_confidence
+      if (overrides && !notes?.trim()) {
+        return new Response(
+          JSON.stringify({ error: 'Notes are required when overriding the AI verdict' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        )
+      }
+
+      const { data: approved, error: approveError } = await supabase.rpc('approve_verification_review', {
+        p_review_id: reviewId,
+        p_reviewer_key_id: signerKeyId,
+        p_status: status,
+        p_confidence: confidence,
+        p_notes: notes ?? null,
+        p_verification_id: verificationId
+      })
+
+      if (approveError) {
+        // Someone else changed the review since it was read
+        console.error('Failed to approve review:', approveError)
+        return new Response(
+          JSON.stringify({ error: 'The review changed while it was being approved; reload and try again' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+        )
+      }
+
+      console.log('Review approved:', approved)
+      return new Response(
+        JSON.stringify({ review: approved }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Conditional on the status read above, so two reviewers cannot both claim
+    const { data: updated, error: updateError } = await supabase
+      .from('verification_reviews')
+      .update(action === 'claim'
+        ? { status: 'claimed', claimed_by: signerKeyId, claimed_at: new Date().toISOString() }
+        : { status: 'pending', claimed_by: null, claimed_at: null })
+      .eq('id', reviewId)
+      .eq('status', review.status)
+      .select()
+      .maybeSingle()
+
+    if (updateError) throw updateError
+
+    if (!updated) {
+      return new Response(
+        JSON.stringify({ error: 'The review changed in the meantime; reload and try again' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 409 }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({ review: updated }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in review-verdict function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
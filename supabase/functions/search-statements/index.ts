@@ -0,0 +1,66 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { searchStatements, SEARCH_MODES } from '../_shared/retrieval.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const MAX_LIMIT = 20
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    )
+
+    const { query, limit = 10, mode = 'hybrid' } = await req.json()
+
+    if (typeof query !== 'string' || !query.trim()) {
+      return new Response(
+        JSON.stringify({ error: 'Query is required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if (!SEARCH_MODES.includes(mode)) {
+      return new Response(
+        JSON.stringify({ error: `Mode must be one of: ${SEARCH_MODES.join(', ')}` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return new Response(
+        JSON.stringify({ error: `Limit must be an integer between 1 and ${MAX_LIMIT}` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const { mode: usedMode, sources } = await searchStatements(supabase, query.trim(), { limit, mode })
+
+    return new Response(
+      JSON.stringify({
+        query: query.trim(),
+        requestedMode: mode,
+        mode: usedMode,
+        results: sources
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in search-statements function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
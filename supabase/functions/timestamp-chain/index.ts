@@ -0,0 +1,69 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { TimestampError } from '../_shared/rfc3161.ts'
+import { timestampHead, TSA_URL } from '../_shared/timestamps.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    if (!TSA_URL) {
+      return new Response(
+        JSON.stringify({ error: 'No timestamp authority is configured' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 503 }
+      )
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // On-demand timestamps ignore the interval and cover the current head
+    let timestamp
+    try {
+      timestamp = await timestampHead(supabase)
+    } catch (tsaError) {
+      if (!(tsaError instanceof TimestampError)) throw tsaError
+      console.error('Timestamp authority error:', tsaError)
+      return new Response(
+        JSON.stringify({ error: tsaError.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 502 }
+      )
+    }
+
+    if (!timestamp) {
+      return new Response(
+        JSON.stringify({
+          timestamp: null,
+          message: 'The chain head is already timestamped'
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    console.log('Chain head timestamped:', timestamp.block_number, timestamp.gen_time)
+    return new Response(
+      JSON.stringify({
+        timestamp,
+        message: `Block #${timestamp.block_number} timestamped at ${timestamp.gen_time}`
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in timestamp-chain function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
@@ -0,0 +1,85 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { AUDIT_COLUMNS, type AuditRow, auditBlocks } from '../_shared/chain-audit.ts'
+import { loadEditorKeys } from '../_shared/editors.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const PAGE_SIZE = 1000
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    )
+
+    // Walk the whole chain oldest-first, one page at a time
+    const rows: AuditRow[] = []
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('veritas_chain')
+        .select(AUDIT_COLUMNS)
+        .order('block_number', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Database error:', error)
+        return new Response(
+          JSON.stringify({ error: 'Failed to read the Veritas chain' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+        )
+      }
+
+      rows.push(...data)
+      if (data.length < PAGE_SIZE) break
+    }
+
+    const { data: forks, error: forksError } = await supabase
+      .from('veritas_chain_forks')
+      .select('*')
+
+    if (forksError) {
+      console.error('Database error:', forksError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to read chain forks' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    const editorKeys = await loadEditorKeys(supabase)
+
+    const { unverifiableBlocks, unsignedBlocks, firstBrokenLink, mismatches } = await auditBlocks(rows, { editorKeys })
+
+    console.log(`Chain audit finished: ${rows.length} blocks, ${mismatches.length} mismatches, ${forks.length} forks`)
+
+    return new Response(
+      JSON.stringify({
+        valid: mismatches.length === 0 && forks.length === 0,
+        totalBlocks: rows.length,
+        unverifiableBlocks,
+        unsignedBlocks,
+        firstBrokenLink,
+        mismatches,
+        forks,
+        checkedAt: new Date().toISOString()
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('Error in verify-chain function:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
@@ -1,5 +1,18 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { canonicalStatementDate, isBlockId, isValidStatementDate } from '../_shared/block.ts'
+import { appendBlock, ChainConflictError } from '../_shared/chain.ts'
+import { checkpointIfDue } from '../_shared/checkpoints.ts'
+import { authorizeEditorSignature, authorizeVerificationSignature, hasServiceRole } from '../_shared/editors.ts'
+import { statementEmbeddingColumns } from '../_shared/embeddings.ts'
+import { type ClaimVerdict, deriveStatementVerdict, extractClaims, toClaimVerdict } from '../_shared/claims.ts'
+import { CONSENSUS_POLICIES, type ConsensusSummary, requestConsensus } from '../_shared/consensus.ts'
+import { getConsensusProviders, getLlmProvider, LlmError } from '../_shared/llm.ts'
+import { enqueueReview, type QueuedReview, reviewReasons } from '../_shared/reviews.ts'
+import { requestVerification, VERIFICATION_FORMAT, VerificationFormatError } from '../_shared/verification.ts'
+import { timestampIfDue } from '../_shared/timestamps.ts'
+import { detectInjection, quoteUntrusted } from '../_shared/untrusted.ts'
+import { getActivePrompt, promptColumns, promptMessages } from '../_shared/prompts.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,222 +27,312 @@ serve(async (req) => {
   try {
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     )
 
-    // Instead of expecting a statementId, we now expect the statement directly
-    const { statement, speaker, sourceUrl, statementDate } = await req.json()
+    // Modes:
+    //   { blockId, signerKeyId,           verdict is added to the block's history;
+    //     signature, signedAt }           signed by an editor or sent with the
+    //                                     service role key
+    //   { statement, ... }                dry run
+    //   { statement, ..., persist: true,  verify and record: the signed statement
+    //     signerKeyId, signature,         is appended and the verdict recorded
+    //     signedAt }
+    // `persist` defaults to true only with a blockId. `persist: false` never
+    // writes, whatever else is sent. Any mode can add `consensus: <policy>` to
+    // ask every model in LLM_CONSENSUS_MODELS instead of the default model.
+    const body = await req.json()
+    const { blockId, signerKeyId, signature, signedAt, consensus: consensusPolicy } = body
+    let { statement, speaker, sourceUrl, statementDate } = body
 
-    if (!statement) {
+    if (body.persist !== undefined && typeof body.persist !== 'boolean') {
       return new Response(
-        JSON.stringify({ error: 'Statement is required' }),
+        JSON.stringify({ error: 'persist must be true or false' }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
       )
     }
+    const persist = body.persist ?? Boolean(blockId)
 
-    const mistralApiKey = Deno.env.get('MISTRAL_API_KEY')
-    
-    if (!mistralApiKey) {
+    if (consensusPolicy !== undefined && !CONSENSUS_POLICIES.includes(consensusPolicy)) {
       return new Response(
-        JSON.stringify({ error: 'Mistral API key not configured' }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+        JSON.stringify({ error: `Consensus policy must be one of: ${CONSENSUS_POLICIES.join(', ')}` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
       )
     }
 
-    // Create verification prompt
-    const prompt = `As a fact-checking expert, analyze this statement for accuracy:
+    if (blockId != null && !isBlockId(blockId)) {
+      return new Response(
+        JSON.stringify({ error: 'blockId must be a UUID' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
 
-Statement: "${statement}"
-Speaker: ${speaker || 'Unknown'}
-Date: ${statementDate || 'Unknown'}
-Source: ${sourceUrl || 'No source provided'}
+    if (blockId) {
+      const { data: block, error: blockError } = await supabase
+        .from('veritas_chain')
+        .select('statement, speaker, source_url, statement_date')
+        .eq('id', blockId)
+        .maybeSingle()
 
-Please provide:
-1. Verification Status: VERIFIED, UNVERIFIED, or DISPUTED
-2. Confidence Level: HIGH, MEDIUM, or LOW
-3. Key Facts: List 2-3 key factual claims that can be verified
-4. Issues Found: Any factual errors, misleading context, or concerns
-5. Additional Context: Relevant background information
-6. Recommendation: Whether this statement should be trusted
+      if (blockError) throw blockError
+      if (!block) {
+        return new Response(
+          JSON.stringify({ error: 'Block not found' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+        )
+      }
 
-Format your response as JSON with these exact keys: status, confidence, keyFacts, issues, context, recommendation, reasoning`
+      statement = block.statement
+      speaker = block.speaker
+      sourceUrl = block.source_url
+      statementDate = block.statement_date
+    }
 
-    // Call Mistral API
-    let aiResponse;
-    try {
-      aiResponse = await fetch('https://api.mistral.ai/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${mistralApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'mistral-small-latest',
-          messages: [
-            { role: 'system', content: 'You are a professional fact-checker. Always respond with valid JSON only.' },
-            { role: 'user', content: prompt }
-          ],
-          max_tokens: 1000,
-          temperature: 0.1
-        }),
-      });
-    } catch (fetchError) {
-      console.error('Mistral API network error:', fetchError);
+    if (!statement) {
       return new Response(
-        JSON.stringify({ 
-          error: 'Failed to connect to Mistral API', 
-          details: fetchError.message 
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 502 }
-      );
+        JSON.stringify({ error: 'Statement is required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
     }
 
-    if (!aiResponse.ok) {
-      const errorText = await aiResponse.text();
-      let errorDetails;
-      
-      try {
-        // Try to parse error as JSON
-        errorDetails = JSON.parse(errorText);
-      } catch {
-        // If not JSON, use text as is
-        errorDetails = errorText;
-      }
-      
-      console.error('Mistral API error response:', errorDetails);
-      
+    // Stored as a DATE, so it is hashed and shown in the form Postgres keeps
+    if (!isValidStatementDate(statementDate)) {
       return new Response(
-        JSON.stringify({ 
-          error: 'Mistral API returned an error', 
-          status: aiResponse.status,
-          details: errorDetails
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 502 }
-      );
+        JSON.stringify({ error: 'statementDate must be a date (YYYY-MM-DD)' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
     }
+    statementDate = canonicalStatementDate(statementDate)
 
-    let aiData;
-    try {
-      aiData = await aiResponse.json();
-    } catch (jsonError) {
-      console.error('Failed to parse Mistral API response as JSON:', jsonError);
-      return new Response(
-        JSON.stringify({ 
-          error: 'Invalid response from Mistral API', 
-          details: 'Response could not be parsed as JSON' 
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 502 }
-      );
+    // Recording a new statement puts it on the chain, so it needs the same
+    // editor signature as add-statement; checked before spending a model call
+    const content = { statement, speaker, sourceUrl, statementDate, blockType: 'statement' as const }
+    const recordsNewBlock = persist && !blockId
+    if (recordsNewBlock) {
+      if (!speaker) {
+        return new Response(
+          JSON.stringify({ error: 'Statement and speaker are required to record a statement' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+        )
+      }
+
+      const signatureCheck = await authorizeEditorSignature(supabase, content, signerKeyId, signature, signedAt)
+      if (!signatureCheck.ok) {
+        return new Response(
+          JSON.stringify({ error: signatureCheck.error }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: signatureCheck.status }
+        )
+      }
+    } else if (persist && !hasServiceRole(req)) {
+      // Verdicts are published with the block, so adding one takes an editor too
+      const signatureCheck = await authorizeVerificationSignature(
+        supabase,
+        { blockId, consensus: consensusPolicy ?? null, signedAt },
+        signerKeyId,
+        signature
+      )
+      if (!signatureCheck.ok) {
+        return new Response(
+          JSON.stringify({ error: signatureCheck.error }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: signatureCheck.status }
+        )
+      }
+    }
+
+    // Inputs that try to instruct the model are verified all the same, but
+    // the verdict goes to a reviewer
+    const injection = detectInjection({ statement, speaker, sourceUrl, statementDate })
+    if (injection.suspicious) {
+      console.warn('Possible prompt injection:', injection.matches)
     }
-    
-    if (!aiData.choices || !aiData.choices[0] || !aiData.choices[0].message || !aiData.choices[0].message.content) {
-      console.error('Unexpected Mistral API response structure:', aiData);
+
+    // The active template from the registry, recorded with the verdict. A
+    // claim is checked in the light of the statement it was extracted from;
+    // everything quoted is untrusted.
+    const prompt = await getActivePrompt(supabase, 'verify')
+    const verificationValues = (claim: string | null) => ({
+      subject: claim ? 'claim' : 'statement',
+      input: claim
+        ? `Claim: ${quoteUntrusted('claim', claim)}\nFrom the statement: ${quoteUntrusted('statement', statement)}`
+        : `Statement: ${quoteUntrusted('statement', statement)}`,
+      speaker: speaker ? quoteUntrusted('speaker', speaker) : 'Unknown',
+      date: statementDate ? quoteUntrusted('date', statementDate) : 'Unknown',
+      source: sourceUrl ? quoteUntrusted('source_url', sourceUrl) : 'No source provided',
+      format: VERIFICATION_FORMAT
+    })
+
+    const verify = async (claim: string | null) => {
+      const messages = promptMessages(prompt, verificationValues(claim));
+
+      if (consensusPolicy) {
+        const panel = getConsensusProviders();
+        const { verification, consensus } = await requestConsensus(panel, messages, consensusPolicy, { maxTokens: 1000, temperature: 0.1 });
+        return { verification, consensus, model: `${consensusPolicy} consensus: ${consensus.votes.map(vote => vote.model).join(', ')}` };
+      }
+
+      const { verification, completion } = await requestVerification(
+        getLlmProvider(),
+        messages,
+        { maxTokens: 1000, temperature: 0.1 }
+      );
+      return { verification, consensus: null, model: `${completion.provider}/${completion.model}` };
+    };
+
+    let verification, model: string, consensus: ConsensusSummary | null = null, claims: ClaimVerdict[] | null = null;
+    try {
+      let extracted: string[];
+      try {
+        extracted = await extractClaims(getLlmProvider(), { statement, speaker, statementDate, sourceUrl });
+      } catch (extractError) {
+        if (!(extractError instanceof VerificationFormatError)) throw extractError;
+        // Splitting is an optimisation; the statement can still be checked whole
+        console.warn('Claim extraction failed, verifying the statement as a whole:', extractError.issues);
+        extracted = [statement];
+      }
+
+      if (extracted.length <= 1) {
+        ({ verification, consensus, model } = await verify(null));
+      } else {
+        const results = await Promise.all(extracted.map(claim => verify(claim)));
+        claims = results.map((result, i) => toClaimVerdict(extracted[i], result.verification, result.model, result.consensus));
+        verification = deriveStatementVerdict(claims);
+        model = [...new Set(results.map(result => result.model))].join('; ');
+      }
+    } catch (llmError) {
+      if (llmError instanceof VerificationFormatError) {
+        // No verdict is better than a made-up one. A statement already on the
+        // chain goes to a reviewer instead; a new one is simply not recorded.
+        let review: QueuedReview | null = null;
+        if (persist && blockId) {
+          try {
+            review = await enqueueReview(
+              supabase,
+              blockId,
+              null,
+              injection.suspicious ? ['format_error', 'suspected_injection'] : ['format_error'],
+              llmError
+            );
+          } catch (reviewError) {
+            console.error('Failed to queue the statement for review:', reviewError);
+          }
+        }
+        return new Response(
+          JSON.stringify({
+            error: llmError.message,
+            code: 'invalid_model_output',
+            attempts: llmError.attempts,
+            issues: llmError.issues,
+            output: llmError.lastOutput.slice(0, 2000),
+            review,
+            injection
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 422 }
+        );
+      }
+      if (!(llmError instanceof LlmError)) throw llmError;
+      console.error('LLM provider error:', llmError.message, llmError.details);
       return new Response(
-        JSON.stringify({ 
-          error: 'Unexpected response structure from Mistral API',
-          details: aiData
+        JSON.stringify({
+          error: llmError.message,
+          status: llmError.status,
+          details: llmError.details
         }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 502 }
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: llmError.kind === 'configuration' ? 500 : 502 }
       );
     }
 
-    let verification;
-    try {
-      // Try to parse the AI response as JSON
-      verification = JSON.parse(aiData.choices[0].message.content);
-      
-      // Validate required fields
-      const requiredFields = ['status', 'confidence', 'keyFacts', 'issues', 'context', 'recommendation', 'reasoning'];
-      const missingFields = requiredFields.filter(field => !verification[field]);
-      
-      if (missingFields.length > 0) {
-        console.warn('Missing fields in verification response:', missingFields);
-        // Add missing fields with default values
-        missingFields.forEach(field => {
-          if (field === 'keyFacts' || field === 'issues') {
-            verification[field] = [];
-          } else {
-            verification[field] = field === 'status' ? 'UNVERIFIED' : 
-                                 field === 'confidence' ? 'LOW' : 
-                                 'Not provided';
-          }
+    console.log(`Verification completed for statement by ${model}`);
+
+    let recordedBlockId = persist ? blockId : null;
+    let block = null;
+    if (recordsNewBlock) {
+      try {
+        block = await appendBlock(supabase, content, {
+          signer_key_id: signerKeyId,
+          signature,
+          signed_at: signedAt,
+          ...await statementEmbeddingColumns(statement)
         });
+      } catch (appendError) {
+        console.error('Database error:', appendError);
+        const conflict = appendError instanceof ChainConflictError;
+        return new Response(
+          JSON.stringify({ error: conflict ? appendError.message : 'Failed to add statement' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: conflict ? 409 : 500 }
+        );
+      }
+      recordedBlockId = block.id;
+
+      try {
+        await checkpointIfDue(supabase);
+      } catch (checkpointError) {
+        // The block is already on the chain; the next append will retry
+        console.error('Failed to create checkpoint:', checkpointError);
+      }
+
+      try {
+        await timestampIfDue(supabase);
+      } catch (timestampError) {
+        // The head is still due, so the next append retries
+        console.error('Failed to timestamp the chain head:', timestampError);
       }
-      
-    } catch (parseError) {
-      console.error('Failed to parse AI content as JSON:', parseError);
-      // Fallback to raw text if JSON parsing fails
-      verification = {
-        status: 'UNVERIFIED',
-        confidence: 'LOW',
-        reasoning: aiData.choices[0].message.content,
-        keyFacts: [],
-        issues: ['AI response parsing failed'],
-        context: '',
-        recommendation: 'Manual review required'
-      };
     }
 
-    console.log('Verification completed for statement');
+    let verificationId = null;
+    if (recordedBlockId) {
+      const { data: stored, error: storeError } = await supabase
+        .from('verifications')
+        .insert({
+          block_id: recordedBlockId,
+          status: verification.status,
+          confidence: verification.confidence,
+          key_facts: verification.keyFacts,
+          issues: verification.issues,
+          context: verification.context,
+          recommendation: verification.recommendation,
+          reasoning: verification.reasoning,
+          model,
+          consensus,
+          claims,
+          injection_flags: injection.suspicious ? injection.matches : null,
+          ...promptColumns(prompt)
+        })
+        .select('id')
+        .single();
 
-    // Optionally store the verification result in the database
-    try {
-      if (statement && speaker) {
-        // Generate a simple hash for the statement
-        const statementHash = await crypto.subtle.digest(
-          "SHA-256",
-          new TextEncoder().encode(statement + speaker)
-        );
-        
-        // Convert hash to hex string
-        const hashArray = Array.from(new Uint8Array(statementHash));
-        const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-        
-        // Get the last block to chain hashes
-        const { data: lastBlock } = await supabase
-          .from('veritas_chain')
-          .select('block_hash')
-          .order('created_at', { ascending: false })
-          .limit(1)
-          .single();
-
-        const previousHash = lastBlock?.block_hash || '0';
-        
-        // Create block hash (combines statement hash with previous hash)
-        const blockHashData = await crypto.subtle.digest(
-          "SHA-256",
-          new TextEncoder().encode(hashHex + previousHash + Date.now().toString())
-        );
-        
-        // Convert block hash to hex string
-        const blockHashArray = Array.from(new Uint8Array(blockHashData));
-        const blockHash = blockHashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-
-        // Store in database with verification result
-        await supabase
-          .from('veritas_chain')
-          .insert({
-            statement,
-            speaker,
-            source_url: sourceUrl,
-            statement_date: statementDate,
-            statement_hash: hashHex,
-            previous_hash: previousHash,
-            block_hash: blockHash,
-            verification_status: verification.status,
-            verification_confidence: verification.confidence
-          });
+      if (storeError) throw storeError;
+      verificationId = stored.id;
+    }
+
+    // AI verdicts are provisional; the doubtful ones are queued for a reviewer
+    let review: QueuedReview | null = null;
+    const reasons = reviewReasons(verification, injection);
+    if (recordedBlockId && reasons.length > 0) {
+      try {
+        review = await enqueueReview(supabase, recordedBlockId, verificationId, reasons);
+      } catch (reviewError) {
+        // The verdict is stored and still shown as provisional
+        console.error('Failed to queue the verdict for review:', reviewError);
       }
-    } catch (dbError) {
-      // Just log the error, don't fail the request
-      console.error('Failed to store verification in database:', dbError);
     }
 
     return new Response(
       JSON.stringify({
         statement,
         speaker: speaker || 'Unknown',
+        mode: persist ? 'record' : 'dry_run',
+        blockId: recordedBlockId ?? blockId ?? null,
+        block,
+        verificationId,
         verification,
+        // Always 'ai': only a reviewer can make a verdict final
+        source: 'ai',
+        review,
+        injection,
+        consensus,
+        claims,
+        model,
+        prompt: { templateId: prompt.id, version: prompt.version },
         timestamp: new Date().toISOString()
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -0,0 +1,21 @@
+-- Versioned block serialization: every block written from now on records the
+-- hash version it was encoded with and the timestamp that went into its hash.
+-- Blocks that existed before this migration are hash version 0 (legacy) and
+-- have no reproducible block hash.
+ALTER TABLE public.veritas_chain ADD COLUMN IF NOT EXISTS hash_version INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.veritas_chain ADD COLUMN IF NOT EXISTS block_timestamp TIMESTAMP WITH TIME ZONE;
+
+-- New inserts must state their hash version explicitly
+ALTER TABLE public.veritas_chain ALTER COLUMN hash_version DROP DEFAULT;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_constraint WHERE conname = 'veritas_chain_block_timestamp_required'
+    ) THEN
+        ALTER TABLE public.veritas_chain
+        ADD CONSTRAINT veritas_chain_block_timestamp_required
+        CHECK (hash_version = 0 OR block_timestamp IS NOT NULL);
+    END IF;
+END
+$$;
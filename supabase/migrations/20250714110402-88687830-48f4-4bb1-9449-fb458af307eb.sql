@@ -0,0 +1,118 @@
+-- Race-free appends: every block gets a monotonically increasing block_number
+-- and new blocks can only be written through append_veritas_block, which
+-- serializes writers and rejects blocks that do not extend the current head.
+
+ALTER TABLE public.veritas_chain ADD COLUMN IF NOT EXISTS block_number BIGINT;
+
+-- Number existing blocks in the order they were written
+WITH numbered AS (
+    SELECT id, row_number() OVER (ORDER BY created_at, id) AS n
+    FROM public.veritas_chain
+)
+UPDATE public.veritas_chain c
+SET block_number = numbered.n
+FROM numbered
+WHERE c.id = numbered.id AND c.block_number IS NULL;
+
+ALTER TABLE public.veritas_chain ALTER COLUMN block_number SET NOT NULL;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'veritas_chain' AND indexname = 'idx_veritas_chain_block_number'
+    ) THEN
+        CREATE UNIQUE INDEX idx_veritas_chain_block_number ON public.veritas_chain(block_number);
+    END IF;
+
+    -- Legacy blocks may already share a parent (see veritas_chain_forks), so
+    -- uniqueness is only enforced for blocks written by append_veritas_block.
+    IF NOT EXISTS (
+        SELECT FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'veritas_chain' AND indexname = 'idx_veritas_chain_unique_parent'
+    ) THEN
+        CREATE UNIQUE INDEX idx_veritas_chain_unique_parent ON public.veritas_chain(previous_hash) WHERE hash_version >= 2;
+    END IF;
+END
+$$;
+
+-- Appends now go through append_veritas_block only
+DROP POLICY IF EXISTS "Admins can insert statements" ON public.veritas_chain;
+
+CREATE OR REPLACE FUNCTION public.append_veritas_block(p_block JSONB)
+RETURNS public.veritas_chain AS $$
+DECLARE
+    new_block public.veritas_chain;
+    head public.veritas_chain;
+    expected_previous_hash TEXT := '0';
+    expected_block_number BIGINT := 1;
+BEGIN
+    -- One writer at a time; released when the transaction ends
+    PERFORM pg_advisory_xact_lock(hashtext('public.veritas_chain:append'));
+
+    new_block := jsonb_populate_record(NULL::public.veritas_chain, p_block);
+
+    SELECT * INTO head FROM public.veritas_chain ORDER BY block_number DESC LIMIT 1;
+    IF FOUND THEN
+        expected_previous_hash := head.block_hash;
+        expected_block_number := head.block_number + 1;
+    END IF;
+
+    IF new_block.previous_hash IS DISTINCT FROM expected_previous_hash
+        OR new_block.block_number IS DISTINCT FROM expected_block_number THEN
+        RAISE EXCEPTION 'Block does not extend the chain head (expected parent % at block %)',
+            expected_previous_hash, expected_block_number
+            USING ERRCODE = 'serialization_failure';
+    END IF;
+
+    PERFORM set_config('veritas.append_in_progress', 'on', true);
+
+    INSERT INTO public.veritas_chain
+    SELECT (new_block).*
+    RETURNING * INTO new_block;
+
+    PERFORM set_config('veritas.append_in_progress', 'off', true);
+
+    RETURN new_block;
+END;
+$$ LANGUAGE plpgsql;
+
+-- id, created_at and updated_at come from their column defaults
+CREATE OR REPLACE FUNCTION public.prepare_veritas_block()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF coalesce(current_setting('veritas.append_in_progress', true), 'off') <> 'on' THEN
+        RAISE EXCEPTION 'Blocks can only be appended through append_veritas_block()';
+    END IF;
+
+    NEW.id := coalesce(NEW.id, gen_random_uuid());
+    NEW.created_at := now();
+    NEW.updated_at := now();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_trigger WHERE tgname = 'prepare_veritas_chain_insert'
+    ) THEN
+        CREATE TRIGGER prepare_veritas_chain_insert
+        BEFORE INSERT ON public.veritas_chain
+        FOR EACH ROW
+        EXECUTE FUNCTION public.prepare_veritas_block();
+    END IF;
+END
+$$;
+
+REVOKE ALL ON FUNCTION public.append_veritas_block(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.append_veritas_block(JSONB) TO service_role;
+
+-- Parents with more than one child, i.e. places where the chain forked
+CREATE OR REPLACE VIEW public.veritas_chain_forks AS
+SELECT
+    previous_hash,
+    count(*) AS child_count,
+    array_agg(block_hash ORDER BY block_number) AS child_block_hashes,
+    array_agg(block_number ORDER BY block_number) AS child_block_numbers
+FROM public.veritas_chain
+GROUP BY previous_hash
+HAVING count(*) > 1;
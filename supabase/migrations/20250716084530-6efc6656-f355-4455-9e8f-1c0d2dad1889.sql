@@ -0,0 +1,34 @@
+-- Merkle checkpoints: each checkpoint seals the block hashes from the block
+-- after the previous checkpoint up to the chain head at the time it was taken.
+CREATE TABLE IF NOT EXISTS public.veritas_checkpoints (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  checkpoint_number BIGINT NOT NULL UNIQUE,
+  first_block_number BIGINT NOT NULL UNIQUE,
+  last_block_number BIGINT NOT NULL,
+  block_count INTEGER NOT NULL,
+  merkle_root TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (last_block_number >= first_block_number),
+  CHECK (block_count = last_block_number - first_block_number + 1)
+);
+
+ALTER TABLE public.veritas_checkpoints ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_policies WHERE schemaname = 'public' AND tablename = 'veritas_checkpoints' AND policyname = 'Anyone can view checkpoints'
+    ) THEN
+        CREATE POLICY "Anyone can view checkpoints"
+        ON public.veritas_checkpoints
+        FOR SELECT
+        USING (true);
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'veritas_checkpoints' AND indexname = 'idx_veritas_checkpoints_block_range'
+    ) THEN
+        CREATE INDEX idx_veritas_checkpoints_block_range ON public.veritas_checkpoints(first_block_number, last_block_number);
+    END IF;
+END
+$$;
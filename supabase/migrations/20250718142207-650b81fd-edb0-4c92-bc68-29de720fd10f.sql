@@ -0,0 +1,52 @@
+-- Editor signing keys. Public keys are base64-encoded raw Ed25519 keys.
+-- Keys are registered and revoked by an administrator with the service role
+-- (SQL editor or CLI); there is deliberately no public write policy.
+CREATE TABLE IF NOT EXISTS public.editor_keys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  key_id TEXT NOT NULL UNIQUE,
+  editor_name TEXT NOT NULL,
+  public_key TEXT NOT NULL,
+  valid_from TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  valid_until TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revocation_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (valid_until IS NULL OR valid_until > valid_from)
+);
+
+ALTER TABLE public.editor_keys ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_policies WHERE schemaname = 'public' AND tablename = 'editor_keys' AND policyname = 'Anyone can view editor keys'
+    ) THEN
+        CREATE POLICY "Anyone can view editor keys"
+        ON public.editor_keys
+        FOR SELECT
+        USING (true);
+    END IF;
+END
+$$;
+
+-- Detached signature over the block's statement hash
+ALTER TABLE public.veritas_chain ADD COLUMN IF NOT EXISTS signer_key_id TEXT REFERENCES public.editor_keys(key_id);
+ALTER TABLE public.veritas_chain ADD COLUMN IF NOT EXISTS signature TEXT;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_constraint WHERE conname = 'veritas_chain_signature_complete'
+    ) THEN
+        ALTER TABLE public.veritas_chain
+        ADD CONSTRAINT veritas_chain_signature_complete
+        CHECK ((signer_key_id IS NULL) = (signature IS NULL));
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'veritas_chain' AND indexname = 'idx_veritas_chain_signer_key_id'
+    ) THEN
+        CREATE INDEX idx_veritas_chain_signer_key_id ON public.veritas_chain(signer_key_id);
+    END IF;
+END
+$$;
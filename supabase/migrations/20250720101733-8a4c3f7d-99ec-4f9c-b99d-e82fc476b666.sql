@@ -0,0 +1,17 @@
+-- The public block explorer looks blocks up by hash and walks forward by parent.
+-- Not unique: legacy 32-bit block hashes are not guaranteed to be distinct.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'veritas_chain' AND indexname = 'idx_veritas_chain_block_hash'
+    ) THEN
+        CREATE INDEX idx_veritas_chain_block_hash ON public.veritas_chain(block_hash);
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'veritas_chain' AND indexname = 'idx_veritas_chain_previous_hash'
+    ) THEN
+        CREATE INDEX idx_veritas_chain_previous_hash ON public.veritas_chain(previous_hash);
+    END IF;
+END
+$$;
@@ -0,0 +1,152 @@
+-- Append-only veritas_chain. Hashed and signed columns can never change and
+-- blocks can never be removed; a statement is amended by appending a
+-- correction or retraction block that supersedes it.
+
+ALTER TABLE public.veritas_chain ADD COLUMN IF NOT EXISTS block_type TEXT NOT NULL DEFAULT 'statement';
+ALTER TABLE public.veritas_chain ADD COLUMN IF NOT EXISTS supersedes_hash TEXT;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_constraint WHERE conname = 'veritas_chain_block_type_check'
+    ) THEN
+        ALTER TABLE public.veritas_chain
+        ADD CONSTRAINT veritas_chain_block_type_check
+        CHECK (block_type IN ('statement', 'correction', 'retraction'));
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT FROM pg_constraint WHERE conname = 'veritas_chain_supersedes_check'
+    ) THEN
+        ALTER TABLE public.veritas_chain
+        ADD CONSTRAINT veritas_chain_supersedes_check
+        CHECK ((block_type = 'statement') = (supersedes_hash IS NULL));
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'veritas_chain' AND indexname = 'idx_veritas_chain_supersedes_hash'
+    ) THEN
+        -- Each block is superseded at most once, so a correction lineage is a single line
+        CREATE UNIQUE INDEX idx_veritas_chain_supersedes_hash ON public.veritas_chain(supersedes_hash) WHERE supersedes_hash IS NOT NULL;
+    END IF;
+END
+$$;
+
+-- Corrections must point at the latest version of an existing statement that
+-- has not been retracted
+CREATE OR REPLACE FUNCTION public.prepare_veritas_block()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF coalesce(current_setting('veritas.append_in_progress', true), 'off') <> 'on' THEN
+        RAISE EXCEPTION 'Blocks can only be appended through append_veritas_block()';
+    END IF;
+
+    IF NEW.supersedes_hash IS NOT NULL THEN
+        IF NOT EXISTS (SELECT FROM public.veritas_chain WHERE block_hash = NEW.supersedes_hash) THEN
+            RAISE EXCEPTION 'Superseded block % does not exist', NEW.supersedes_hash
+                USING ERRCODE = 'foreign_key_violation';
+        END IF;
+
+        IF EXISTS (
+            SELECT FROM public.veritas_chain
+            WHERE block_hash = NEW.supersedes_hash AND block_type = 'retraction'
+        ) THEN
+            RAISE EXCEPTION 'Block % is a retraction and cannot be superseded', NEW.supersedes_hash
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        IF EXISTS (SELECT FROM public.veritas_chain WHERE supersedes_hash = NEW.supersedes_hash) THEN
+            RAISE EXCEPTION 'Block % has already been superseded', NEW.supersedes_hash
+                USING ERRCODE = 'check_violation';
+        END IF;
+    END IF;
+
+    NEW.id := coalesce(NEW.id, gen_random_uuid());
+    NEW.block_type := coalesce(NEW.block_type, 'statement');
+    NEW.created_at := now();
+    NEW.updated_at := now();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only unhashed metadata (verification columns, updated_at) may be updated
+CREATE OR REPLACE FUNCTION public.protect_veritas_block()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        RAISE EXCEPTION 'veritas_chain is append-only: block % cannot be deleted', OLD.block_number;
+    END IF;
+
+    IF (NEW.id, NEW.statement, NEW.speaker, NEW.source_url, NEW.statement_date,
+        NEW.statement_hash, NEW.previous_hash, NEW.block_hash, NEW.block_timestamp,
+        NEW.hash_version, NEW.block_number, NEW.signer_key_id, NEW.signature,
+        NEW.block_type, NEW.supersedes_hash, NEW.created_at)
+       IS DISTINCT FROM
+       (OLD.id, OLD.statement, OLD.speaker, OLD.source_url, OLD.statement_date,
+        OLD.statement_hash, OLD.previous_hash, OLD.block_hash, OLD.block_timestamp,
+        OLD.hash_version, OLD.block_number, OLD.signer_key_id, OLD.signature,
+        OLD.block_type, OLD.supersedes_hash, OLD.created_at) THEN
+        RAISE EXCEPTION 'veritas_chain is append-only: hashed columns of block % cannot be changed', OLD.block_number;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.forbid_veritas_chain_truncate()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'veritas_chain is append-only and cannot be truncated';
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_trigger WHERE tgname = 'protect_veritas_chain_blocks'
+    ) THEN
+        CREATE TRIGGER protect_veritas_chain_blocks
+        BEFORE UPDATE OR DELETE ON public.veritas_chain
+        FOR EACH ROW
+        EXECUTE FUNCTION public.protect_veritas_block();
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT FROM pg_trigger WHERE tgname = 'forbid_veritas_chain_truncate'
+    ) THEN
+        CREATE TRIGGER forbid_veritas_chain_truncate
+        BEFORE TRUNCATE ON public.veritas_chain
+        FOR EACH STATEMENT
+        EXECUTE FUNCTION public.forbid_veritas_chain_truncate();
+    END IF;
+END
+$$;
+
+-- Maps every block in a correction lineage (the original statement and all
+-- of its corrections) to the newest block of that lineage.
+CREATE OR REPLACE VIEW public.veritas_block_resolutions AS
+WITH RECURSIVE lineage AS (
+    SELECT block_hash AS original_hash, block_hash, block_number
+    FROM public.veritas_chain
+    WHERE block_type = 'statement'
+    UNION ALL
+    SELECT lineage.original_hash, c.block_hash, c.block_number
+    FROM lineage
+    JOIN public.veritas_chain c ON c.supersedes_hash = lineage.block_hash
+),
+latest AS (
+    SELECT DISTINCT ON (original_hash) original_hash, block_hash, block_number
+    FROM lineage
+    ORDER BY original_hash, block_number DESC
+)
+SELECT
+    lineage.block_hash,
+    lineage.original_hash,
+    latest.block_hash AS latest_hash,
+    latest.block_number AS latest_block_number,
+    c.block_type AS latest_block_type,
+    c.statement AS latest_statement,
+    c.speaker AS latest_speaker
+FROM lineage
+JOIN latest ON latest.original_hash = lineage.original_hash
+JOIN public.veritas_chain c ON c.block_hash = latest.block_hash AND c.block_number = latest.block_number;
@@ -0,0 +1,32 @@
+-- RFC 3161 timestamp tokens over chain heads. A token over a head's block
+-- hash anchors that block, and every block it links back to, in time
+-- independently of our own created_at values.
+CREATE TABLE IF NOT EXISTS public.chain_timestamps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  block_number BIGINT NOT NULL UNIQUE REFERENCES public.veritas_chain(block_number),
+  block_hash TEXT NOT NULL,
+  tsa_url TEXT NOT NULL,
+  -- DER-encoded TimeStampToken (CMS ContentInfo), base64
+  token TEXT NOT NULL,
+  message_imprint TEXT NOT NULL,
+  nonce TEXT NOT NULL,
+  serial_number TEXT NOT NULL,
+  policy_oid TEXT NOT NULL,
+  gen_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.chain_timestamps ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_policies WHERE schemaname = 'public' AND tablename = 'chain_timestamps' AND policyname = 'Anyone can view chain timestamps'
+    ) THEN
+        CREATE POLICY "Anyone can view chain timestamps"
+        ON public.chain_timestamps
+        FOR SELECT
+        USING (true);
+    END IF;
+END
+$$;
@@ -0,0 +1,64 @@
+-- Verdict history per statement. Re-verifying a statement records a new row
+-- here instead of appending a duplicate block to veritas_chain.
+CREATE TABLE IF NOT EXISTS public.verifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  block_id UUID NOT NULL REFERENCES public.veritas_chain(id),
+  status TEXT NOT NULL CHECK (status IN ('VERIFIED', 'UNVERIFIED', 'DISPUTED')),
+  -- Null only for verdicts carried over from the old veritas_chain columns
+  confidence TEXT CHECK (confidence IN ('HIGH', 'MEDIUM', 'LOW')),
+  key_facts TEXT[] NOT NULL DEFAULT '{}',
+  issues TEXT[] NOT NULL DEFAULT '{}',
+  context TEXT,
+  recommendation TEXT,
+  reasoning TEXT,
+  model TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.verifications ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_policies WHERE schemaname = 'public' AND tablename = 'verifications' AND policyname = 'Anyone can view verifications'
+    ) THEN
+        CREATE POLICY "Anyone can view verifications"
+        ON public.verifications
+        FOR SELECT
+        USING (true);
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'verifications' AND indexname = 'idx_verifications_block_id_created_at'
+    ) THEN
+        CREATE INDEX idx_verifications_block_id_created_at ON public.verifications(block_id, created_at DESC);
+    END IF;
+END
+$$;
+
+-- Carry the single verdict stored on each block over into the history
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'veritas_chain' AND column_name = 'verification_status'
+    ) THEN
+        INSERT INTO public.verifications (block_id, status, confidence, created_at)
+        SELECT
+            id,
+            upper(verification_status),
+            CASE WHEN upper(verification_confidence) IN ('HIGH', 'MEDIUM', 'LOW') THEN upper(verification_confidence) END,
+            updated_at
+        FROM public.veritas_chain
+        WHERE upper(verification_status) IN ('VERIFIED', 'UNVERIFIED', 'DISPUTED');
+
+        ALTER TABLE public.veritas_chain DROP COLUMN verification_status;
+        ALTER TABLE public.veritas_chain DROP COLUMN verification_confidence;
+    END IF;
+END
+$$;
+
+CREATE OR REPLACE VIEW public.latest_verifications AS
+SELECT DISTINCT ON (block_id) *
+FROM public.verifications
+ORDER BY block_id, created_at DESC;
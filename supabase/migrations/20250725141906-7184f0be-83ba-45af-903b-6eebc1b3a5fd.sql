@@ -0,0 +1,10 @@
+-- Per-model votes behind a consensus verdict; null for single-model verdicts
+ALTER TABLE public.verifications ADD COLUMN IF NOT EXISTS consensus JSONB;
+
+-- The view selects *, which Postgres expands to the table's columns when the
+-- view is created, so it only shows consensus once dropped and created again
+DROP VIEW IF EXISTS public.latest_verifications;
+CREATE VIEW public.latest_verifications AS
+SELECT DISTINCT ON (block_id) *
+FROM public.verifications
+ORDER BY block_id, created_at DESC;
@@ -0,0 +1,11 @@
+-- Per-claim verdicts a statement-level verdict was derived from; null when
+-- the statement was verified as a single claim
+ALTER TABLE public.verifications ADD COLUMN IF NOT EXISTS claims JSONB;
+
+-- So the latest verdict comes with its claims; like in 20250725141906, the
+-- view's * is only expanded again when it is created
+DROP VIEW IF EXISTS public.latest_verifications;
+CREATE VIEW public.latest_verifications AS
+SELECT DISTINCT ON (block_id) *
+FROM public.verifications
+ORDER BY block_id, created_at DESC;
@@ -0,0 +1,51 @@
+-- Full-text retrieval of chain statements for ask-veritas.
+--
+-- Any query word may match (the words are OR-ed, so natural questions find
+-- statements), ranked by cover density over idx_veritas_chain_statement_text.
+-- Each hit is resolved to the latest version of its statement: corrected
+-- statements are returned as corrected, retracted ones are dropped, and a
+-- statement matched through several versions appears once.
+CREATE OR REPLACE FUNCTION public.search_veritas_statements(p_query TEXT, p_limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+    id UUID,
+    block_hash TEXT,
+    block_number BIGINT,
+    block_type TEXT,
+    statement TEXT,
+    speaker TEXT,
+    source_url TEXT,
+    statement_date DATE,
+    original_hash TEXT,
+    verification_status TEXT,
+    verification_confidence TEXT,
+    rank REAL
+) AS $$
+    WITH query AS (
+        SELECT to_tsquery('english', replace(plainto_tsquery('english', p_query)::text, ' & ', ' | ')) AS q
+    ),
+    hits AS (
+        SELECT c.block_hash, ts_rank_cd(to_tsvector('english', c.statement), query.q) AS rank
+        FROM public.veritas_chain c, query
+        WHERE query.q IS NOT NULL
+          AND to_tsvector('english', c.statement) @@ query.q
+    ),
+    resolved AS (
+        SELECT DISTINCT ON (r.latest_block_number)
+            r.latest_block_number, r.original_hash, h.rank
+        FROM hits h
+        JOIN public.veritas_block_resolutions r ON r.block_hash = h.block_hash
+        WHERE r.latest_block_type <> 'retraction'
+        ORDER BY r.latest_block_number, h.rank DESC
+    )
+    SELECT
+        c.id, c.block_hash, c.block_number, c.block_type, c.statement, c.speaker,
+        c.source_url, c.statement_date, resolved.original_hash,
+        v.status, v.confidence, resolved.rank
+    FROM resolved
+    JOIN public.veritas_chain c ON c.block_number = resolved.latest_block_number
+    LEFT JOIN public.latest_verifications v ON v.block_id = c.id
+    ORDER BY resolved.rank DESC, c.block_number DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 20);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_veritas_statements(TEXT, INTEGER) TO anon, authenticated, service_role;
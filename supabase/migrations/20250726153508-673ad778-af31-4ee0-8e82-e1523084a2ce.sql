@@ -0,0 +1,129 @@
+-- Semantic search over statements. Embeddings are computed by the edge
+-- functions before a block is appended and stored with it; they are not
+-- hashed, so blocks appended without one can be backfilled later.
+CREATE EXTENSION IF NOT EXISTS vector;
+
+ALTER TABLE public.veritas_chain ADD COLUMN IF NOT EXISTS embedding vector(1024);
+ALTER TABLE public.veritas_chain ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'veritas_chain' AND indexname = 'idx_veritas_chain_embedding'
+    ) THEN
+        CREATE INDEX idx_veritas_chain_embedding ON public.veritas_chain USING hnsw (embedding vector_cosine_ops);
+    END IF;
+END
+$$;
+
+-- Only unhashed metadata (the statement embedding, updated_at) may be updated
+CREATE OR REPLACE FUNCTION public.protect_veritas_block()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        RAISE EXCEPTION 'veritas_chain is append-only: block % cannot be deleted', OLD.block_number;
+    END IF;
+
+    IF (NEW.id, NEW.statement, NEW.speaker, NEW.source_url, NEW.statement_date,
+        NEW.statement_hash, NEW.previous_hash, NEW.block_hash, NEW.block_timestamp,
+        NEW.hash_version, NEW.block_number, NEW.signer_key_id, NEW.signature,
+        NEW.block_type, NEW.supersedes_hash, NEW.created_at)
+       IS DISTINCT FROM
+       (OLD.id, OLD.statement, OLD.speaker, OLD.source_url, OLD.statement_date,
+        OLD.statement_hash, OLD.previous_hash, OLD.block_hash, OLD.block_timestamp,
+        OLD.hash_version, OLD.block_number, OLD.signer_key_id, OLD.signature,
+        OLD.block_type, OLD.supersedes_hash, OLD.created_at) THEN
+        RAISE EXCEPTION 'veritas_chain is append-only: hashed columns of block % cannot be changed', OLD.block_number;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Keyword and vector rankings fused with reciprocal rank fusion:
+-- score = sum over both rankings of weight / (p_rrf_k + rank). A statement
+-- found by only one of them still scores, so paraphrased questions match
+-- through the vector side; p_min_similarity keeps unrelated nearest
+-- neighbours out. Without an embedding this is a keyword search.
+-- Hits resolve to the latest version of their statement as in
+-- search_veritas_statements.
+CREATE OR REPLACE FUNCTION public.hybrid_search_veritas_statements(
+    p_query TEXT,
+    p_embedding vector(1024) DEFAULT NULL,
+    p_limit INTEGER DEFAULT 5,
+    p_keyword_weight REAL DEFAULT 1.0,
+    p_semantic_weight REAL DEFAULT 1.0,
+    p_rrf_k INTEGER DEFAULT 60,
+    p_min_similarity REAL DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    block_hash TEXT,
+    block_number BIGINT,
+    block_type TEXT,
+    statement TEXT,
+    speaker TEXT,
+    source_url TEXT,
+    statement_date DATE,
+    original_hash TEXT,
+    verification_status TEXT,
+    verification_confidence TEXT,
+    keyword_rank BIGINT,
+    semantic_rank BIGINT,
+    similarity REAL,
+    score REAL
+) AS $$
+    WITH query AS (
+        SELECT to_tsquery('english', replace(plainto_tsquery('english', coalesce(p_query, ''))::text, ' & ', ' | ')) AS q
+    ),
+    keyword AS (
+        SELECT c.block_hash,
+               row_number() OVER (ORDER BY ts_rank_cd(to_tsvector('english', c.statement), query.q) DESC) AS rank
+        FROM public.veritas_chain c, query
+        WHERE query.q IS NOT NULL
+          AND to_tsvector('english', c.statement) @@ query.q
+        LIMIT 50
+    ),
+    semantic AS (
+        SELECT c.block_hash,
+               row_number() OVER (ORDER BY c.embedding <=> p_embedding) AS rank,
+               1 - (c.embedding <=> p_embedding) AS similarity
+        FROM public.veritas_chain c
+        WHERE p_embedding IS NOT NULL
+          AND c.embedding IS NOT NULL
+          AND 1 - (c.embedding <=> p_embedding) >= p_min_similarity
+        ORDER BY c.embedding <=> p_embedding
+        LIMIT 50
+    ),
+    fused AS (
+        SELECT coalesce(k.block_hash, s.block_hash) AS block_hash,
+               k.rank AS keyword_rank,
+               s.rank AS semantic_rank,
+               s.similarity,
+               coalesce(p_keyword_weight / (p_rrf_k + k.rank), 0)
+                 + coalesce(p_semantic_weight / (p_rrf_k + s.rank), 0) AS score
+        FROM keyword k
+        FULL OUTER JOIN semantic s ON s.block_hash = k.block_hash
+    ),
+    resolved AS (
+        SELECT DISTINCT ON (r.latest_block_number)
+            r.latest_block_number, r.original_hash, f.keyword_rank, f.semantic_rank, f.similarity, f.score
+        FROM fused f
+        JOIN public.veritas_block_resolutions r ON r.block_hash = f.block_hash
+        WHERE r.latest_block_type <> 'retraction'
+          AND f.score > 0
+        ORDER BY r.latest_block_number, f.score DESC
+    )
+    SELECT
+        c.id, c.block_hash, c.block_number, c.block_type, c.statement, c.speaker,
+        c.source_url, c.statement_date, resolved.original_hash,
+        v.status, v.confidence,
+        resolved.keyword_rank, resolved.semantic_rank, resolved.similarity::REAL, resolved.score::REAL
+    FROM resolved
+    JOIN public.veritas_chain c ON c.block_number = resolved.latest_block_number
+    LEFT JOIN public.latest_verifications v ON v.block_id = c.id
+    ORDER BY resolved.score DESC, c.block_number DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 20);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.hybrid_search_veritas_statements(TEXT, vector, INTEGER, REAL, REAL, INTEGER, REAL) TO anon, authenticated, service_role;
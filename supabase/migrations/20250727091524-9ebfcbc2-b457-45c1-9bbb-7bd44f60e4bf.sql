@@ -0,0 +1,92 @@
+-- Duplicate detection for new statements. The same quote keeps being
+-- recorded from different outlets, so add-statement looks for earlier
+-- blocks saying the same thing before appending and asks the editor to
+-- confirm.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Case, punctuation and spacing do not make a quote different
+CREATE OR REPLACE FUNCTION public.normalize_statement_text(p_text TEXT)
+RETURNS TEXT AS $$
+    SELECT btrim(regexp_replace(lower(normalize(coalesce(p_text, ''), NFKC)), '[^[:alnum:]]+', ' ', 'g'));
+$$ LANGUAGE sql IMMUTABLE;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'veritas_chain' AND indexname = 'idx_veritas_chain_normalized_statement'
+    ) THEN
+        CREATE INDEX idx_veritas_chain_normalized_statement
+            ON public.veritas_chain (public.normalize_statement_text(speaker), public.normalize_statement_text(statement));
+    END IF;
+END
+$$;
+
+-- Earlier statements that duplicate the given one:
+--   exact  same normalized statement and speaker
+--   near   trigram similarity of the normalized text of at least
+--          p_min_text_similarity, or cosine similarity of the embeddings
+--          of at least p_min_semantic_similarity, whoever the speaker
+-- Retractions, and statements that have since been retracted, are not
+-- duplicates. Each corrected statement is reported once, by its best
+-- matching version.
+CREATE OR REPLACE FUNCTION public.find_duplicate_statements(
+    p_statement TEXT,
+    p_speaker TEXT,
+    p_embedding vector(1024) DEFAULT NULL,
+    p_limit INTEGER DEFAULT 5,
+    p_min_text_similarity REAL DEFAULT 0.6,
+    p_min_semantic_similarity REAL DEFAULT 0.9
+)
+RETURNS TABLE (
+    id UUID,
+    block_hash TEXT,
+    block_number BIGINT,
+    block_type TEXT,
+    statement TEXT,
+    speaker TEXT,
+    source_url TEXT,
+    statement_date DATE,
+    match_type TEXT,
+    same_speaker BOOLEAN,
+    text_similarity REAL,
+    semantic_similarity REAL
+) AS $$
+    WITH input AS (
+        SELECT public.normalize_statement_text(p_statement) AS statement,
+               public.normalize_statement_text(p_speaker) AS speaker
+    ),
+    candidates AS (
+        SELECT c.block_hash,
+               public.normalize_statement_text(c.statement) = input.statement
+                 AND public.normalize_statement_text(c.speaker) = input.speaker AS exact,
+               public.normalize_statement_text(c.speaker) = input.speaker AS same_speaker,
+               similarity(public.normalize_statement_text(c.statement), input.statement) AS text_similarity,
+               CASE WHEN p_embedding IS NOT NULL AND c.embedding IS NOT NULL
+                    THEN 1 - (c.embedding <=> p_embedding) END AS semantic_similarity
+        FROM public.veritas_chain c, input
+        WHERE c.block_type <> 'retraction'
+    ),
+    matches AS (
+        SELECT DISTINCT ON (r.original_hash)
+            cand.block_hash, cand.exact, cand.same_speaker, cand.text_similarity, cand.semantic_similarity,
+            greatest(cand.text_similarity, coalesce(cand.semantic_similarity, 0)) AS best_similarity
+        FROM candidates cand
+        JOIN public.veritas_block_resolutions r ON r.block_hash = cand.block_hash
+        WHERE r.latest_block_type <> 'retraction'
+          AND (cand.exact
+               OR cand.text_similarity >= p_min_text_similarity
+               OR cand.semantic_similarity >= p_min_semantic_similarity)
+        ORDER BY r.original_hash, cand.exact DESC, greatest(cand.text_similarity, coalesce(cand.semantic_similarity, 0)) DESC
+    )
+    SELECT
+        c.id, c.block_hash, c.block_number, c.block_type, c.statement, c.speaker,
+        c.source_url, c.statement_date,
+        CASE WHEN m.exact THEN 'exact' ELSE 'near' END,
+        m.same_speaker, m.text_similarity::REAL, m.semantic_similarity::REAL
+    FROM matches m
+    JOIN public.veritas_chain c ON c.block_hash = m.block_hash
+    ORDER BY m.exact DESC, m.best_similarity DESC, c.block_number DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 20);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.find_duplicate_statements(TEXT, TEXT, vector, INTEGER, REAL, REAL) TO anon, authenticated, service_role;
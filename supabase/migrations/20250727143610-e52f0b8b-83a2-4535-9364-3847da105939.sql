@@ -0,0 +1,244 @@
+-- Human review of AI verdicts. Verdicts that are DISPUTED or LOW confidence,
+-- and verifications whose model output could not be parsed, are queued for
+-- an editor, who claims the review and approves the verdict, overriding it
+-- with notes where the model got it wrong. The approved verdict is recorded
+-- as a new human verification; the AI verdict it was based on is kept.
+
+-- 'ai' verdicts are provisional until a reviewer approves one
+ALTER TABLE public.verifications ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'ai' CHECK (source IN ('ai', 'human'));
+ALTER TABLE public.verifications ADD COLUMN IF NOT EXISTS reviewer_key_id TEXT;
+
+CREATE TABLE IF NOT EXISTS public.verification_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  block_id UUID NOT NULL REFERENCES public.veritas_chain(id),
+  -- The AI verdict under review; null when the model output failed to parse
+  verification_id UUID REFERENCES public.verifications(id),
+  reasons TEXT[] NOT NULL CHECK (reasons <@ ARRAY['disputed', 'low_confidence', 'format_error'] AND cardinality(reasons) > 0),
+  -- What the model returned when it could not be parsed: { issues, output }
+  ai_output JSONB,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'claimed', 'approved')),
+  claimed_by TEXT,
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  decision_status TEXT CHECK (decision_status IN ('VERIFIED', 'UNVERIFIED', 'DISPUTED')),
+  decision_confidence TEXT CHECK (decision_confidence IN ('HIGH', 'MEDIUM', 'LOW')),
+  -- True when the reviewer changed the AI's status or confidence
+  overridden BOOLEAN,
+  notes TEXT,
+  decision_verification_id UUID REFERENCES public.verifications(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.verification_reviews ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_policies WHERE schemaname = 'public' AND tablename = 'verification_reviews' AND policyname = 'Anyone can view verification reviews'
+    ) THEN
+        CREATE POLICY "Anyone can view verification reviews"
+        ON public.verification_reviews
+        FOR SELECT
+        USING (true);
+    END IF;
+
+    -- A statement has at most one open review; newer AI verdicts update it
+    IF NOT EXISTS (
+        SELECT FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'verification_reviews' AND indexname = 'idx_verification_reviews_open_block'
+    ) THEN
+        CREATE UNIQUE INDEX idx_verification_reviews_open_block ON public.verification_reviews(block_id) WHERE status <> 'approved';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'verification_reviews' AND indexname = 'idx_verification_reviews_status_created_at'
+    ) THEN
+        CREATE INDEX idx_verification_reviews_status_created_at ON public.verification_reviews(status, created_at);
+    END IF;
+END
+$$;
+
+DROP TRIGGER IF EXISTS update_verification_reviews_updated_at ON public.verification_reviews;
+CREATE TRIGGER update_verification_reviews_updated_at
+    BEFORE UPDATE ON public.verification_reviews
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Queues a review for a block, or points its open review at the newer AI output
+CREATE OR REPLACE FUNCTION public.enqueue_verification_review(
+    p_block_id UUID,
+    p_verification_id UUID,
+    p_reasons TEXT[],
+    p_ai_output JSONB DEFAULT NULL
+)
+RETURNS public.verification_reviews AS $$
+    INSERT INTO public.verification_reviews (block_id, verification_id, reasons, ai_output)
+    VALUES (p_block_id, p_verification_id, p_reasons, p_ai_output)
+    ON CONFLICT (block_id) WHERE status <> 'approved' DO UPDATE
+    SET verification_id = EXCLUDED.verification_id,
+        reasons = EXCLUDED.reasons,
+        ai_output = EXCLUDED.ai_output
+    RETURNING *;
+$$ LANGUAGE sql;
+
+-- Records the reviewer's verdict as a human verification and closes the
+-- review, atomically. Only the reviewer who claimed it can approve it.
+CREATE OR REPLACE FUNCTION public.approve_verification_review(
+    p_review_id UUID,
+    p_reviewer_key_id TEXT,
+    p_status TEXT,
+    p_confidence TEXT,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS public.verification_reviews AS $$
+DECLARE
+    review public.verification_reviews;
+    ai public.verifications;
+    decision_id UUID;
+    is_override BOOLEAN;
+BEGIN
+    SELECT * INTO review FROM public.verification_reviews WHERE id = p_review_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Review % does not exist', p_review_id;
+    END IF;
+    IF review.status <> 'claimed' OR review.claimed_by IS DISTINCT FROM p_reviewer_key_id THEN
+        RAISE EXCEPTION 'Review % is not claimed by %', p_review_id, p_reviewer_key_id;
+    END IF;
+
+    SELECT * INTO ai FROM public.verifications WHERE id = review.verification_id;
+    is_override := ai.id IS NULL OR ai.status IS DISTINCT FROM p_status OR ai.confidence IS DISTINCT FROM p_confidence;
+
+    INSERT INTO public.verifications (
+        block_id, status, confidence, key_facts, issues, context, recommendation, reasoning, source, reviewer_key_id
+    )
+    VALUES (
+        review.block_id, p_status, p_confidence,
+        coalesce(ai.key_facts, '{}'), coalesce(ai.issues, '{}'), ai.context,
+        CASE WHEN is_override THEN NULL ELSE ai.recommendation END,
+        coalesce(nullif(btrim(p_notes), ''), 'Approved by a reviewer.'),
+        'human', p_reviewer_key_id
+    )
+    RETURNING id INTO decision_id;
+
+    UPDATE public.verification_reviews
+    SET status = 'approved',
+        decision_status = p_status,
+        decision_confidence = p_confidence,
+        overridden = is_override,
+        notes = nullif(btrim(p_notes), ''),
+        decision_verification_id = decision_id,
+        reviewed_at = now()
+    WHERE id = p_review_id
+    RETURNING * INTO review;
+
+    RETURN review;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_verification_review(UUID, UUID, TEXT[], JSONB) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.approve_verification_review(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.enqueue_verification_review(UUID, UUID, TEXT[], JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.approve_verification_review(UUID, TEXT, TEXT, TEXT, TEXT) TO service_role;
+
+-- A reviewed verdict stays the current one even if the statement is
+-- re-verified by a model afterwards
+DROP VIEW IF EXISTS public.latest_verifications;
+CREATE VIEW public.latest_verifications AS
+SELECT DISTINCT ON (block_id) *
+FROM public.verifications
+ORDER BY block_id, source = 'human' DESC, created_at DESC;
+
+-- The reviewer queue, with the statement and the AI verdict under review
+CREATE OR REPLACE VIEW public.verification_review_queue AS
+SELECT
+    r.*,
+    c.block_hash, c.block_number, c.statement, c.speaker, c.source_url, c.statement_date,
+    v.status AS ai_status, v.confidence AS ai_confidence, v.reasoning AS ai_reasoning,
+    v.key_facts AS ai_key_facts, v.issues AS ai_issues, v.model AS ai_model, v.claims AS ai_claims
+FROM public.verification_reviews r
+JOIN public.veritas_chain c ON c.id = r.block_id
+LEFT JOIN public.verifications v ON v.id = r.verification_id;
+
+-- Search results say whether a verdict is still provisional
+DROP FUNCTION IF EXISTS public.hybrid_search_veritas_statements(TEXT, vector, INTEGER, REAL, REAL, INTEGER, REAL);
+CREATE FUNCTION public.hybrid_search_veritas_statements(
+    p_query TEXT,
+    p_embedding vector(1024) DEFAULT NULL,
+    p_limit INTEGER DEFAULT 5,
+    p_keyword_weight REAL DEFAULT 1.0,
+    p_semantic_weight REAL DEFAULT 1.0,
+    p_rrf_k INTEGER DEFAULT 60,
+    p_min_similarity REAL DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    block_hash TEXT,
+    block_number BIGINT,
+    block_type TEXT,
+    statement TEXT,
+    speaker TEXT,
+    source_url TEXT,
+    statement_date DATE,
+    original_hash TEXT,
+    verification_status TEXT,
+    verification_confidence TEXT,
+    verification_source TEXT,
+    keyword_rank BIGINT,
+    semantic_rank BIGINT,
+    similarity REAL,
+    score REAL
+) AS $$
+    WITH query AS (
+        SELECT to_tsquery('english', replace(plainto_tsquery('english', coalesce(p_query, ''))::text, ' & ', ' | ')) AS q
+    ),
+    keyword AS (
+        SELECT c.block_hash,
+               row_number() OVER (ORDER BY ts_rank_cd(to_tsvector('english', c.statement), query.q) DESC) AS rank
+        FROM public.veritas_chain c, query
+        WHERE query.q IS NOT NULL
+          AND to_tsvector('english', c.statement) @@ query.q
+        LIMIT 50
+    ),
+    semantic AS (
+        SELECT c.block_hash,
+               row_number() OVER (ORDER BY c.embedding <=> p_embedding) AS rank,
+               1 - (c.embedding <=> p_embedding) AS similarity
+        FROM public.veritas_chain c
+        WHERE p_embedding IS NOT NULL
+          AND c.embedding IS NOT NULL
+          AND 1 - (c.embedding <=> p_embedding) >= p_min_similarity
+        ORDER BY c.embedding <=> p_embedding
+        LIMIT 50
+    ),
+    fused AS (
+        SELECT coalesce(k.block_hash, s.block_hash) AS block_hash,
+               k.rank AS keyword_rank,
+               s.rank AS semantic_rank,
+               s.similarity,
+               coalesce(p_keyword_weight / (p_rrf_k + k.rank), 0)
+                 + coalesce(p_semantic_weight / (p_rrf_k + s.rank), 0) AS score
+        FROM keyword k
+        FULL OUTER JOIN semantic s ON s.block_hash = k.block_hash
+    ),
+    resolved AS (
+        SELECT DISTINCT ON (r.latest_block_number)
+            r.latest_block_number, r.original_hash, f.keyword_rank, f.semantic_rank, f.similarity, f.score
+        FROM fused f
+        JOIN public.veritas_block_resolutions r ON r.block_hash = f.block_hash
+        WHERE r.latest_block_type <> 'retraction'
+          AND f.score > 0
+        ORDER BY r.latest_block_number, f.score DESC
+    )
+    SELECT
+        c.id, c.block_hash, c.block_number, c.block_type, c.statement, c.speaker,
+        c.source_url, c.statement_date, resolved.original_hash,
+        v.status, v.confidence, v.source,
+        resolved.keyword_rank, resolved.semantic_rank, resolved.similarity::REAL, resolved.score::REAL
+    FROM resolved
+    JOIN public.veritas_chain c ON c.block_number = resolved.latest_block_number
+    LEFT JOIN public.latest_verifications v ON v.block_id = c.id
+    ORDER BY resolved.score DESC, c.block_number DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 20);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.hybrid_search_veritas_statements(TEXT, vector, INTEGER, REAL, REAL, INTEGER, REAL) TO anon, authenticated, service_role;
@@ -0,0 +1,3 @@
+-- ask-veritas answers carry the claims they cite: [{ quote, sources }],
+-- where sources are the numbers of the statements in the message's sources
+ALTER TABLE public.chat_history ADD COLUMN IF NOT EXISTS citations JSONB;
@@ -0,0 +1,29 @@
+-- Statements whose text reads like instructions to the model are flagged by
+-- verify-statement. The matches are kept with the verdict, and the verdict
+-- is queued for review with the reason 'suspected_injection'.
+
+-- [{ field, pattern, excerpt }]; null when nothing looked suspicious
+ALTER TABLE public.verifications ADD COLUMN IF NOT EXISTS injection_flags JSONB;
+
+ALTER TABLE public.verification_reviews DROP CONSTRAINT IF EXISTS verification_reviews_reasons_check;
+ALTER TABLE public.verification_reviews ADD CONSTRAINT verification_reviews_reasons_check
+  CHECK (reasons <@ ARRAY['disputed', 'low_confidence', 'format_error', 'suspected_injection'] AND cardinality(reasons) > 0);
+
+-- Same ordering as in 20250727143610 (reviewed verdicts first); created
+-- again only to add injection_flags to each block's latest verdict
+DROP VIEW IF EXISTS public.latest_verifications;
+CREATE VIEW public.latest_verifications AS
+SELECT DISTINCT ON (block_id) *
+FROM public.verifications
+ORDER BY block_id, source = 'human' DESC, created_at DESC;
+
+CREATE OR REPLACE VIEW public.verification_review_queue AS
+SELECT
+    r.*,
+    c.block_hash, c.block_number, c.statement, c.speaker, c.source_url, c.statement_date,
+    v.status AS ai_status, v.confidence AS ai_confidence, v.reasoning AS ai_reasoning,
+    v.key_facts AS ai_key_facts, v.issues AS ai_issues, v.model AS ai_model, v.claims AS ai_claims,
+    v.injection_flags AS ai_injection_flags
+FROM public.verification_reviews r
+JOIN public.veritas_chain c ON c.id = r.block_id
+LEFT JOIN public.verifications v ON v.id = r.verification_id;
@@ -0,0 +1,137 @@
+-- Versioned prompt templates for verify-statement ('verify') and
+-- ask-veritas ('ask'). Editors add versions and activate one per use case
+-- through the prompt-templates function; each verdict and chat answer
+-- records the version it was produced with.
+
+CREATE TABLE IF NOT EXISTS public.prompt_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  use_case TEXT NOT NULL CHECK (use_case IN ('verify', 'ask')),
+  version INTEGER NOT NULL CHECK (version > 0),
+  system_prompt TEXT NOT NULL,
+  -- User message with {{variables}} the function fills in
+  template TEXT NOT NULL,
+  variables TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  created_by TEXT,
+  activated_by TEXT,
+  activated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (use_case, version)
+);
+
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_policies WHERE schemaname = 'public' AND tablename = 'prompt_templates' AND policyname = 'Anyone can view prompt templates'
+    ) THEN
+        CREATE POLICY "Anyone can view prompt templates"
+        ON public.prompt_templates
+        FOR SELECT
+        USING (true);
+    END IF;
+
+    -- At most one active version per use case
+    IF NOT EXISTS (
+        SELECT FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'prompt_templates' AND indexname = 'idx_prompt_templates_active'
+    ) THEN
+        CREATE UNIQUE INDEX idx_prompt_templates_active ON public.prompt_templates(use_case) WHERE is_active;
+    END IF;
+END
+$$;
+
+-- Makes a version the active one for its use case, atomically. Returns null
+-- when there is no such template.
+CREATE OR REPLACE FUNCTION public.activate_prompt_template(
+    p_template_id UUID,
+    p_activated_by TEXT
+)
+RETURNS public.prompt_templates AS $$
+DECLARE
+    chosen public.prompt_templates;
+BEGIN
+    SELECT * INTO chosen FROM public.prompt_templates WHERE id = p_template_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE public.prompt_templates
+    SET is_active = false
+    WHERE use_case = chosen.use_case AND is_active AND id <> p_template_id;
+
+    UPDATE public.prompt_templates
+    SET is_active = true,
+        activated_by = p_activated_by,
+        activated_at = now()
+    WHERE id = p_template_id
+    RETURNING * INTO chosen;
+
+    RETURN chosen;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.activate_prompt_template(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.activate_prompt_template(UUID, TEXT) TO service_role;
+
+-- Version 1 is the prompt each function shipped with
+INSERT INTO public.prompt_templates (use_case, version, system_prompt, template, variables, is_active, notes)
+VALUES
+    ('verify', 1,
+     $prompt$You are a professional fact-checker. Always respond with valid JSON only.$prompt$,
+     $prompt$As a fact-checking expert, analyze this {{subject}} for accuracy:
+
+{{input}}
+Speaker: {{speaker}}
+Date: {{date}}
+Source: {{source}}
+
+Please provide:
+1. Verification Status: VERIFIED, UNVERIFIED, or DISPUTED
+2. Confidence Level: HIGH, MEDIUM, or LOW
+3. Key Facts: List 2-3 key factual claims that can be verified
+4. Issues Found: Any factual errors, misleading context, or concerns
+5. Additional Context: Relevant background information
+6. Recommendation: Whether this {{subject}} should be trusted
+
+{{format}}$prompt$,
+     ARRAY['subject', 'input', 'speaker', 'date', 'source', 'format'],
+     true, 'The prompt verify-statement was built with'),
+    ('ask', 1,
+     $prompt$You are Veritas, a precise fact-checking assistant that provides accurate information based on verified facts.$prompt$,
+     $prompt$You are Veritas, a fact-checking assistant. A user has asked the following question{{conversation_note}}:
+
+User Query: {{query}}
+
+{{sources}}
+
+Please provide a factual response that:
+1. Directly addresses the query with accurate information
+2. Relies on the recorded statements above where they are relevant and cites them by number, e.g. [1]; say so when they do not settle the question
+3. Never attributes a quote to a speaker unless it appears in the recorded statements
+4. Never presents a provisional AI verdict as settled; only reviewed verdicts are final
+5. Acknowledges any limitations or uncertainties
+6. Is objective and unbiased
+
+Your response should be informative, helpful, and factually accurate.
+
+{{format}}$prompt$,
+     ARRAY['conversation_note', 'query', 'sources', 'format'],
+     true, 'The prompt ask-veritas was built with')
+ON CONFLICT (use_case, version) DO NOTHING;
+
+-- Which template version produced a verdict or answer; null for the built-in
+-- prompt the functions fall back to
+ALTER TABLE public.verifications ADD COLUMN IF NOT EXISTS prompt_template_id UUID REFERENCES public.prompt_templates(id);
+ALTER TABLE public.verifications ADD COLUMN IF NOT EXISTS prompt_version INTEGER;
+ALTER TABLE public.chat_history ADD COLUMN IF NOT EXISTS prompt_template_id UUID REFERENCES public.prompt_templates(id);
+ALTER TABLE public.chat_history ADD COLUMN IF NOT EXISTS prompt_version INTEGER;
+
+-- Each block's latest verdict also names the prompt template and version
+-- that produced it
+DROP VIEW IF EXISTS public.latest_verifications;
+CREATE VIEW public.latest_verifications AS
+SELECT DISTINCT ON (block_id) *
+FROM public.verifications
+ORDER BY block_id, source = 'human' DESC, created_at DESC;
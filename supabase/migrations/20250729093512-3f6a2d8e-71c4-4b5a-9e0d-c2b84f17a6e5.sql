@@ -0,0 +1,61 @@
+-- Editor signatures carry the time they were made and are accepted once.
+-- Signatures are public on veritas_chain, so without this anyone could
+-- replay a published one to append, review or change prompts as its editor.
+
+-- The ISO time the editor signed at, exactly as signed; null for blocks
+-- signed before signatures carried a time. Not hashed, like the signature.
+ALTER TABLE public.veritas_chain ADD COLUMN IF NOT EXISTS signed_at TEXT;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_constraint WHERE conname = 'veritas_chain_signed_at_signed'
+    ) THEN
+        ALTER TABLE public.veritas_chain
+        ADD CONSTRAINT veritas_chain_signed_at_signed
+        CHECK (signed_at IS NULL OR signature IS NOT NULL);
+    END IF;
+END
+$$;
+
+-- Every signature the functions have accepted, whatever it authorized
+CREATE TABLE IF NOT EXISTS public.editor_signature_uses (
+    signature TEXT NOT NULL PRIMARY KEY,
+    signer_key_id TEXT NOT NULL REFERENCES public.editor_keys(key_id),
+    purpose TEXT NOT NULL CHECK (purpose IN ('block', 'review', 'prompt_template')),
+    used_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Only the functions, through the service role, read or write it
+ALTER TABLE public.editor_signature_uses ENABLE ROW LEVEL SECURITY;
+
+-- Signatures accepted before this migration count as used
+INSERT INTO public.editor_signature_uses (signature, signer_key_id, purpose, used_at)
+SELECT signature, signer_key_id, 'block', created_at
+FROM public.veritas_chain
+WHERE signature IS NOT NULL
+ON CONFLICT (signature) DO NOTHING;
+
+-- signed_at is covered by the signature, so it is as immutable as the rest
+CREATE OR REPLACE FUNCTION public.protect_veritas_block()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        RAISE EXCEPTION 'veritas_chain is append-only: block % cannot be deleted', OLD.block_number;
+    END IF;
+
+    IF (NEW.id, NEW.statement, NEW.speaker, NEW.source_url, NEW.statement_date,
+        NEW.statement_hash, NEW.previous_hash, NEW.block_hash, NEW.block_timestamp,
+        NEW.hash_version, NEW.block_number, NEW.signer_key_id, NEW.signature,
+        NEW.signed_at, NEW.block_type, NEW.supersedes_hash, NEW.created_at)
+       IS DISTINCT FROM
+       (OLD.id, OLD.statement, OLD.speaker, OLD.source_url, OLD.statement_date,
+        OLD.statement_hash, OLD.previous_hash, OLD.block_hash, OLD.block_timestamp,
+        OLD.hash_version, OLD.block_number, OLD.signer_key_id, OLD.signature,
+        OLD.signed_at, OLD.block_type, OLD.supersedes_hash, OLD.created_at) THEN
+        RAISE EXCEPTION 'veritas_chain is append-only: hashed columns of block % cannot be changed', OLD.block_number;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,101 @@
+-- A claimed review keeps the AI output its reviewer is looking at, and an
+-- approval must name the AI verdict it was made against, so a newer verdict
+-- that arrived while the reviewer read the old one is never approved unseen.
+
+-- Queues a review for a block, or points its open review at the newer AI
+-- output while no one has claimed it. A claimed review is returned as is:
+-- the reviewer's verdict will supersede the newer AI one anyway.
+CREATE OR REPLACE FUNCTION public.enqueue_verification_review(
+    p_block_id UUID,
+    p_verification_id UUID,
+    p_reasons TEXT[],
+    p_ai_output JSONB DEFAULT NULL
+)
+RETURNS public.verification_reviews AS $$
+DECLARE
+    review public.verification_reviews;
+BEGIN
+    INSERT INTO public.verification_reviews (block_id, verification_id, reasons, ai_output)
+    VALUES (p_block_id, p_verification_id, p_reasons, p_ai_output)
+    ON CONFLICT (block_id) WHERE status <> 'approved' DO UPDATE
+    SET verification_id = EXCLUDED.verification_id,
+        reasons = EXCLUDED.reasons,
+        ai_output = EXCLUDED.ai_output
+    WHERE public.verification_reviews.status = 'pending'
+    RETURNING * INTO review;
+
+    IF NOT FOUND THEN
+        SELECT * INTO review
+        FROM public.verification_reviews
+        WHERE block_id = p_block_id AND status <> 'approved';
+    END IF;
+
+    RETURN review;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Records the reviewer's verdict as a human verification and closes the
+-- review, atomically. Only the reviewer who claimed it can approve it, and
+-- only against the AI verdict they reviewed (null when its output failed
+-- to parse).
+DROP FUNCTION IF EXISTS public.approve_verification_review(UUID, TEXT, TEXT, TEXT, TEXT);
+CREATE FUNCTION public.approve_verification_review(
+    p_review_id UUID,
+    p_reviewer_key_id TEXT,
+    p_status TEXT,
+    p_confidence TEXT,
+    p_notes TEXT DEFAULT NULL,
+    p_verification_id UUID DEFAULT NULL
+)
+RETURNS public.verification_reviews AS $$
+DECLARE
+    review public.verification_reviews;
+    ai public.verifications;
+    decision_id UUID;
+    is_override BOOLEAN;
+BEGIN
+    SELECT * INTO review FROM public.verification_reviews WHERE id = p_review_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Review % does not exist', p_review_id;
+    END IF;
+    IF review.status <> 'claimed' OR review.claimed_by IS DISTINCT FROM p_reviewer_key_id THEN
+        RAISE EXCEPTION 'Review % is not claimed by %', p_review_id, p_reviewer_key_id;
+    END IF;
+    IF review.verification_id IS DISTINCT FROM p_verification_id THEN
+        RAISE EXCEPTION 'Review % is for verification %, not %', p_review_id, review.verification_id, p_verification_id;
+    END IF;
+
+    SELECT * INTO ai FROM public.verifications WHERE id = review.verification_id;
+    is_override := ai.id IS NULL OR ai.status IS DISTINCT FROM p_status OR ai.confidence IS DISTINCT FROM p_confidence;
+
+    INSERT INTO public.verifications (
+        block_id, status, confidence, key_facts, issues, context, recommendation, reasoning, source, reviewer_key_id
+    )
+    VALUES (
+        review.block_id, p_status, p_confidence,
+        coalesce(ai.key_facts, '{}'), coalesce(ai.issues, '{}'), ai.context,
+        CASE WHEN is_override THEN NULL ELSE ai.recommendation END,
+        coalesce(nullif(btrim(p_notes), ''), 'Approved by a reviewer.'),
+        'human', p_reviewer_key_id
+    )
+    RETURNING id INTO decision_id;
+
+    UPDATE public.verification_reviews
+    SET status = 'approved',
+        decision_status = p_status,
+        decision_confidence = p_confidence,
+        overridden = is_override,
+        notes = nullif(btrim(p_notes), ''),
+        decision_verification_id = decision_id,
+        reviewed_at = now()
+    WHERE id = p_review_id
+    RETURNING * INTO review;
+
+    RETURN review;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_verification_review(UUID, UUID, TEXT[], JSONB) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.approve_verification_review(UUID, TEXT, TEXT, TEXT, TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.enqueue_verification_review(UUID, UUID, TEXT[], JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.approve_verification_review(UUID, TEXT, TEXT, TEXT, TEXT, UUID) TO service_role;
@@ -0,0 +1,107 @@
+-- Duplicate detection without scanning the whole chain. Candidates are
+-- found through indexes (the normalized speaker and statement for exact
+-- matches, trigrams for similar wording, the HNSW index for similar
+-- meaning) and only those are scored.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT FROM pg_indexes WHERE schemaname = 'public' AND tablename = 'veritas_chain' AND indexname = 'idx_veritas_chain_normalized_statement_trgm'
+    ) THEN
+        CREATE INDEX idx_veritas_chain_normalized_statement_trgm
+            ON public.veritas_chain USING gin (public.normalize_statement_text(statement) gin_trgm_ops);
+    END IF;
+END
+$$;
+
+-- Same matches as before; see 20250727091524 for what counts as a duplicate.
+-- plpgsql so the trigram threshold can be set for the `%` operator first.
+CREATE OR REPLACE FUNCTION public.find_duplicate_statements(
+    p_statement TEXT,
+    p_speaker TEXT,
+    p_embedding vector(1024) DEFAULT NULL,
+    p_limit INTEGER DEFAULT 5,
+    p_min_text_similarity REAL DEFAULT 0.6,
+    p_min_semantic_similarity REAL DEFAULT 0.9
+)
+RETURNS TABLE (
+    id UUID,
+    block_hash TEXT,
+    block_number BIGINT,
+    block_type TEXT,
+    statement TEXT,
+    speaker TEXT,
+    source_url TEXT,
+    statement_date DATE,
+    match_type TEXT,
+    same_speaker BOOLEAN,
+    text_similarity REAL,
+    semantic_similarity REAL
+) AS $$
+#variable_conflict use_column
+BEGIN
+    -- `%` matches at or above this, for the rest of the transaction
+    PERFORM set_config('pg_trgm.similarity_threshold', p_min_text_similarity::TEXT, true);
+
+    RETURN QUERY
+    WITH input AS (
+        SELECT public.normalize_statement_text(p_statement) AS statement,
+               public.normalize_statement_text(p_speaker) AS speaker
+    ),
+    candidates AS (
+        SELECT c.block_hash
+        FROM public.veritas_chain c, input
+        WHERE public.normalize_statement_text(c.speaker) = input.speaker
+          AND public.normalize_statement_text(c.statement) = input.statement
+        UNION
+        SELECT c.block_hash
+        FROM public.veritas_chain c, input
+        WHERE public.normalize_statement_text(c.statement) % input.statement
+        UNION
+        SELECT nearest.block_hash
+        FROM (
+            SELECT c.block_hash, c.embedding
+            FROM public.veritas_chain c
+            WHERE p_embedding IS NOT NULL
+              AND c.embedding IS NOT NULL
+            ORDER BY c.embedding <=> p_embedding
+            LIMIT 50
+        ) nearest
+        WHERE 1 - (nearest.embedding <=> p_embedding) >= p_min_semantic_similarity
+    ),
+    scored AS (
+        SELECT c.block_hash,
+               public.normalize_statement_text(c.statement) = input.statement
+                 AND public.normalize_statement_text(c.speaker) = input.speaker AS exact,
+               public.normalize_statement_text(c.speaker) = input.speaker AS same_speaker,
+               similarity(public.normalize_statement_text(c.statement), input.statement) AS text_similarity,
+               CASE WHEN p_embedding IS NOT NULL AND c.embedding IS NOT NULL
+                    THEN 1 - (c.embedding <=> p_embedding) END AS semantic_similarity
+        FROM candidates cand
+        JOIN public.veritas_chain c ON c.block_hash = cand.block_hash, input
+        WHERE c.block_type <> 'retraction'
+    ),
+    matches AS (
+        SELECT DISTINCT ON (r.original_hash)
+            s.block_hash, s.exact, s.same_speaker, s.text_similarity, s.semantic_similarity,
+            greatest(s.text_similarity, coalesce(s.semantic_similarity, 0)) AS best_similarity
+        FROM scored s
+        JOIN public.veritas_block_resolutions r ON r.block_hash = s.block_hash
+        WHERE r.latest_block_type <> 'retraction'
+          AND (s.exact
+               OR s.text_similarity >= p_min_text_similarity
+               OR s.semantic_similarity >= p_min_semantic_similarity)
+        ORDER BY r.original_hash, s.exact DESC, greatest(s.text_similarity, coalesce(s.semantic_similarity, 0)) DESC
+    )
+    SELECT
+        c.id, c.block_hash, c.block_number, c.block_type, c.statement, c.speaker,
+        c.source_url, c.statement_date,
+        CASE WHEN m.exact THEN 'exact' ELSE 'near' END,
+        m.same_speaker, m.text_similarity::REAL, m.semantic_similarity::REAL
+    FROM matches m
+    JOIN public.veritas_chain c ON c.block_hash = m.block_hash
+    ORDER BY m.exact DESC, m.best_similarity DESC, c.block_number DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 20);
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION public.find_duplicate_statements(TEXT, TEXT, vector, INTEGER, REAL, REAL) TO anon, authenticated, service_role;
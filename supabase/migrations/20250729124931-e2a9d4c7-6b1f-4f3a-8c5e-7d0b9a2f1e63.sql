@@ -0,0 +1,6 @@
+-- Editors sign on-demand checkpoint requests too, so their signatures are
+-- recorded as used like the others
+ALTER TABLE public.editor_signature_uses DROP CONSTRAINT IF EXISTS editor_signature_uses_purpose_check;
+ALTER TABLE public.editor_signature_uses
+ADD CONSTRAINT editor_signature_uses_purpose_check
+CHECK (purpose IN ('block', 'review', 'prompt_template', 'checkpoint'));
@@ -0,0 +1,5 @@
+-- Recording a new verdict for an existing block is signed by an editor too
+ALTER TABLE public.editor_signature_uses DROP CONSTRAINT IF EXISTS editor_signature_uses_purpose_check;
+ALTER TABLE public.editor_signature_uses
+ADD CONSTRAINT editor_signature_uses_purpose_check
+CHECK (purpose IN ('block', 'review', 'prompt_template', 'checkpoint', 'verification'));
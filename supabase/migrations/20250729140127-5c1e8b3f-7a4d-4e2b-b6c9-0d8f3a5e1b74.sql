@@ -0,0 +1,86 @@
+-- As created by 20250726153508 and 20250727143610, the keyword matches were
+-- capped at 50 before being put in rank order, so which 50 were kept was
+-- arbitrary and the best ones could be lost on a large chain. Ordered by rank
+-- before the cap; same signature as 20250729120514.
+CREATE OR REPLACE FUNCTION public.hybrid_search_veritas_statements(
+    p_query TEXT,
+    p_embedding vector(1024) DEFAULT NULL,
+    p_embedding_model TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 5,
+    p_keyword_weight REAL DEFAULT 1.0,
+    p_semantic_weight REAL DEFAULT 1.0,
+    p_rrf_k INTEGER DEFAULT 60,
+    p_min_similarity REAL DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    block_hash TEXT,
+    block_number BIGINT,
+    block_type TEXT,
+    statement TEXT,
+    speaker TEXT,
+    source_url TEXT,
+    statement_date DATE,
+    original_hash TEXT,
+    verification_status TEXT,
+    verification_confidence TEXT,
+    verification_source TEXT,
+    keyword_rank BIGINT,
+    semantic_rank BIGINT,
+    similarity REAL,
+    score REAL
+) AS $$
+    WITH query AS (
+        SELECT to_tsquery('english', replace(plainto_tsquery('english', coalesce(p_query, ''))::text, ' & ', ' | ')) AS q
+    ),
+    keyword AS (
+        SELECT c.block_hash,
+               row_number() OVER (ORDER BY ts_rank_cd(to_tsvector('english', c.statement), query.q) DESC) AS rank
+        FROM public.veritas_chain c, query
+        WHERE query.q IS NOT NULL
+          AND to_tsvector('english', c.statement) @@ query.q
+        ORDER BY rank
+        LIMIT 50
+    ),
+    semantic AS (
+        SELECT c.block_hash,
+               row_number() OVER (ORDER BY c.embedding <=> p_embedding) AS rank,
+               1 - (c.embedding <=> p_embedding) AS similarity
+        FROM public.veritas_chain c
+        WHERE p_embedding IS NOT NULL
+          AND c.embedding IS NOT NULL
+          AND c.embedding_model = p_embedding_model
+          AND 1 - (c.embedding <=> p_embedding) >= p_min_similarity
+        ORDER BY c.embedding <=> p_embedding
+        LIMIT 50
+    ),
+    fused AS (
+        SELECT coalesce(k.block_hash, s.block_hash) AS block_hash,
+               k.rank AS keyword_rank,
+               s.rank AS semantic_rank,
+               s.similarity,
+               coalesce(p_keyword_weight / (p_rrf_k + k.rank), 0)
+                 + coalesce(p_semantic_weight / (p_rrf_k + s.rank), 0) AS score
+        FROM keyword k
+        FULL OUTER JOIN semantic s ON s.block_hash = k.block_hash
+    ),
+    resolved AS (
+        SELECT DISTINCT ON (r.latest_block_number)
+            r.latest_block_number, r.original_hash, f.keyword_rank, f.semantic_rank, f.similarity, f.score
+        FROM fused f
+        JOIN public.veritas_block_resolutions r ON r.block_hash = f.block_hash
+        WHERE r.latest_block_type <> 'retraction'
+          AND f.score > 0
+        ORDER BY r.latest_block_number, f.score DESC
+    )
+    SELECT
+        c.id, c.block_hash, c.block_number, c.block_type, c.statement, c.speaker,
+        c.source_url, c.statement_date, resolved.original_hash,
+        v.status, v.confidence, v.source,
+        resolved.keyword_rank, resolved.semantic_rank, resolved.similarity::REAL, resolved.score::REAL
+    FROM resolved
+    JOIN public.veritas_chain c ON c.block_number = resolved.latest_block_number
+    LEFT JOIN public.latest_verifications v ON v.block_id = c.id
+    ORDER BY resolved.score DESC, c.block_number DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 20);
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,25 @@
+-- The checkpoint sealing each of the given blocks (up to 1000), for pages
+-- that label blocks with it. Checkpoints never overlap, so a block's is the
+-- last one starting at or before it, if that one reaches it.
+CREATE OR REPLACE FUNCTION public.find_covering_checkpoints(p_block_numbers BIGINT[])
+RETURNS TABLE (
+    block_number BIGINT,
+    id UUID,
+    checkpoint_number BIGINT,
+    first_block_number BIGINT,
+    last_block_number BIGINT,
+    merkle_root TEXT
+) AS $$
+    SELECT b.block_number, cp.id, cp.checkpoint_number, cp.first_block_number, cp.last_block_number, cp.merkle_root
+    FROM (SELECT DISTINCT unnest(p_block_numbers[1:1000]) AS block_number) b
+    CROSS JOIN LATERAL (
+        SELECT c.id, c.checkpoint_number, c.first_block_number, c.last_block_number, c.merkle_root
+        FROM public.veritas_checkpoints c
+        WHERE c.first_block_number <= b.block_number
+        ORDER BY c.first_block_number DESC
+        LIMIT 1
+    ) cp
+    WHERE cp.last_block_number >= b.block_number;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.find_covering_checkpoints(BIGINT[]) TO anon, authenticated, service_role;
@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+      // The edge functions import npm packages from esm.sh under Deno
+      "https://esm.sh/zod@3.23.8": "zod",
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts", "supabase/functions/**/*.test.ts"],
+    setupFiles: ["./vitest.setup.ts"],
+  },
+});
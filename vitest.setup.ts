@@ -0,0 +1,4 @@
+// The shared edge function modules read their settings through Deno.env
+Object.assign(globalThis, {
+  Deno: { env: { get: (name: string) => process.env[name] } },
+});